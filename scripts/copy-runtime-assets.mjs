@@ -0,0 +1,30 @@
+// Copies the in-browser runtimes from node_modules into public/ so the app serves them itself:
+// Pyodide (in-browser Python runs) to public/pyodide/ and the sql.js wasm (SQL sandbox) to
+// public/sqljs/. Runs before `dev` and `build`; the copies are git-ignored.
+import { copyFileSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+
+const RUNTIMES = [
+  {
+    pkg: "pyodide",
+    from: ".",
+    to: "pyodide",
+    files: ["pyodide.js", "pyodide.asm.js", "pyodide.asm.wasm", "python_stdlib.zip", "pyodide-lock.json"],
+  },
+  // The bundler picks `sql-wasm-browser.js` for the browser build and `sql-wasm.js` otherwise.
+  { pkg: "sql.js", from: "dist", to: "sqljs", files: ["sql-wasm.wasm", "sql-wasm-browser.wasm"] },
+];
+
+for (const { pkg, from, to, files } of RUNTIMES) {
+  // Read from node_modules directly: sql.js does not export its package.json.
+  const pkgDir = join(root, "node_modules", pkg);
+  const source = join(pkgDir, from);
+  const target = join(root, "public", to);
+  mkdirSync(target, { recursive: true });
+  for (const file of files) copyFileSync(join(source, file), join(target, file));
+  const { version } = JSON.parse(readFileSync(join(pkgDir, "package.json"), "utf8"));
+  console.log(`Copied ${pkg} ${version} to public/${to}/`);
+}
@@ -1,103 +1,65 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Editor from "@monaco-editor/react";
 import {
-  CPP_FILENAME_PATTERN,
-  JAVA_FILENAME_PATTERN,
-  PYTHON_FILENAME_PATTERN,
-  buildCppMainTemplate,
-  buildMainJavaTemplate,
-  buildPythonMainTemplate,
   countTests,
-  hasCppMainMethod,
-  hasJavaMainMethod,
-  inferJavaClassName,
+  emptyTestOutput,
+  getLanguageAdapter,
+  parseTestOutput,
+  resolveLanguageId,
+  stripAnsi,
   type FileRole,
-  type LanguageId,
 } from "@/lib/languages";
-
-type Problem = {
-  language?: LanguageId;
-  id: string;
-  title: string;
-  description: string;
-  // v1.0 uses starter_code, legacy uses classSkeleton
-  starter_code?: string;
-  classSkeleton?: string;
-  // v1.0 uses test_suite, legacy uses testSuite
-  test_suite?: string;
-  testSuite?: string;
-  workspace?: {
-    files: { path: string; role: FileRole; content: string }[];
-    entrypoint?: string;
-  };
-  constraints: string;
-  // v1.0 uses sample_inputs, legacy uses sampleInputs
-  sample_inputs?: string[];
-  sampleInputs?: string[];
-  sample_outputs?: string[];
-  sampleOutputs?: string[];
-  difficulty?: string;
-  topic_tag?: string;
-  pedagogy?: {
-    scaffold_level?: number;
-    learning_goal?: string;
-    hints_enabled?: boolean;
-  };
-};
-
-type Activity = {
-  id: string;
-  title: string;
-  prompt: string;
-  problems: Problem[];
-  createdAt: string;
-  status?: "DRAFT" | "PUBLISHED";
-  timeLimitSeconds?: number | null;
-};
-
-type JudgeResult = {
-  success: boolean;
-  passedTests: string[];
-  failedTests: string[];
-  stdout: string;
-  stderr: string;
-  executionTimeMs?: number;
-  exitCode?: number;
-  timedOut?: boolean;
-  // Optional structured per-test details (best-effort; may be absent).
-  testCaseDetails?: Array<{
-    name: string;
-    passed: boolean;
-    input?: string;
-    expectedOutput?: string;
-    actualOutput?: string;
-    message?: string;
-  }>;
-};
-
-type RunResult = {
-  stdout: string;
-  stderr: string;
-};
+import {
+  getActivity,
+  getErrorMessage,
+  runCode,
+  submitCode,
+  type Activity,
+  type JudgeResult,
+  type Problem,
+  type RunResult,
+} from "@/lib/api";
+import { parseSqlActualResult, tryParseSqlSuite, type SqlResultSet } from "@/lib/sqlSuite";
+import {
+  compareRunOutput,
+  getSampleCases,
+  type RunStdinSelection,
+  type SampleRunOutcome,
+} from "@/lib/runComparison";
+import { OutputDiff } from "@/components/OutputDiff";
+import { RunPanel } from "@/components/RunPanel";
+import { SqlSandboxPanel } from "@/components/SqlSandboxPanel";
+import { SqlSchemaExplorer } from "@/components/SqlSchemaExplorer";
+import { SqlResultComparison } from "@/components/SqlResultGrid";
+import { PythonVisualizer } from "@/components/PythonVisualizer";
+import { Markdown } from "@/components/Markdown";
+import { activityVariantHref } from "@/lib/sessionFork";
+import type { PythonTrace } from "@/lib/pythonTrace";
+import {
+  isLocalPythonPreferred,
+  LocalPythonError,
+  runPythonLocally,
+  setLocalPythonPreferred,
+  tracePythonLocally,
+  warmUpLocalPython,
+} from "@/lib/pythonRuntime";
+import {
+  clearPersistedWorkspace,
+  hashStarterWorkspace,
+  loadPersistedWorkspace,
+  savePersistedWorkspace,
+  type WorkspaceSnapshot,
+} from "@/lib/workspacePersistence";
 
 type CodeFiles = Record<string, string>;
 
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL ?? "http://localhost:4000";
-
-function getProblemLanguage(p: Problem | null | undefined): LanguageId {
-  if (p?.language === "python") return "python";
-  if (p?.language === "cpp") return "cpp";
-  if (p?.language === "sql") return "sql";
-  return "java";
-}
-
-function stripAnsi(text: string): string {
-  return text.replace(/\u001b\[[0-9;]*m/g, "");
-}
+// Placeholder shown until the activity loads.
+const INITIAL_WORKSPACE = getLanguageAdapter("java").buildStarterWorkspace(
+  getLanguageAdapter("java").defaultStarterCode,
+);
 
 function countStudentTodoMarkersInText(text: string): number {
   if (!text) return 0;
@@ -111,61 +73,6 @@ function countStudentTodoMarkers(problem: Problem): number {
   return countStudentTodoMarkersInText(problem.starter_code ?? problem.classSkeleton ?? "");
 }
 
-function parseJUnitTree(stdout: string): { passed: string[]; failed: string[] } {
-  const clean = stripAnsi(stdout);
-  const passed: string[] = [];
-  const failed: string[] = [];
-  const seen = new Set<string>();
-
-  for (const line of clean.split(/\r?\n/)) {
-    // Example:
-    // |   +-- testFoo() [OK]
-    // |   +-- testBar() [X] expected: <...> but was: <...>
-    const m = line.match(/([A-Za-z_][A-Za-z0-9_]*)\(\)\s+\[(OK|X)\]/);
-    if (!m) continue;
-    const name = m[1]!;
-    const status = m[2]!;
-    const key = `${name}:${status}`;
-    if (seen.has(key)) continue;
-    seen.add(key);
-    if (status === "OK") passed.push(name);
-    if (status === "X") failed.push(name);
-  }
-
-  return { passed, failed };
-}
-
-function parseExpectedActual(message: string): { expected: string; actual: string } | null {
-  // Common JUnit assertion format for assertEquals:
-  // "expected: <0> but was: <-5>"
-  const m = message.match(/expected:\s*<([\s\S]*?)>\s*but\s+was:\s*<([\s\S]*?)>/i);
-  if (!m) return null;
-  return { expected: m[1] ?? "", actual: m[2] ?? "" };
-}
-
-function parseJUnitFailures(stdout: string): Record<string, { message: string; location?: string }> {
-  const clean = stripAnsi(stdout);
-  const failures: Record<string, { message: string; location?: string }> = {};
-
-  // Looks for:
-  // JUnit Jupiter:PersonTest:testNegativeAgeSetsZero()
-  //   ...
-  //   => org.opentest4j.AssertionFailedError: expected: <0> but was: <-5>
-  //      ...
-  //      PersonTest.testNegativeAgeSetsZero(PersonTest.java:23)
-  const re =
-    /JUnit Jupiter:[^:\n]+:([A-Za-z_][A-Za-z0-9_]*)\(\)\s*\n[\s\S]*?=>\s*([^\n]+)(?:[\s\S]*?\(([A-Za-z0-9_]+\.java:\d+)\))?/g;
-  let match: RegExpExecArray | null;
-  while ((match = re.exec(clean)) !== null) {
-    const testName = match[1]!;
-    const message = match[2]!.trim();
-    const location = match[3]?.trim();
-    failures[testName] = { message, location };
-  }
-
-  return failures;
-}
-
 function normalizeDiagnostics(text: string): string {
   const clean = stripAnsi(text);
   const lines = clean.split(/\r?\n/);
@@ -185,55 +92,8 @@ function normalizeDiagnostics(text: string): string {
   return filtered.join("\n").trim();
 }
 
-type SqlSuite = {
-  schema_sql: string;
-  cases: Array<{
-    name: string;
-    seed_sql: string;
-    expected: { columns: string[]; rows: Array<Array<string | number | null>> };
-    order_matters?: boolean;
-  }>;
-};
-
-function tryParseSqlSuite(testSuite: string): SqlSuite | null {
-  if (!testSuite.trim()) return null;
-  try {
-    const parsed = JSON.parse(testSuite);
-    if (!parsed || typeof parsed !== "object") return null;
-    const schema_sql = typeof (parsed as any).schema_sql === "string" ? (parsed as any).schema_sql : "";
-    const cases = Array.isArray((parsed as any).cases) ? (parsed as any).cases : null;
-    if (!schema_sql || !cases) return null;
-    const normalized: SqlSuite["cases"] = [];
-    for (const c of cases) {
-      if (!c || typeof c !== "object") continue;
-      const name = typeof (c as any).name === "string" ? (c as any).name : "";
-      const seed_sql = typeof (c as any).seed_sql === "string" ? (c as any).seed_sql : "";
-      const expected = (c as any).expected;
-      if (!name || !seed_sql || !expected || typeof expected !== "object") continue;
-      const columns = Array.isArray(expected.columns) ? expected.columns : [];
-      const rows = Array.isArray(expected.rows) ? expected.rows : [];
-      if (columns.length === 0) continue;
-      normalized.push({
-        name,
-        seed_sql,
-        expected: { columns, rows },
-        ...(typeof (c as any).order_matters === "boolean" ? { order_matters: (c as any).order_matters } : {}),
-      });
-    }
-    return { schema_sql, cases: normalized };
-  } catch {
-    return null;
-  }
-}
-
-function formatSqlExpected(columns: string[], rows: Array<Array<string | number | null>>): string {
-  const header = columns.join("\t");
-  const body = rows.map((r) => r.map((v) => (v == null ? "NULL" : String(v))).join("\t")).join("\n");
-  return [header, body].filter(Boolean).join("\n");
-}
-
 function parseSqlMismatchBlocks(stderr: string): Array<{
-  actual?: string;
+  actual: SqlResultSet | null;
   message: string;
 }> {
   const text = normalizeDiagnostics(stderr);
@@ -244,33 +104,7 @@ function parseSqlMismatchBlocks(stderr: string): Array<{
     .map((b) => b.trim())
     .filter(Boolean);
 
-  const parsePyList = (s: string | undefined): any => {
-    if (!s) return undefined;
-    const jsonish = s
-      .replace(/\bNone\b/g, "null")
-      .replace(/\bTrue\b/g, "true")
-      .replace(/\bFalse\b/g, "false")
-      .replace(/'/g, '"');
-    try {
-      return JSON.parse(jsonish);
-    } catch {
-      return undefined;
-    }
-  };
-
-  const out: Array<{ actual?: string; message: string }> = [];
-  for (const b of blocks) {
-    const actualColumnsRaw = b.match(/Actual columns:\s*([^\n]+)/)?.[1];
-    const actualRowsRaw = b.match(/Actual rows:\s*([^\n]+)/)?.[1];
-    const actualColumns = parsePyList(actualColumnsRaw);
-    const actualRows = parsePyList(actualRowsRaw);
-    const actual =
-      Array.isArray(actualColumns) && Array.isArray(actualRows)
-        ? formatSqlExpected(actualColumns, actualRows)
-        : undefined;
-    out.push({ actual, message: b });
-  }
-  return out;
+  return blocks.map((b) => ({ actual: parseSqlActualResult(b), message: b }));
 }
 
 function sortTestCaseNames(names: string[]): string[] {
@@ -287,6 +121,31 @@ function sortTestCaseNames(names: string[]): string[] {
   });
 }
 
+function buildStarterWorkspace(problem: Problem): WorkspaceSnapshot {
+  const adapter = getLanguageAdapter(resolveLanguageId(problem.language));
+  const starterCode = problem.starter_code || problem.classSkeleton || adapter.defaultStarterCode;
+
+  if (problem.workspace && Array.isArray(problem.workspace.files) && problem.workspace.files.length > 0) {
+    const nextFiles: CodeFiles = {};
+    const nextRoles: Record<string, FileRole> = {};
+    for (const f of problem.workspace.files) {
+      nextFiles[f.path] = f.content;
+      nextRoles[f.path] = f.role;
+    }
+    const firstEditable =
+      problem.workspace.files.find((f) => f.role !== "readonly")?.path ??
+      problem.workspace.files[0]!.path;
+    return {
+      files: nextFiles,
+      fileRoles: nextRoles,
+      entrypoint: problem.workspace.entrypoint ?? "Main",
+      activeFilename: firstEditable,
+    };
+  }
+
+  return adapter.buildStarterWorkspace(starterCode);
+}
+
 type PersistedTimerStateV1 = {
   v: 1;
   mode: "countup" | "countdown";
@@ -306,16 +165,10 @@ export default function ActivityPage() {
   const [selectedProblemId, setSelectedProblemId] = useState<string | null>(
     null
   );
-  const [files, setFiles] = useState<CodeFiles>({
-    "Solution.java": "public class Solution {\n}\n",
-    "Main.java": buildMainJavaTemplate("Solution"),
-  });
-  const [fileRoles, setFileRoles] = useState<Record<string, FileRole>>({
-    "Solution.java": "support",
-    "Main.java": "entry",
-  });
-  const [activeFilename, setActiveFilename] = useState<string>("Solution.java");
-  const [entrypointClass, setEntrypointClass] = useState<string>("Main");
+  const [files, setFiles] = useState<CodeFiles>(INITIAL_WORKSPACE.files);
+  const [fileRoles, setFileRoles] = useState<Record<string, FileRole>>(INITIAL_WORKSPACE.fileRoles);
+  const [activeFilename, setActiveFilename] = useState<string>(INITIAL_WORKSPACE.activeFilename);
+  const [entrypointClass, setEntrypointClass] = useState<string>(INITIAL_WORKSPACE.entrypoint);
   const [timeLimitSeconds, setTimeLimitSeconds] = useState<number | null>(null);
   const [timerMode, setTimerMode] = useState<"countup" | "countdown">("countup");
   const [isTimerRunning, setIsTimerRunning] = useState(false);
@@ -328,9 +181,26 @@ export default function ActivityPage() {
   const [showTests, setShowTests] = useState(false);
   const [showDetails, setShowDetails] = useState(false);
   const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [runSelection, setRunSelection] = useState<RunStdinSelection>({ kind: "sample", index: 0 });
+  const [customStdin, setCustomStdin] = useState("");
+  const [sampleRuns, setSampleRuns] = useState<SampleRunOutcome[] | null>(null);
+  const [localPython, setLocalPython] = useState(false);
+  const [runNotice, setRunNotice] = useState<string | null>(null);
+  const [visualTrace, setVisualTrace] = useState<PythonTrace | null>(null);
+  const [visualStep, setVisualStep] = useState(0);
+  const [visualizing, setVisualizing] = useState(false);
   const editorRef = useRef<any>(null);
   const monacoRef = useRef<any>(null);
   const todoDecorationsRef = useRef<string[]>([]);
+  const traceDecorationsRef = useRef<string[]>([]);
+  // Which problem the editor currently holds, and the starter hash its saves are tagged with.
+  const workspaceSaveRef = useRef<{ problemId: string; starterHash: string } | null>(null);
+  const pendingWorkspaceRef = useRef<{
+    problemId: string;
+    starterHash: string;
+    snapshot: WorkspaceSnapshot;
+  } | null>(null);
+  const [starterConflict, setStarterConflict] = useState(false);
 
   function updateTodoDecorations(nextCode: string) {
     const editor = editorRef.current;
@@ -363,89 +233,86 @@ export default function ActivityPage() {
     todoDecorationsRef.current = editor.deltaDecorations(todoDecorationsRef.current, decorations);
   }
 
-  function loadProblemIntoWorkspace(problem: Problem) {
-    const lang = getProblemLanguage(problem);
-    const starterCode =
-      problem.starter_code ||
-      problem.classSkeleton ||
-      (lang === "python"
-        ? "def solve(x):\n    # TODO: implement\n    raise NotImplementedError\n"
-        : lang === "cpp"
-        ? "#include <bits/stdc++.h>\n\n// Implement solve(...) below.\nauto solve(auto x) { (void)x; return 0; }\n"
-        : lang === "sql"
-        ? "-- Write a single SELECT query.\nSELECT 1;\n"
-        : "public class Solution {\n}\n");
-
-    if (problem.workspace && Array.isArray(problem.workspace.files) && problem.workspace.files.length > 0) {
-      const nextFiles: CodeFiles = {};
-      const nextRoles: Record<string, FileRole> = {};
-      for (const f of problem.workspace.files) {
-        nextFiles[f.path] = f.content;
-        nextRoles[f.path] = f.role;
-      }
-      setFiles(nextFiles);
-      setFileRoles(nextRoles);
-      const entryClass = problem.workspace.entrypoint ?? "Main";
-      setEntrypointClass(entryClass);
-      const firstEditable =
-        problem.workspace.files.find((f) => f.role !== "readonly")?.path ??
-        problem.workspace.files[0]!.path;
-      setActiveFilename(firstEditable);
-      return;
-    }
+  function insertIntoEditor(text: string) {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const selection = editor.getSelection();
+    if (!selection) return;
+    // executeEdits keeps the insertion on the undo stack; onChange picks up the new value.
+    editor.executeEdits("codem-insert", [{ range: selection, text, forceMoveMarkers: true }]);
+    editor.focus();
+  }
 
-    if (lang === "python") {
-      setFiles({
-        "solution.py": starterCode,
-        "main.py": buildPythonMainTemplate(),
-      });
-      setFileRoles({
-        "solution.py": "support",
-        "main.py": "entry",
-      });
-      setEntrypointClass("main.py");
-      setActiveFilename("solution.py");
+  const flushWorkspaceSave = useCallback(() => {
+    const pending = pendingWorkspaceRef.current;
+    if (!pending) return;
+    pendingWorkspaceRef.current = null;
+    // Only edits are saved; a workspace equal to its starter needs no copy.
+    if (hashStarterWorkspace(pending.snapshot) === pending.starterHash) {
+      clearPersistedWorkspace(activityId, pending.problemId);
       return;
     }
+    savePersistedWorkspace(activityId, pending.problemId, pending.snapshot, pending.starterHash);
+  }, [activityId]);
 
-    if (lang === "cpp") {
-      setFiles({
-        "solution.cpp": starterCode,
-        "main.cpp": buildCppMainTemplate(),
-      });
-      setFileRoles({
-        "solution.cpp": "support",
-        "main.cpp": "entry",
-      });
-      setEntrypointClass("main.cpp");
-      setActiveFilename("solution.cpp");
-      return;
-    }
+  function applyWorkspace(ws: WorkspaceSnapshot) {
+    setFiles(ws.files);
+    setFileRoles(ws.fileRoles);
+    setEntrypointClass(ws.entrypoint);
+    setActiveFilename(ws.activeFilename);
+  }
 
-    if (lang === "sql") {
-      setFiles({
-        "solution.sql": starterCode,
-      });
-      setFileRoles({
-        "solution.sql": "support",
-      });
-      setEntrypointClass("solution.sql");
-      setActiveFilename("solution.sql");
+  function loadProblemIntoWorkspace(problem: Problem) {
+    // Flush edits of the problem being left before its state is replaced.
+    flushWorkspaceSave();
+
+    setRunSelection({ kind: "sample", index: 0 });
+    setSampleRuns(null);
+    setVisualTrace(null);
+
+    const starter = buildStarterWorkspace(problem);
+    const starterHash = hashStarterWorkspace(starter);
+    const stored = loadPersistedWorkspace(activityId, problem.id);
+    setStarterConflict(false);
+
+    // A stored copy of the untouched starter is not worth keeping (or flagging as a conflict).
+    if (stored && hashStarterWorkspace(stored) === stored.starterHash) {
+      clearPersistedWorkspace(activityId, problem.id);
+    } else if (stored) {
+      // Keep the hash the edits were based on until the student resolves a conflict.
+      workspaceSaveRef.current = { problemId: problem.id, starterHash: stored.starterHash };
+      setStarterConflict(stored.starterHash !== starterHash);
+      applyWorkspace(stored);
       return;
     }
 
-    const primaryClassName = inferJavaClassName(starterCode, "Solution");
-    const primaryFilename = `${primaryClassName}.java`;
-    setFiles({
-      [primaryFilename]: starterCode,
-      "Main.java": buildMainJavaTemplate(primaryClassName),
-    });
-    setFileRoles({
-      [primaryFilename]: "support",
-      "Main.java": "entry",
-    });
-    setEntrypointClass("Main");
-    setActiveFilename(primaryFilename);
+    workspaceSaveRef.current = { problemId: problem.id, starterHash };
+    applyWorkspace(starter);
+  }
+
+  function handleResetToStarter() {
+    if (!selectedProblem) return;
+    if (!window.confirm("Replace your code for this problem with the starter code? Your edits will be lost.")) return;
+    pendingWorkspaceRef.current = null;
+    clearPersistedWorkspace(activityId, selectedProblem.id);
+    const starter = buildStarterWorkspace(selectedProblem);
+    workspaceSaveRef.current = { problemId: selectedProblem.id, starterHash: hashStarterWorkspace(starter) };
+    setStarterConflict(false);
+    applyWorkspace(starter);
+    setResult(null);
+  }
+
+  function handleKeepWorkspaceOnConflict() {
+    if (!selectedProblem) return;
+    const starterHash = hashStarterWorkspace(buildStarterWorkspace(selectedProblem));
+    workspaceSaveRef.current = { problemId: selectedProblem.id, starterHash };
+    savePersistedWorkspace(
+      activityId,
+      selectedProblem.id,
+      { files, fileRoles, entrypoint: entrypointClass, activeFilename },
+      starterHash,
+    );
+    setStarterConflict(false);
   }
 
   function timerStorageKey(problemId: string): string {
@@ -529,22 +396,7 @@ export default function ActivityPage() {
     async function load() {
       try {
         setLoadError(null);
-        const token = localStorage.getItem("codem-token");
-        const headers: Record<string, string> = {};
-        if (token) {
-          headers["Authorization"] = `Bearer ${token}`;
-        }
-
-        const res = await fetch(`${BACKEND_URL}/activities/${activityId}`, {
-          headers,
-        });
-
-        const data = await res.json().catch(() => ({}));
-        if (!res.ok) {
-          setLoadError(data?.error || "Failed to load activity.");
-          return;
-        }
-        const act = data.activity as Activity | undefined;
+        const act = await getActivity(activityId);
         if (act) {
           setActivity(act);
           if (act.problems.length > 0) {
@@ -567,7 +419,7 @@ export default function ActivityPage() {
         }
       } catch (e) {
         console.error(e);
-        setLoadError("Failed to load activity.");
+        setLoadError(getErrorMessage(e, "Failed to load activity."));
       } finally {
         setLoading(false);
       }
@@ -607,42 +459,94 @@ export default function ActivityPage() {
   const isGuidedActivity = Boolean(
     activity?.problems.some((p) => p.pedagogy && typeof p.pedagogy.scaffold_level === "number")
   );
-  const selectedLanguage = getProblemLanguage(selectedProblem);
+  const selectedLanguage = resolveLanguageId(selectedProblem?.language);
+  const languageAdapter = getLanguageAdapter(selectedLanguage);
 
   const testSuite = selectedProblem?.test_suite || selectedProblem?.testSuite || "";
   const testCount = countTests(selectedLanguage, testSuite);
+  const sqlSuite = languageAdapter.runner === "sqljs" ? tryParseSqlSuite(testSuite) : null;
   const activeCode = files[activeFilename] ?? "";
-  const entryFile =
-    selectedLanguage === "python"
-      ? "main.py"
-      : selectedLanguage === "cpp"
-      ? "main.cpp"
-      : selectedLanguage === "sql"
-      ? "solution.sql"
-      : Object.entries(fileRoles).find(([, role]) => role === "entry")?.[0] ?? "Main.java";
+  const entryFile = languageAdapter.resolveEntryFile(fileRoles);
   const entrySource = files[entryFile] ?? "";
-  const canRunMain =
-    selectedLanguage === "python"
-      ? true
-      : selectedLanguage === "cpp"
-      ? hasCppMainMethod(entrySource)
-      : selectedLanguage === "sql"
-      ? false
-      : hasJavaMainMethod(entrySource);
+  const canRunMain = languageAdapter.runMode !== "none" && languageAdapter.hasMainEntrypoint(entrySource);
   const isActiveReadonly = fileRoles[activeFilename] === "readonly";
+  const sampleCases = getSampleCases(
+    selectedProblem?.sample_inputs || selectedProblem?.sampleInputs || [],
+    selectedProblem?.sample_outputs || selectedProblem?.sampleOutputs || [],
+  );
+  const effectiveRunSelection: RunStdinSelection =
+    runSelection.kind === "sample" && runSelection.index < sampleCases.length ? runSelection : { kind: "custom" };
 
   useEffect(() => {
     updateTodoDecorations(activeCode);
   }, [activeFilename, activeCode]);
 
-  const junitTree =
-    result && "success" in result ? parseJUnitTree(result.stdout ?? "") : { passed: [], failed: [] };
-  const junitFailures =
-    result && "success" in result ? parseJUnitFailures(result.stdout ?? "") : {};
+  useEffect(() => {
+    setLocalPython(isLocalPythonPreferred());
+  }, []);
+
+  // Highlight the visualizer's current line; it lives in whichever file the step is in.
+  useEffect(() => {
+    const editor = editorRef.current;
+    const monaco = monacoRef.current;
+    if (!editor || !monaco) return;
+    const step = visualTrace?.steps[visualStep];
+    const onScreen = step != null && step.file === activeFilename;
+    const decorations = onScreen
+      ? [
+          {
+            range: new monaco.Range(step.line, 1, step.line, 1),
+            options: {
+              isWholeLine: true,
+              className: "codem-trace-line",
+              linesDecorationsClassName: "codem-trace-gutter",
+            },
+          },
+        ]
+      : [];
+    traceDecorationsRef.current = editor.deltaDecorations(traceDecorationsRef.current, decorations);
+    if (onScreen) editor.revealLineInCenterIfOutsideViewport(step.line);
+  }, [visualTrace, visualStep, activeFilename]);
+
+  const pythonRunsLocally = languageAdapter.runner === "pyodide" && localPython;
+  const canVisualize =
+    languageAdapter.runner === "pyodide" && typeof selectedProblem?.pedagogy?.scaffold_level === "number";
+  useEffect(() => {
+    if (pythonRunsLocally) warmUpLocalPython();
+  }, [pythonRunsLocally]);
+
+  // Autosave the workspace (debounced); flushed on problem switch and when the tab is hidden.
+  useEffect(() => {
+    const target = workspaceSaveRef.current;
+    if (!target || target.problemId !== selectedProblemId) return;
+    pendingWorkspaceRef.current = {
+      ...target,
+      snapshot: { files, fileRoles, entrypoint: entrypointClass, activeFilename },
+    };
+    const id = window.setTimeout(flushWorkspaceSave, 400);
+    return () => window.clearTimeout(id);
+  }, [files, fileRoles, entrypointClass, activeFilename, selectedProblemId, flushWorkspaceSave]);
+
+  useEffect(() => {
+    const onHide = () => flushWorkspaceSave();
+    const onVisibility = () => {
+      if (document.visibilityState === "hidden") flushWorkspaceSave();
+    };
+    window.addEventListener("pagehide", onHide);
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => {
+      window.removeEventListener("pagehide", onHide);
+      document.removeEventListener("visibilitychange", onVisibility);
+      flushWorkspaceSave();
+    };
+  }, [flushWorkspaceSave]);
+
+  const parsedTests =
+    result && "success" in result ? parseTestOutput(selectedLanguage, result.stdout ?? "") : emptyTestOutput();
   const passedTests =
-    result && "success" in result && result.passedTests.length > 0 ? result.passedTests : junitTree.passed;
+    result && "success" in result && result.passedTests.length > 0 ? result.passedTests : parsedTests.passed;
   const failedTests =
-    result && "success" in result && result.failedTests.length > 0 ? result.failedTests : junitTree.failed;
+    result && "success" in result && result.failedTests.length > 0 ? result.failedTests : parsedTests.failed;
   const judgeTimedOut =
     Boolean(result && "success" in result && (result as JudgeResult).timedOut);
   const judgeExitCode =
@@ -650,80 +554,157 @@ export default function ActivityPage() {
       ? (result as JudgeResult).exitCode
       : undefined;
 
-  async function handleRun() {
-    if (!selectedProblem) return;
-    if (selectedLanguage === "sql") {
-      setResult({
-        stdout: "",
-        stderr: 'SQL activities are graded via "Run tests".',
-      });
-      return;
+  function getRunBlocker(): string | null {
+    if (languageAdapter.runMode === "none") {
+      return `${languageAdapter.label} activities are graded via "Run tests".`;
     }
-    if (!canRunMain && selectedLanguage !== "python") {
-      const mainSig =
-        selectedLanguage === "cpp"
-          ? "int main(...)"
-          : "`public static void main(String[] args)`";
-      setResult({
-        stdout: "",
-        stderr:
-          `No ${mainSig} detected in ${entryFile}.\n\nThis activity is graded by unit tests. Use "Run tests" to see pass/fail, or add a main() entrypoint if you want to print/debug locally.`,
-      });
-      return;
+    if (!canRunMain) {
+      return `No \`${languageAdapter.mainSignature ?? "main()"}\` detected in ${entryFile}.\n\nThis activity is graded by unit tests. Use "Run tests" to see pass/fail, or add a main() entrypoint if you want to print/debug locally.`;
     }
-    setRunning(true);
+    return null;
+  }
+
+  function handleToggleLocalPython(enabled: boolean) {
+    setLocalPython(enabled);
+    setLocalPythonPreferred(enabled);
+    setRunNotice(null);
+  }
+
+  function showVisualStep(index: number) {
+    setVisualStep(index);
+    const file = visualTrace?.steps[index]?.file;
+    if (file && file !== activeFilename && files[file] != null) setActiveFilename(file);
+  }
+
+  async function handleVisualize() {
+    if (!selectedProblem) return;
+    const sample = effectiveRunSelection.kind === "sample" ? sampleCases[effectiveRunSelection.index] : undefined;
+    setVisualizing(true);
     try {
-      const sampleIns = selectedProblem.sample_inputs || selectedProblem.sampleInputs || [];
-      const stdin = sampleIns.length > 0 ? String(sampleIns[0]) : undefined;
-      const res = await fetch(`${BACKEND_URL}/run`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          files,
-          ...(selectedLanguage === "java" ? { mainClass: entrypointClass || "Main" } : {}),
-          ...(typeof stdin === "string" ? { stdin } : {}),
-          language: selectedLanguage,
-        }),
+      const trace = await tracePythonLocally({
+        files,
+        entry: entryFile,
+        stdin: sample ? sample.input : customStdin,
+        tracedFiles: Object.keys(files).filter((f) => f !== entryFile && f.endsWith(".py")),
       });
+      setVisualTrace(trace);
+      setVisualStep(0);
+      const first = trace.steps[0]?.file;
+      if (first && files[first] != null) setActiveFilename(first);
+    } catch (e) {
+      console.error(e);
+      setVisualTrace(null);
+      setResult({ stdout: "", stderr: getErrorMessage(e, "Could not visualize this run.") });
+    } finally {
+      setVisualizing(false);
+    }
+  }
 
-      let data: any = null;
+  async function runWithStdin(
+    stdin: string | undefined,
+    options: { onOutput?: (partial: RunResult) => void } = {},
+  ): Promise<{ result: RunResult; failed: boolean }> {
+    if (pythonRunsLocally) {
+      let stdout = "";
+      let stderr = "";
+      const emit = () => options.onOutput?.({ stdout, stderr });
       try {
-        data = await res.json();
-      } catch (parseErr) {
-        data = null;
-      }
-
-      if (!res.ok) {
-        const message =
-          (data && typeof data.error === "string" && data.error) ||
-          (data && typeof data.detail === "string" && data.detail) ||
-          `Failed to run code (HTTP ${res.status}).`;
-        setResult({ stdout: "", stderr: message });
-        return;
-      }
-
-      if (!data || typeof data !== "object") {
-        setResult({ stdout: "", stderr: "Failed to run code (invalid response)." });
-        return;
+        const local = await runPythonLocally({
+          files,
+          entry: entryFile,
+          stdin: stdin ?? "",
+          onStdout: (text) => {
+            stdout += text;
+            emit();
+          },
+          onStderr: (text) => {
+            stderr += text;
+            emit();
+          },
+        });
+        setRunNotice(`Ran in your browser in ${local.durationMs} ms.`);
+        const exitNote = local.exitCode !== 0 ? `\n(exit code ${local.exitCode})` : "";
+        return { result: { stdout: local.stdout, stderr: local.stderr + exitNote }, failed: false };
+      } catch (e) {
+        if (!(e instanceof LocalPythonError) || e.reason === "timeout" || e.reason === "runtime") {
+          const message = getErrorMessage(e, "The browser Python runtime failed.");
+          return { result: { stdout, stderr: [stderr, message].filter(Boolean).join("\n") }, failed: true };
+        }
+        // Unsupported imports or a runtime that would not load: the backend can still run it.
+        setRunNotice(`Ran on the server. ${e.message}`);
       }
-
-      const runResult: RunResult = {
-        stdout: typeof data.stdout === "string" ? data.stdout : "",
-        stderr:
-          typeof data.stderr === "string"
-            ? data.stderr
-            : typeof data.error === "string"
-            ? data.error
-            : "",
+    }
+    try {
+      const runResult = await runCode({
+        files,
+        ...languageAdapter.runRequestOptions(entrypointClass),
+        ...(typeof stdin === "string" ? { stdin } : {}),
+        language: selectedLanguage,
+      });
+      return { result: runResult, failed: false };
+    } catch (e) {
+      console.error(e);
+      return {
+        result: { stdout: "", stderr: getErrorMessage(e, "Failed to run code. Please try again.") },
+        failed: true,
       };
+    }
+  }
 
+  async function handleRun() {
+    if (!selectedProblem) return;
+    const blocker = getRunBlocker();
+    if (blocker) {
+      setResult({ stdout: "", stderr: blocker });
+      return;
+    }
+    setRunning(true);
+    try {
+      const sample = effectiveRunSelection.kind === "sample" ? sampleCases[effectiveRunSelection.index] : undefined;
+      // Empty custom input is sent as no stdin at all, not as an empty string.
+      const stdin = sample ? sample.input : customStdin || undefined;
+      setResult(null);
+      const { result: runResult, failed } = await runWithStdin(stdin, { onOutput: setResult });
       setResult(runResult);
-    } catch (e) {
-      console.error(e);
-      setResult({
-        stdout: "",
-        stderr: "Failed to run code. Please try again.",
-      });
+      setSampleRuns([
+        {
+          label: sample ? `Sample ${sample.index + 1}` : "Custom stdin",
+          stdin: stdin ?? "",
+          expectedOutput: sample?.expectedOutput ?? null,
+          stdout: stripAnsi(runResult.stdout || ""),
+          stderr: runResult.stderr || "",
+          status: compareRunOutput(runResult, sample?.expectedOutput ?? null, failed),
+        },
+      ]);
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  async function handleRunAllSamples() {
+    if (!selectedProblem || sampleCases.length === 0) return;
+    const blocker = getRunBlocker();
+    if (blocker) {
+      setResult({ stdout: "", stderr: blocker });
+      return;
+    }
+    setRunning(true);
+    setResult(null);
+    setSampleRuns([]);
+    try {
+      // Sequential on purpose: the judge sandbox is shared and parallel runs queue anyway.
+      for (const sample of sampleCases) {
+        const { result: runResult, failed } = await runWithStdin(sample.input);
+        const outcome: SampleRunOutcome = {
+          label: `Sample ${sample.index + 1}`,
+          stdin: sample.input,
+          expectedOutput: sample.expectedOutput,
+          stdout: stripAnsi(runResult.stdout || ""),
+          stderr: runResult.stderr || "",
+          status: compareRunOutput(runResult, sample.expectedOutput, failed),
+        };
+        setSampleRuns((prev) => [...(prev ?? []), outcome]);
+      }
     } finally {
       setRunning(false);
     }
@@ -733,78 +714,30 @@ export default function ActivityPage() {
     if (!selectedProblem) return;
     setSubmitting(true);
     try {
-      const token = localStorage.getItem("codem-token");
-      const headers: Record<string, string> = { "Content-Type": "application/json" };
-      if (token) {
-        headers["Authorization"] = `Bearer ${token}`;
-      }
-
       const testSuite = selectedProblem.test_suite || selectedProblem.testSuite || "";
-      const filesForTests = Object.fromEntries(
-        Object.entries(files).filter(([filename]) => {
-          if (fileRoles[filename] === "readonly") return false;
-          if (selectedLanguage !== "cpp") return true;
-          if (filename.endsWith(".cpp")) return filename === "solution.cpp";
-          return true;
-        })
-      );
-
-      const res = await fetch(`${BACKEND_URL}/submit`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify({
-          files: filesForTests,
-          testSuite,
-          activityId,
-          problemId: selectedProblem.id,
-          language: selectedLanguage,
-        }),
+      const filesForTests = languageAdapter.filesForSubmission(files, fileRoles);
+
+      const judgeResult = await submitCode({
+        files: filesForTests,
+        testSuite,
+        activityId,
+        problemId: selectedProblem.id,
+        language: selectedLanguage,
       });
 
-      let data: any = null;
-      try {
-        data = await res.json();
-      } catch (parseErr) {
-        console.error("Failed to parse judge response JSON:", parseErr);
-      }
-
-      if (!res.ok || !data || typeof data !== "object") {
-        setResult({
-          success: false,
-          passedTests: [],
-          failedTests: [],
-          stdout: "",
-          stderr:
-            (data && typeof data.error === "string" && data.error) ||
-            "Failed to run judge. Please try again.",
-          executionTimeMs: 0,
-        });
-        setIsTimerRunning(false);
-        return;
-      }
-
-      const safeResult: JudgeResult = {
-        success: Boolean(data.success),
-        passedTests: Array.isArray(data.passedTests) ? data.passedTests : [],
-        failedTests: Array.isArray(data.failedTests) ? data.failedTests : [],
-        stdout: typeof data.stdout === "string" ? data.stdout : "",
-        stderr:
-          typeof data.stderr === "string"
-            ? data.stderr
-            : typeof data.error === "string"
-            ? data.error
-            : "",
-        executionTimeMs:
-          typeof data.executionTimeMs === "number" ? data.executionTimeMs : 0,
-        exitCode: typeof data.exitCode === "number" ? data.exitCode : undefined,
-        timedOut: typeof data.timedOut === "boolean" ? data.timedOut : undefined,
-        testCaseDetails: Array.isArray(data.testCaseDetails) ? data.testCaseDetails : undefined,
-      };
-
-      setResult(safeResult);
+      setResult(judgeResult);
       setIsTimerRunning(false);
     } catch (e) {
       console.error(e);
+      setResult({
+        success: false,
+        passedTests: [],
+        failedTests: [],
+        stdout: "",
+        stderr: getErrorMessage(e, "Failed to run judge. Please try again."),
+        executionTimeMs: 0,
+      });
+      setIsTimerRunning(false);
     } finally {
       setSubmitting(false);
     }
@@ -819,30 +752,15 @@ export default function ActivityPage() {
   }
 
   function handleAddFile() {
-    const raw = window.prompt(
-      selectedLanguage === "python"
-        ? 'New file name (e.g., "utils.py")'
-        : selectedLanguage === "cpp"
-        ? 'New file name (e.g., "helper.hpp" or "helper.cpp")'
-        : 'New file name (e.g., "Helper.java")'
-    );
+    const pattern = languageAdapter.filenamePattern;
+    if (!pattern) return;
+    const raw = window.prompt(languageAdapter.newFilePrompt);
     if (!raw) return;
     const name = raw.trim();
-    const pattern =
-      selectedLanguage === "python"
-        ? PYTHON_FILENAME_PATTERN
-        : selectedLanguage === "cpp"
-        ? CPP_FILENAME_PATTERN
-        : JAVA_FILENAME_PATTERN;
     if (!pattern.test(name)) {
       setResult({
         stdout: "",
-        stderr:
-          selectedLanguage === "python"
-            ? 'Invalid filename. Use something like "utils.py" (letters/numbers/underscore, must end with .py).'
-            : selectedLanguage === "cpp"
-            ? 'Invalid filename. Use something like "helper.hpp" or "helper.cpp" (letters/numbers/underscore, must end with .hpp/.h/.cpp).'
-            : 'Invalid filename. Use something like "Helper.java" (letters/numbers/underscore, must end with .java).',
+        stderr: languageAdapter.invalidFilenameMessage,
       });
       return;
     }
@@ -850,15 +768,7 @@ export default function ActivityPage() {
       setActiveFilename(name);
       return;
     }
-    const className = name.replace(/\.[A-Za-z0-9_]+$/i, "");
-    const skeleton =
-      selectedLanguage === "python"
-        ? `# ${className}.py\n\n`
-        : selectedLanguage === "cpp"
-        ? name.endsWith(".cpp")
-          ? `#include <bits/stdc++.h>\n\n`
-          : `#pragma once\n\n`
-        : `public class ${className} {\n\n}\n`;
+    const skeleton = languageAdapter.newFileSkeleton(name);
     setFiles((prev) => ({ ...prev, [name]: skeleton }));
     setFileRoles((prev) => ({ ...prev, [name]: "support" }));
     setActiveFilename(name);
@@ -909,6 +819,12 @@ export default function ActivityPage() {
         .codem-student-todo-gutter {
           border-left: 3px solid rgba(250, 204, 21, 0.9);
         }
+        .codem-trace-line {
+          background: rgba(59, 130, 246, 0.25);
+        }
+        .codem-trace-gutter {
+          border-left: 3px solid rgba(59, 130, 246, 0.95);
+        }
       `}</style>
       <div className="mx-auto flex min-h-screen max-w-7xl flex-col px-4 py-6">
         {/* Header */}
@@ -931,6 +847,13 @@ export default function ActivityPage() {
             >
               Home
             </button>
+            <button
+              onClick={() => router.push(activityVariantHref(activityId))}
+              title="Start a new spec session from this activity's spec"
+              className="rounded-full border border-slate-300 bg-white px-3 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Make a variant
+            </button>
             {activity.status === "DRAFT" && (
               <button
                 onClick={() => router.push(`/activity/${activityId}/review`)}
@@ -1017,17 +940,13 @@ export default function ActivityPage() {
                     </div>
                   </div>
                 )}
-                <p className="whitespace-pre-line text-xs text-slate-700">
-                  {selectedProblem.description}
-                </p>
+                <Markdown className="text-xs text-slate-700">{selectedProblem.description}</Markdown>
                 {selectedProblem.constraints && (
                   <>
                     <h4 className="pt-2 text-xs font-semibold text-slate-900">
                       Constraints
                     </h4>
-                    <p className="text-xs text-slate-700">
-                      {selectedProblem.constraints}
-                    </p>
+                    <Markdown className="text-xs text-slate-700">{selectedProblem.constraints}</Markdown>
                   </>
                 )}
                 {(() => {
@@ -1061,6 +980,12 @@ export default function ActivityPage() {
                   }
                   return null;
                 })()}
+                {sqlSuite && (
+                  <>
+                    <h4 className="pt-2 text-xs font-semibold text-slate-900">Schema</h4>
+                    <SqlSchemaExplorer schemaSql={sqlSuite.schema_sql} onInsert={insertIntoEditor} />
+                  </>
+                )}
               </div>
             )}
           </section>
@@ -1084,11 +1009,19 @@ export default function ActivityPage() {
 		                ))}
 		                <button
 		                  onClick={handleAddFile}
-		                  disabled={!selectedProblem}
+		                  disabled={!selectedProblem || !languageAdapter.filenamePattern}
 		                  className="rounded-full border border-slate-300 bg-white px-3 py-1 text-xs font-medium text-slate-800 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
 		                >
 		                  + File
 		                </button>
+		                <button
+		                  onClick={handleResetToStarter}
+		                  disabled={!selectedProblem}
+		                  title="Discard your edits for this problem and restore the starter code"
+		                  className="rounded-full border border-slate-300 bg-white px-3 py-1 text-xs font-medium text-slate-800 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+		                >
+		                  Reset
+		                </button>
 		              </div>
 			              <div className="flex gap-2">
 			                <button
@@ -1097,19 +1030,12 @@ export default function ActivityPage() {
                           !selectedProblem ||
                           running ||
                           submitting ||
-                          selectedLanguage === "sql" ||
-                          (!canRunMain && selectedLanguage !== "python")
+                          !canRunMain
                         }
 			                  title={
-			                    selectedLanguage === "python"
-			                      ? "Runs main.py (harness) and prints solve(...)"
-			                      : selectedLanguage === "sql"
-			                        ? "SQL uses Run tests"
-			                      : canRunMain
-			                        ? `Runs ${entryFile}`
-			                        : selectedLanguage === "cpp"
-			                          ? `Requires int main(...) in ${entryFile}`
-			                          : `Requires public static void main(String[] args) in ${entryFile}`
+			                    canRunMain || languageAdapter.runMode === "none"
+			                      ? languageAdapter.runTitle(entryFile)
+			                      : `Requires ${languageAdapter.mainSignature ?? "main()"} in ${entryFile}`
 			                  }
 			                  className="rounded-full border border-slate-300 bg-white px-3 py-1 text-xs font-medium text-slate-800 shadow-sm hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
 			                >
@@ -1131,21 +1057,42 @@ export default function ActivityPage() {
 	                </button>
 		              </div>
 		            </div>
-			            {selectedProblem && (selectedLanguage === "java" || selectedLanguage === "cpp") && !canRunMain && (
+			            {selectedProblem && languageAdapter.runMode === "main" && !canRunMain && (
 			              <div className="rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900">
 			                No <span className="font-mono">main()</span> entrypoint detected in{" "}
 			                <span className="font-mono">{entryFile}</span>. Use{" "}
 			                <span className="font-semibold">Run tests</span>, or add{" "}
 			                <span className="font-mono">
-			                  {selectedLanguage === "cpp" ? "int main(...)" : "public static void main(String[] args)"}
+			                  {languageAdapter.mainSignature}
 			                </span>{" "}
 			                to <span className="font-mono">{entryFile}</span>.
 			              </div>
 			            )}
+			            {selectedProblem && starterConflict && (
+			              <div className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-900">
+			                <span>
+			                  The starter code for this problem changed since your work was saved. Your saved code is shown.
+			                </span>
+			                <span className="flex gap-2">
+			                  <button
+			                    onClick={handleKeepWorkspaceOnConflict}
+			                    className="rounded-full border border-amber-300 bg-white px-3 py-1 font-medium hover:bg-amber-100"
+			                  >
+			                    Keep my code
+			                  </button>
+			                  <button
+			                    onClick={handleResetToStarter}
+			                    className="rounded-full bg-amber-600 px-3 py-1 font-medium text-white hover:bg-amber-700"
+			                  >
+			                    Use new starter code
+			                  </button>
+			                </span>
+			              </div>
+			            )}
 	            <div className="h-[70vh] min-h-[520px] max-h-[calc(100vh-220px)] overflow-hidden rounded-xl border border-slate-200 bg-slate-950">
 		              <Editor
 		                height="100%"
-		                language={selectedLanguage}
+		                language={languageAdapter.monacoLanguage}
 		                value={activeCode}
                     onMount={(editor, monaco) => {
                       editorRef.current = editor;
@@ -1156,6 +1103,8 @@ export default function ActivityPage() {
 	                  const next = value ?? "";
 	                  if (fileRoles[activeFilename] === "readonly") return;
 	                  setFiles((prev) => ({ ...prev, [activeFilename]: next }));
+	                  // The recorded steps no longer match the code.
+	                  if (visualTrace) setVisualTrace(null);
 	                }}
 	                theme="vs-dark"
 	                options={{
@@ -1179,6 +1128,52 @@ export default function ActivityPage() {
 	                </span>
 	              )}
 	            </div>
+	            {selectedProblem && languageAdapter.runner === "pyodide" && (
+	              <div className="flex flex-wrap items-center justify-between gap-2 text-[11px] text-slate-600">
+	                <label className="flex items-center gap-2">
+	                  <input
+	                    type="checkbox"
+	                    checked={localPython}
+	                    onChange={(e) => handleToggleLocalPython(e.target.checked)}
+	                  />
+	                  Run Python in the browser
+	                </label>
+	                {pythonRunsLocally && runNotice && <span>{runNotice}</span>}
+	                {canVisualize && (
+	                  <button
+	                    onClick={handleVisualize}
+	                    disabled={visualizing || running || submitting}
+	                    title="Step through solve() on the selected run input"
+	                    className="rounded-full border border-slate-300 bg-white px-3 py-1 font-medium text-slate-800 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+	                  >
+	                    {visualizing ? "Tracing..." : "Visualize"}
+	                  </button>
+	                )}
+	              </div>
+	            )}
+	            {visualTrace && (
+	              <PythonVisualizer
+	                trace={visualTrace}
+	                step={visualStep}
+	                onStepChange={showVisualStep}
+	                onClose={() => setVisualTrace(null)}
+	              />
+	            )}
+	            {selectedProblem && languageAdapter.runMode !== "none" && (
+	              <RunPanel
+	                samples={sampleCases}
+	                selection={effectiveRunSelection}
+	                onSelectionChange={setRunSelection}
+	                customStdin={customStdin}
+	                onCustomStdinChange={setCustomStdin}
+	                onRunAll={handleRunAllSamples}
+	                runAllDisabled={running || submitting || !canRunMain}
+	                outcomes={sampleRuns}
+	              />
+	            )}
+	            {selectedProblem && sqlSuite && (
+	              <SqlSandboxPanel key={selectedProblem.id} suite={sqlSuite} query={files["solution.sql"] ?? ""} />
+	            )}
 	            {showTests && testSuite && (
 	              <div className="space-y-2 rounded-xl border border-slate-200 bg-slate-50 p-3">
 	                <div className="flex items-center justify-between">
@@ -1201,9 +1196,7 @@ export default function ActivityPage() {
 			              <p className="text-slate-500">
 			                Use <span className="font-semibold">Run tests</span> to see pass/fail.{" "}
 			                <span className="font-semibold">Run ({entryFile})</span>{" "}
-			                {selectedLanguage === "python"
-			                  ? "runs a small harness that calls solve(...) from solution.py."
-			                  : `runs whatever you put in ${entryFile}.`}
+			                {languageAdapter.runDescription(entryFile)}
 			              </p>
 			            )}
 	            {result && "success" in result && (
@@ -1233,28 +1226,35 @@ export default function ActivityPage() {
                     You can increase the backend timeout via <span className="font-mono">JUDGE_TIMEOUT_MS</span>.
                   </div>
                 )}
+                {parsedTests.suiteError && (
+                  <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-[11px] text-rose-900">
+                    <div className="font-semibold">Test suite failed to run</div>
+                    <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap font-mono">{parsedTests.suiteError}</pre>
+                  </div>
+                )}
                 <div className="space-y-2">
                   {(() => {
                     const all = sortTestCaseNames([...passedTests, ...failedTests]);
 
-                    const suite = selectedLanguage === "sql" ? tryParseSqlSuite(testSuite) : null;
-                    const sqlByName = new Map<string, { input: string; expected: string }>();
+                    const suite = sqlSuite;
+                    const sqlByName = new Map<string, { input: string; expected: SqlResultSet; orderMatters: boolean }>();
                     if (suite) {
                       for (const c of suite.cases) {
                         sqlByName.set(c.name, {
                           input: [`-- schema_sql`, suite.schema_sql.trim(), `\n-- seed_sql`, c.seed_sql.trim()]
                             .filter(Boolean)
                             .join("\n"),
-                          expected: formatSqlExpected(c.expected.columns, c.expected.rows),
+                          expected: c.expected,
+                          orderMatters: c.order_matters === true,
                         });
                       }
                     }
 
                     const sqlMismatchBlocks =
-                      selectedLanguage === "sql" ? parseSqlMismatchBlocks(result.stderr || "") : [];
+                      languageAdapter.runner === "sqljs" ? parseSqlMismatchBlocks(result.stderr || "") : [];
                     const sqlFailNames = sortTestCaseNames(failedTests);
-                    const sqlExtraByFailName = new Map<string, { actual?: string; message?: string }>();
-                    if (selectedLanguage === "sql" && sqlMismatchBlocks.length > 0) {
+                    const sqlExtraByFailName = new Map<string, { actual: SqlResultSet | null; message?: string }>();
+                    if (sqlMismatchBlocks.length > 0) {
                       for (let i = 0; i < Math.min(sqlFailNames.length, sqlMismatchBlocks.length); i++) {
                         const name = sqlFailNames[i]!;
                         const b = sqlMismatchBlocks[i]!;
@@ -1275,8 +1275,7 @@ export default function ActivityPage() {
                         <div className="space-y-2">
                           {all.map((t) => {
                             const passed = passedTests.includes(t);
-                            const junitInfo = junitFailures[t];
-                            const junitParsed = junitInfo?.message ? parseExpectedActual(junitInfo.message) : null;
+                            const parsedCase = parsedTests.cases[t];
 
                             const suiteInfo = sqlByName.get(t);
                             const sqlExtra = sqlExtraByFailName.get(t);
@@ -1284,9 +1283,9 @@ export default function ActivityPage() {
                             const fromStructured = result.testCaseDetails?.find((x) => x.name === t);
 
                             const input = suiteInfo?.input ?? fromStructured?.input;
-                            const expectedOutput = suiteInfo?.expected ?? (junitParsed ? junitParsed.expected : undefined) ?? fromStructured?.expectedOutput;
-                            const actualOutput = sqlExtra?.actual ?? (junitParsed ? junitParsed.actual : undefined) ?? fromStructured?.actualOutput;
-                            const message = junitInfo?.message ?? sqlExtra?.message ?? fromStructured?.message;
+                            const expectedOutput = parsedCase?.expected ?? fromStructured?.expectedOutput;
+                            const actualOutput = parsedCase?.actual ?? fromStructured?.actualOutput;
+                            const message = parsedCase?.message ?? sqlExtra?.message ?? fromStructured?.message;
 
                             return (
                               <details
@@ -1319,29 +1318,39 @@ export default function ActivityPage() {
                                       </pre>
                                     </div>
                                   </div>
-                                  <div className="grid gap-2 md:grid-cols-2">
-                                    <div className="rounded border border-slate-200 bg-white p-2">
-                                      <div className="text-[11px] font-semibold text-slate-900">Expected output</div>
-                                      <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap rounded bg-slate-50 p-2 font-mono text-[11px] text-slate-800">
-                                        {expectedOutput || "(not available)"}
-                                      </pre>
-                                    </div>
-                                    <div className="rounded border border-slate-200 bg-white p-2">
-                                      <div className="text-[11px] font-semibold text-slate-900">Your output</div>
-                                      <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap rounded bg-slate-50 p-2 font-mono text-[11px] text-slate-800">
-                                        {actualOutput || "(not available)"}
-                                      </pre>
+                                  {suiteInfo ? (
+                                    <SqlResultComparison
+                                      expected={suiteInfo.expected}
+                                      actual={sqlExtra?.actual ?? null}
+                                      orderMatters={suiteInfo.orderMatters}
+                                    />
+                                  ) : !passed && expectedOutput != null && actualOutput != null ? (
+                                    <OutputDiff expected={expectedOutput} actual={actualOutput} />
+                                  ) : (
+                                    <div className="grid gap-2 md:grid-cols-2">
+                                      <div className="rounded border border-slate-200 bg-white p-2">
+                                        <div className="text-[11px] font-semibold text-slate-900">Expected output</div>
+                                        <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap rounded bg-slate-50 p-2 font-mono text-[11px] text-slate-800">
+                                          {expectedOutput || "(not available)"}
+                                        </pre>
+                                      </div>
+                                      <div className="rounded border border-slate-200 bg-white p-2">
+                                        <div className="text-[11px] font-semibold text-slate-900">Your output</div>
+                                        <pre className="mt-1 max-h-48 overflow-auto whitespace-pre-wrap rounded bg-slate-50 p-2 font-mono text-[11px] text-slate-800">
+                                          {actualOutput || "(not available)"}
+                                        </pre>
+                                      </div>
                                     </div>
-                                  </div>
+                                  )}
                                   {message && (
                                     <div className="rounded border border-slate-200 bg-white p-2">
                                       <div className="text-[11px] font-semibold text-slate-900">Notes</div>
                                       <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap rounded bg-slate-50 p-2 font-mono text-[11px] text-slate-800">
                                         {message}
                                       </pre>
-                                      {junitInfo?.location && (
+                                      {parsedCase?.location && (
                                         <div className="mt-2 text-[11px] text-slate-600">
-                                          Location: <span className="font-mono">{junitInfo.location}</span>
+                                          Location: <span className="font-mono">{parsedCase.location}</span>
                                         </div>
                                       )}
                                     </div>
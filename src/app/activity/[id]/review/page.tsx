@@ -3,42 +3,25 @@
 import { useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { OnboardingTour, type TourStep } from "@/components/OnboardingTour";
-
-type Problem = {
-  id: string;
-  title: string;
-  description: string;
-  language?: string;
-  difficulty?: string;
-  topic_tag?: string;
-};
-
-type Activity = {
-  id: string;
-  title: string;
-  prompt: string;
-  problems: Problem[];
-  createdAt: string;
-  status?: "DRAFT" | "PUBLISHED";
-  timeLimitSeconds?: number | null;
-  communityPublishedAt?: string | null;
-  communitySummary?: string | null;
-  communityTags?: string[];
-};
-
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL ?? "http://localhost:4000";
+import { Markdown } from "@/components/Markdown";
+import { activityVariantHref } from "@/lib/sessionFork";
+import {
+  aiEditProblem,
+  getActivity,
+  getAuthToken,
+  getErrorMessage,
+  publishActivity,
+  publishActivityToCommunity,
+  unpublishActivityFromCommunity,
+  updateActivity,
+  type Activity,
+} from "@/lib/api";
 
 function clampInt(n: number, min: number, max: number): number {
   if (!Number.isFinite(n)) return min;
   return Math.max(min, Math.min(max, Math.trunc(n)));
 }
 
-function getErrorMessage(err: unknown, fallback: string): string {
-  if (err instanceof Error && typeof err.message === "string" && err.message.trim()) return err.message;
-  if (typeof err === "string" && err.trim()) return err;
-  return fallback;
-}
-
 export default function ActivityReviewPage() {
   const params = useParams<{ id: string }>();
   const activityId = params.id;
@@ -135,23 +118,12 @@ export default function ActivityReviewPage() {
       setLoading(true);
       setError(null);
       try {
-        const token = localStorage.getItem("codem-token");
-        if (!token) {
+        if (!getAuthToken()) {
           router.push("/auth/login");
           return;
         }
 
-        const res = await fetch(`${BACKEND_URL}/activities/${activityId}`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        const data = await res.json().catch(() => ({}));
-
-        if (!res.ok) {
-          throw new Error(data?.error || `Failed to load activity (${res.status})`);
-        }
-
-        const act = data?.activity as Activity | undefined;
-        if (!act) throw new Error("Failed to load activity.");
+        const act = await getActivity(activityId, { auth: "required" });
 
         setActivity(act);
         setTitle(act.title ?? "");
@@ -172,8 +144,7 @@ export default function ActivityReviewPage() {
   }, [activityId, router]);
 
   async function saveDraft(): Promise<Activity | null> {
-    const token = localStorage.getItem("codem-token");
-    if (!token) {
+    if (!getAuthToken()) {
       router.push("/auth/login");
       return null;
     }
@@ -184,25 +155,13 @@ export default function ActivityReviewPage() {
     setSaving(true);
     setToast(null);
     try {
-      const res = await fetch(`${BACKEND_URL}/activities/${activityId}`, {
-        method: "PATCH",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          title: title.trim() || "Untitled activity",
-          timeLimitSeconds,
-        }),
+      const act = await updateActivity(activityId, {
+        title: title.trim() || "Untitled activity",
+        timeLimitSeconds,
       });
-      const data = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        throw new Error(data?.error || `Failed to save (${res.status})`);
-      }
-      const act = data?.activity as Activity | undefined;
       if (act) setActivity(act);
       setToast("Saved.");
-      return act ?? null;
+      return act;
     } finally {
       setSaving(false);
     }
@@ -214,20 +173,12 @@ export default function ActivityReviewPage() {
     try {
       await saveDraft();
 
-      const token = localStorage.getItem("codem-token");
-      if (!token) {
+      if (!getAuthToken()) {
         router.push("/auth/login");
         return;
       }
 
-      const res = await fetch(`${BACKEND_URL}/activities/${activityId}/publish`, {
-        method: "POST",
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      const data = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        throw new Error(data?.error || `Failed to publish (${res.status})`);
-      }
+      await publishActivity(activityId);
 
       setActivity((prev) => (prev ? { ...prev, status: "PUBLISHED" } : prev));
       setToast("Published. You can share the link now.");
@@ -239,8 +190,7 @@ export default function ActivityReviewPage() {
   }
 
   async function publishToCommunity() {
-    const token = localStorage.getItem("codem-token");
-    if (!token) {
+    if (!getAuthToken()) {
       router.push("/auth/login");
       return;
     }
@@ -249,26 +199,15 @@ export default function ActivityReviewPage() {
     setToast(null);
     setError(null);
     try {
-      const res = await fetch(`${BACKEND_URL}/activities/${activityId}/community/publish`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({
-          ...(communitySummary.trim() ? { summary: communitySummary.trim() } : {}),
-          ...(tagsPreview.length ? { tags: tagsPreview } : {}),
-        }),
+      const data = await publishActivityToCommunity(activityId, {
+        ...(communitySummary.trim() ? { summary: communitySummary.trim() } : {}),
+        ...(tagsPreview.length ? { tags: tagsPreview } : {}),
       });
-      const data = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        throw new Error(data?.error || `Failed to publish to community (${res.status})`);
-      }
       setActivity((prev) =>
         prev
           ? {
               ...prev,
-              communityPublishedAt: typeof data?.communityPublishedAt === "string" ? data.communityPublishedAt : prev.communityPublishedAt,
+              communityPublishedAt: data.communityPublishedAt ?? prev.communityPublishedAt,
               communitySummary: communitySummary.trim() || prev.communitySummary || null,
               communityTags: tagsPreview,
             }
@@ -283,8 +222,7 @@ export default function ActivityReviewPage() {
   }
 
   async function unpublishFromCommunity() {
-    const token = localStorage.getItem("codem-token");
-    if (!token) {
+    if (!getAuthToken()) {
       router.push("/auth/login");
       return;
     }
@@ -293,14 +231,7 @@ export default function ActivityReviewPage() {
     setToast(null);
     setError(null);
     try {
-      const res = await fetch(`${BACKEND_URL}/activities/${activityId}/community/unpublish`, {
-        method: "POST",
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      const data = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        throw new Error(data?.error || `Failed to unpublish (${res.status})`);
-      }
+      await unpublishActivityFromCommunity(activityId);
       setActivity((prev) => (prev ? { ...prev, communityPublishedAt: null } : prev));
       setToast("Removed from community.");
     } catch (e: unknown) {
@@ -321,8 +252,7 @@ export default function ActivityReviewPage() {
   }
 
   async function editProblemWithAi(problemId: string) {
-    const token = localStorage.getItem("codem-token");
-    if (!token) {
+    if (!getAuthToken()) {
       router.push("/auth/login");
       return;
     }
@@ -337,20 +267,7 @@ export default function ActivityReviewPage() {
     setEditError(null);
     setToast(null);
     try {
-      const res = await fetch(`${BACKEND_URL}/activities/${activityId}/problems/${problemId}/ai-edit`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({ instruction }),
-      });
-      const data = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        throw new Error(data?.error || `Failed to edit problem (${res.status})`);
-      }
-
-      const act = data?.activity as Activity | undefined;
+      const act = await aiEditProblem(activityId, problemId, instruction);
       if (act) {
         setActivity(act);
         setToast("Problem updated.");
@@ -450,6 +367,13 @@ export default function ActivityReviewPage() {
             >
               Open
             </button>
+            <button
+              onClick={() => router.push(activityVariantHref(activityId))}
+              title="Start a new spec session from this activity's spec"
+              className="rounded-full border border-slate-300 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Make a variant
+            </button>
           </div>
         </header>
 
@@ -637,7 +561,7 @@ export default function ActivityReviewPage() {
                       </button>
                     )}
                   </summary>
-                  <div className="mt-2 text-sm text-slate-700 whitespace-pre-line">{p.description}</div>
+                  <Markdown className="mt-2 text-sm text-slate-700">{p.description}</Markdown>
 
                   {isDraft && editingProblemId === p.id && (
                     <div className="mt-3 rounded-xl border border-slate-200 bg-slate-50 p-3">
@@ -5,9 +5,8 @@ import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { Eye, EyeOff } from "lucide-react";
 import { useThemeMode } from "@/lib/useThemeMode";
+import { getErrorMessage, login, storeAuthSession } from "@/lib/api";
 
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL ?? "http://localhost:4000";
 
 const PASSWORD_MIN_LENGTH = 6;
 
@@ -33,26 +32,15 @@ export default function LoginPage() {
     setLoading(true);
 
     try {
-      const res = await fetch(`${BACKEND_URL}/auth/login`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ username, password }),
-      });
-
-      const data = await res.json();
-
-      if (!res.ok) {
-        throw new Error(data.error || "Login failed");
-      }
+      const data = await login(username, password);
 
       // Store token
-      localStorage.setItem("codem-token", data.token);
-      localStorage.setItem("codem-user", JSON.stringify(data.user));
+      storeAuthSession(data.token, data.user);
 
       // Redirect to home
       router.push("/");
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(getErrorMessage(err, "Login failed"));
     } finally {
       setLoading(false);
     }
@@ -5,9 +5,8 @@ import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { Eye, EyeOff } from "lucide-react";
 import { useThemeMode } from "@/lib/useThemeMode";
+import { getErrorMessage, register, storeAuthSession } from "@/lib/api";
 
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL ?? "http://localhost:4000";
 
 export default function RegisterPage() {
   const router = useRouter();
@@ -45,31 +44,20 @@ export default function RegisterPage() {
     setLoading(true);
 
     try {
-      const res = await fetch(`${BACKEND_URL}/auth/register`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          username: formData.username,
-          email: formData.email,
-          password: formData.password,
-          displayName: formData.displayName || formData.username,
-        }),
+      const data = await register({
+        username: formData.username,
+        email: formData.email,
+        password: formData.password,
+        displayName: formData.displayName || formData.username,
       });
 
-      const data = await res.json();
-
-      if (!res.ok) {
-        throw new Error(data.error || "Registration failed");
-      }
-
       // Store token
-      localStorage.setItem("codem-token", data.token);
-      localStorage.setItem("codem-user", JSON.stringify(data.user));
+      storeAuthSession(data.token, data.user);
 
       // Redirect to home
       router.push("/");
-    } catch (err: any) {
-      setError(err.message);
+    } catch (err) {
+      setError(getErrorMessage(err, "Registration failed"));
     } finally {
       setLoading(false);
     }
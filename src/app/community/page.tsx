@@ -4,19 +4,7 @@ import Link from "next/link";
 import { Moon, Sun } from "lucide-react";
 import { useEffect, useMemo, useState } from "react";
 import { OnboardingTour, type TourStep } from "@/components/OnboardingTour";
-
-type CommunityActivity = {
-  id: string;
-  title: string;
-  communitySummary: string | null;
-  communityTags: string[];
-  communityPublishedAt: string | null;
-  createdAt: string;
-  problemCount: number;
-  author: { username: string; displayName: string };
-};
-
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL ?? "http://localhost:4000";
+import { getErrorMessage, listCommunityActivities, type CommunityActivity } from "@/lib/api";
 
 function formatRelativeDate(iso: string | null): string {
   if (!iso) return "—";
@@ -25,32 +13,6 @@ function formatRelativeDate(iso: string | null): string {
   return dt.toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
 }
 
-function safeText(s: unknown): string {
-  return typeof s === "string" ? s : "";
-}
-
-function safeStringArray(x: unknown): string[] {
-  if (!Array.isArray(x)) return [];
-  return x.filter((v) => typeof v === "string" && v.trim()).map((v) => v.trim());
-}
-
-function getErrorMessage(err: unknown, fallback: string): string {
-  if (err instanceof Error && typeof err.message === "string" && err.message.trim()) return err.message;
-  if (typeof err === "string" && err.trim()) return err;
-  return fallback;
-}
-
-function safeAuthor(a: Record<string, unknown>): { username: string; displayName: string } {
-  const raw = a.author;
-  if (!raw || typeof raw !== "object") {
-    return { username: "", displayName: "" };
-  }
-  const author = raw as Record<string, unknown>;
-  const username = safeText(author.username);
-  const displayName = safeText(author.displayName) || username;
-  return { username, displayName };
-}
-
 export default function CommunityPage() {
   const [darkMode, setDarkMode] = useState(false);
   const [query, setQuery] = useState("");
@@ -107,34 +69,8 @@ export default function CommunityPage() {
     setLoading(true);
     setError(null);
     try {
-      const res = await fetch(
-        `${BACKEND_URL}/community/activities?limit=20&offset=${encodeURIComponent(String(nextOffset))}`,
-      );
-      const data = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        throw new Error(data?.error || `Failed to load (${res.status})`);
-      }
-
-      const items = Array.isArray(data?.activities) ? data.activities : [];
-      const parsed = items
-        .map((raw: unknown) => {
-          if (!raw || typeof raw !== "object") return null;
-          const a = raw as Record<string, unknown>;
-          const id = safeText(a.id).trim();
-          const title = safeText(a.title).trim();
-          if (!id || !title) return null;
-          return {
-            id,
-            title,
-            communitySummary: typeof a.communitySummary === "string" ? a.communitySummary : null,
-            communityTags: safeStringArray(a.communityTags),
-            communityPublishedAt: typeof a.communityPublishedAt === "string" ? a.communityPublishedAt : null,
-            createdAt: typeof a.createdAt === "string" ? a.createdAt : "",
-            problemCount: typeof a.problemCount === "number" ? a.problemCount : 0,
-            author: safeAuthor(a),
-          } satisfies CommunityActivity;
-        })
-        .filter(Boolean) as CommunityActivity[];
+      const page = await listCommunityActivities({ limit: 20, offset: nextOffset });
+      const parsed = page.activities;
 
       setActivities((prev) => {
         const seen = new Set(prev.map((p) => p.id));
@@ -145,7 +81,7 @@ export default function CommunityPage() {
         return next;
       });
 
-      setNextOffset(typeof data?.nextOffset === "number" ? data.nextOffset : null);
+      setNextOffset(page.nextOffset);
     } catch (e: unknown) {
       setError(getErrorMessage(e, "Failed to load community activities."));
     } finally {
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Plus_Jakarta_Sans } from "next/font/google";
+import "katex/dist/katex.min.css";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -1,19 +1,46 @@
 "use client";
 
 import Link from "next/link";
-import { History as HistoryIcon, Moon, Sun, X } from "lucide-react";
+import { History as HistoryIcon, Moon, Sun } from "lucide-react";
 import { useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
-import { useSpecBuilderUX } from "@/lib/specBuilderUx";
+import { useSpecBuilderUX, type SpecInteractionResult, type SpecSlot } from "@/lib/specBuilderUx";
+import { normalizeUserInput } from "@/lib/specNormalization";
+import { formatSpecFormAnswer, type SpecFormErrors, type SpecFormValues } from "@/lib/specForm";
+import { SpecBuilderForm } from "@/components/SpecBuilderForm";
+import { buildSpecRevisionMessage, SPEC_FIELDS, type SpecFieldKey } from "@/lib/specSnapshot";
+import { SpecSnapshotSidebar } from "@/components/SpecSnapshotSidebar";
+import { Markdown } from "@/components/Markdown";
+import { SessionHistoryDrawer } from "@/components/SessionHistoryDrawer";
+import { takeForkRequestFromUrl } from "@/lib/sessionFork";
+import { formValuesToSpec, specToFormValues } from "@/lib/specPresets";
+import { SpecPresetGallery, type PresetRun } from "@/components/SpecPresetGallery";
+import { DifficultyPlanEditor } from "@/components/DifficultyPlanEditor";
+import { reduceGenerationProgress } from "@/lib/generationProgressReducer";
+import { subscribeToGenerationProgress, type ProgressSubscription } from "@/lib/generationProgressStream";
 import { OnboardingTour, type TourStep } from "@/components/OnboardingTour";
-import type {
-  Difficulty,
-  GenerationLanguage,
-  GenerationProgressEvent,
-} from "@/types/generationProgress";
-
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL ?? "http://localhost:4000";
+import { GenerationTracePanel } from "@/components/GenerationTracePanel";
+import { isTraceViewerEnabled } from "@/lib/generationTrace";
+import {
+  ApiError,
+  createSession,
+  createSpecPreset,
+  deleteSpecPreset,
+  generateActivity,
+  retryGenerationSlot,
+  getAuthToken,
+  getErrorMessage,
+  getSession,
+  getStoredUser,
+  listSpecPresets,
+  postSessionMessage,
+  type ActivitySpecSnapshot,
+  type AuthUser,
+  type LearningMode,
+  type SessionForkSource,
+  type SpecPreset,
+} from "@/lib/api";
+import type { GenerationProgressState, SlotProgress } from "@/types/generationProgress";
 
 type ChatMessage = {
   role: "user" | "assistant";
@@ -21,63 +48,63 @@ type ChatMessage = {
   tone?: "question" | "hint" | "info";
   summary?: string;
   assumptions?: string[];
+  // For user answers sent from this page: the slot answered, and whether a later answer replaced it.
+  slot?: SpecSlot["key"];
+  superseded?: "edited" | "undone";
 };
 
-type SlotStage = "queued" | "llm" | "contract" | "docker" | "done" | "failed";
-type SlotProgress = {
-  stage: SlotStage;
-  attempt: number;
-  difficulty: Difficulty | null;
-  topic: string | null;
-  language: GenerationLanguage | null;
-  stageDone: { llm: boolean; contract: boolean; docker: boolean };
-  lastFailure: { stage: "contract" | "docker"; message: string } | null;
-};
-
-type GenerationProgressState = {
-  totalSlots: number;
-  run: number;
-  slots: SlotProgress[];
-  error: string | null;
-  lastHeartbeatTs: string | null;
-};
+// Marks every earlier answer to `slot` as replaced by the latest one.
+function supersedeEarlierAnswers(messages: ChatMessage[], slot: SpecSlot["key"]): ChatMessage[] {
+  let latest = -1;
+  messages.forEach((m, i) => {
+    if (m.role === "user" && m.slot === slot) latest = i;
+  });
+  return messages.map((m, i) =>
+    m.role === "user" && m.slot === slot && i < latest && !m.superseded ? { ...m, superseded: "edited" } : m,
+  );
+}
 
-type LearningMode = "practice" | "guided";
-
-type SessionSummary = {
-  id: string;
-  state: string;
-  learning_mode: LearningMode;
-  created_at: string;
-  updated_at: string;
-  activity_id: string | null;
-  last_message: string | null;
-  last_message_at: string | null;
-  message_count: number;
-};
+const GENERATING_MESSAGE = "Generating activity... please wait.";
 
 export default function Home() {
   const router = useRouter();
-  const { interpretResponse, formatSlotPrompt, normalizeInput, activeSlot } = useSpecBuilderUX();
+  const { interpretResponse, formatSlotPrompt, normalizeInput, activeSlot, rewindToSlot } = useSpecBuilderUX();
   const [loading, setLoading] = useState(false);
   const [chatInput, setChatInput] = useState("");
+  // Set by "Undo" on the interpretation preview: send the current input exactly as typed.
+  const [sendAsTyped, setSendAsTyped] = useState(false);
+  // An undone answer: the next chat message re-answers `slot` instead of the current question.
+  const [rewind, setRewind] = useState<{ slot: SpecSlot["key"]; previousSlot: SpecSlot["key"]; index: number } | null>(
+    null,
+  );
+  const [editingAnswer, setEditingAnswer] = useState<{ index: number; value: string } | null>(null);
+  const [specInputMode, setSpecInputMode] = useState<"chat" | "form">("chat");
   const [hasInteracted, setHasInteracted] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [chatLoading, setChatLoading] = useState(false);
   const [darkMode, setDarkMode] = useState(false);
-  const [user, setUser] = useState<any>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [historyOpen, setHistoryOpen] = useState(false);
-  const [sessionHistory, setSessionHistory] = useState<SessionSummary[]>([]);
-  const [historyLoading, setHistoryLoading] = useState(false);
-  const [historyError, setHistoryError] = useState<string | null>(null);
 
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [learningMode, setLearningMode] = useState<LearningMode>("practice");
   const [generationLocked, setGenerationLocked] = useState(false);
   const [specReady, setSpecReady] = useState(false);
+  // Latest spec snapshot from the backend, with the question and assumptions that came with it.
+  const [specSnapshot, setSpecSnapshot] = useState<ActivitySpecSnapshot>({});
+  const [lastQuestionKey, setLastQuestionKey] = useState<string | null>(null);
+  const [specAssumptions, setSpecAssumptions] = useState<string[]>([]);
+  const [userPresets, setUserPresets] = useState<SpecPreset[]>([]);
+  const [presetRun, setPresetRun] = useState<PresetRun | null>(null);
   const [progress, setProgress] = useState<GenerationProgressState | null>(null);
   const [progressHint, setProgressHint] = useState<string | null>(null);
-  const progressRef = useRef<EventSource | null>(null);
+  const progressRef = useRef<ProgressSubscription | null>(null);
+  const progressHintTimerRef = useRef<number | null>(null);
+  // Last SSE id seen by the previous subscription, so a slot retry resumes instead of replaying.
+  const progressLastEventIdRef = useRef<string | null>(null);
+  const [topicEdit, setTopicEdit] = useState<{ slotIndex: number; topic: string } | null>(null);
+  // Session whose generation trace is shown; kept after failures so the trace can be inspected.
+  const [traceSessionId, setTraceSessionId] = useState<string | null>(null);
 
   const [tourOpen, setTourOpen] = useState(false);
   const tutorialSteps: TourStep[] = [
@@ -123,56 +150,160 @@ export default function Home() {
   };
 
   function cleanupStreams() {
-    try {
-      progressRef.current?.close();
-    } catch {
-      // ignore
+    if (progressHintTimerRef.current != null) {
+      window.clearTimeout(progressHintTimerRef.current);
+      progressHintTimerRef.current = null;
+    }
+    if (progressRef.current) {
+      progressLastEventIdRef.current = progressRef.current.lastEventId();
+      progressRef.current.close();
     }
+    progressRef.current = null;
+  }
+
+  /**
+   * Subscribes to generation progress and rebuilds `progress` from the (possibly replayed)
+   * event stream. With `followCompletion`, terminal events drive the page directly; this is
+   * used when re-attaching after a reload, where no `POST /generate` request is pending.
+   */
+  function attachProgressStream(
+    targetSessionId: string,
+    { followCompletion, resume = false }: { followCompletion: boolean; resume?: boolean },
+  ) {
+    cleanupStreams();
+    setProgressHint(null);
+    if (!resume) {
+      setProgress(null);
+      progressLastEventIdRef.current = null;
+      setTraceSessionId(targetSessionId);
+    }
+
+    const clearHintTimer = () => {
+      if (progressHintTimerRef.current != null) window.clearTimeout(progressHintTimerRef.current);
+      progressHintTimerRef.current = null;
+    };
+    progressHintTimerRef.current = window.setTimeout(() => {
+      setProgressHint("Progress stream unavailable.");
+    }, 1200);
+
+    progressRef.current = subscribeToGenerationProgress(targetSessionId, {
+      onReady: clearHintTimer,
+      onEvent: (ev) => {
+        clearHintTimer();
+        setProgress((prev) => reduceGenerationProgress(prev, ev));
+        if (!followCompletion) return;
+        if (ev.type === "generation_completed" || ev.type === "generation_complete") {
+          router.push(`/activity/${ev.activityId}/review`);
+        } else if (ev.type === "generation_failed") {
+          setLoading(false);
+          setGenerationLocked(false);
+          setMessages((prev) => [
+            ...prev,
+            { role: "assistant", tone: "hint", content: `Failed to generate activity: ${ev.error}` },
+          ]);
+        }
+      },
+      onStatusChange: (status) => {
+        if (status === "reconnecting") setProgressHint("Reconnecting to progress stream…");
+        if (status === "open") setProgressHint(null);
+      },
+      onGiveUp: () => {
+        clearHintTimer();
+        setProgressHint("Progress stream disconnected.");
+        if (!followCompletion) return;
+        setLoading(false);
+        setMessages((prev) => [
+          ...prev,
+          {
+            role: "assistant",
+            tone: "hint",
+            content: "Lost connection to the generation progress. Reload the page to check on it again.",
+          },
+        ]);
+      },
+    }, { lastEventId: resume ? progressLastEventIdRef.current : null });
   }
 
-  async function startNewSession(mode: LearningMode) {
+  /** With `forkFrom`, the new session starts from that session's or activity's spec. */
+  async function startNewSession(mode: LearningMode, forkFrom?: SessionForkSource) {
     try {
       cleanupStreams();
       setLearningMode(mode);
       setSessionId(null);
       setSpecReady(false);
+      setSpecSnapshot({});
+      setLastQuestionKey(null);
+      setSpecAssumptions([]);
+      setPresetRun(null);
+      setRewind(null);
+      setEditingAnswer(null);
       setProgress(null);
       setProgressHint(null);
+      setTraceSessionId(null);
+      setTopicEdit(null);
       setGenerationLocked(false);
       setMessages([]);
       setChatInput("");
       setHasInteracted(false);
 
-      const token = localStorage.getItem("codem-token");
-      const headers: Record<string, string> = { "Content-Type": "application/json" };
-      if (token) headers.Authorization = `Bearer ${token}`;
-
-      const res = await fetch(`${BACKEND_URL}/sessions`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify({ learning_mode: mode }),
-      });
-      const data = await res.json();
-
-      if (typeof data?.sessionId === "string") {
-        setSessionId(data.sessionId);
-        localStorage.setItem("codem-last-session-id", data.sessionId);
-        localStorage.setItem("codem-last-learning-mode", mode);
-      }
-
-      if (typeof data?.nextQuestion === "string" && data.nextQuestion.trim()) {
+      const data = await createSession(mode, { forkFrom });
+      setSessionId(data.sessionId);
+      localStorage.setItem("codem-last-session-id", data.sessionId);
+      localStorage.setItem("codem-last-learning-mode", mode);
+      setSpecSnapshot(data.spec ?? {});
+      setLastQuestionKey(data.questionKey);
+      setSpecAssumptions(data.assumptions ?? []);
+      setSpecReady(data.questionKey === "ready");
+
+      const source = forkFrom && ("activityId" in forkFrom ? "that activity" : "that session");
+      // A backend without `fork_from` ignores it and starts an empty spec.
+      const forked = Object.keys(data.spec ?? {}).length > 0;
+      const intro: ChatMessage[] = !source
+        ? []
+        : forked
+          ? [
+              {
+                role: "assistant",
+                tone: "info",
+                content: `Started from the spec of ${source}. Click a field in the spec panel to change it, or answer below.`,
+              },
+            ]
+          : [
+              {
+                role: "assistant",
+                tone: "hint",
+                content: `Could not start from the spec of ${source}: the backend did not copy it (it may not support forking yet). This is a new, empty session.`,
+              },
+            ];
+      setMessages(intro);
+      setHasInteracted(intro.length > 0);
+      if (data.nextQuestion?.trim()) {
         setMessages([
+          ...intro,
           {
             role: "assistant",
             tone: "question",
             content: data.nextQuestion,
-            summary: typeof data.assistant_summary === "string" ? data.assistant_summary : undefined,
-            assumptions: Array.isArray(data.assumptions) ? data.assumptions : undefined,
+            summary: data.assistant_summary,
+            assumptions: data.assumptions,
           },
         ]);
       }
     } catch (e) {
       console.error("Failed to create session:", e);
+      if (forkFrom) {
+        const reason = getErrorMessage(e, "the request failed");
+        await startNewSession(mode);
+        setHasInteracted(true);
+        setMessages((prev) => [
+          {
+            role: "assistant",
+            tone: "hint",
+            content: `Could not start from the spec of ${"activityId" in forkFrom ? "that activity" : "that session"}: ${reason}. This is a new, empty session.`,
+          },
+          ...prev,
+        ]);
+      }
     }
   }
 
@@ -181,44 +312,43 @@ export default function Home() {
       cleanupStreams();
       setSessionId(null);
       setSpecReady(false);
+      setSpecSnapshot({});
+      setLastQuestionKey(null);
+      setSpecAssumptions([]);
+      setPresetRun(null);
+      setRewind(null);
+      setEditingAnswer(null);
       setProgress(null);
       setProgressHint(null);
+      setTraceSessionId(null);
+      setTopicEdit(null);
       setGenerationLocked(false);
       setMessages([]);
       setChatInput("");
       setHasInteracted(false);
 
-      const token = localStorage.getItem("codem-token");
-      const headers: Record<string, string> = {};
-      if (token) headers.Authorization = `Bearer ${token}`;
-
-      const res = await fetch(`${BACKEND_URL}/sessions/${existingSessionId}`, { headers });
-      if (!res.ok) {
-        throw new Error(`Failed to load session (${res.status})`);
-      }
-      const data = await res.json();
+      const data = await getSession(existingSessionId);
 
-      const mode: LearningMode = data?.learning_mode === "guided" ? "guided" : "practice";
+      const mode = data.learning_mode;
       setLearningMode(mode);
       setSessionId(existingSessionId);
       localStorage.setItem("codem-last-session-id", existingSessionId);
       localStorage.setItem("codem-last-learning-mode", mode);
 
-      const state = String(data?.state ?? "");
+      const state = data.state;
       setSpecReady(state === "READY" || state === "GENERATING" || state === "SAVED");
       setGenerationLocked(state === "GENERATING");
+      setSpecSnapshot(data.spec ?? {});
+
+      const loaded: ChatMessage[] = data.messages.map((m) => ({ role: m.role, content: m.content }));
+      setMessages(loaded);
+      setHasInteracted(loaded.length > 0);
 
-      if (Array.isArray(data?.messages)) {
-        const loaded: ChatMessage[] = data.messages
-          .map((m: any) => {
-            const role = m?.role === "assistant" ? "assistant" : "user";
-            const content = typeof m?.content === "string" ? m.content : "";
-            if (!content.trim()) return null;
-            return { role, content } satisfies ChatMessage;
-          })
-          .filter(Boolean) as ChatMessage[];
-        setMessages(loaded);
-        setHasInteracted(loaded.length > 0);
+      if (state === "GENERATING") {
+        // Generation continues server-side after a reload; pick the progress stream back up.
+        setLoading(true);
+        setMessages([...loaded, { role: "assistant", tone: "info", content: GENERATING_MESSAGE }]);
+        attachProgressStream(existingSessionId, { followCompletion: true });
       }
     } catch (e) {
       console.error("Failed to load session:", e);
@@ -228,41 +358,6 @@ export default function Home() {
     }
   }
 
-  async function fetchSessionHistory(limit: number = 30) {
-    const token = localStorage.getItem("codem-token");
-    if (!token) {
-      setSessionHistory([]);
-      return;
-    }
-
-    setHistoryLoading(true);
-    setHistoryError(null);
-    try {
-      const res = await fetch(`${BACKEND_URL}/sessions?limit=${encodeURIComponent(String(limit))}`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-
-      if (res.status === 401 || res.status === 403) {
-        localStorage.removeItem("codem-token");
-        localStorage.removeItem("codem-user");
-        setUser(null);
-        setSessionHistory([]);
-        return;
-      }
-
-      const data = await res.json();
-      if (!res.ok) {
-        throw new Error(data?.error || "Failed to load chat history");
-      }
-
-      setSessionHistory(Array.isArray(data?.sessions) ? data.sessions : []);
-    } catch (e: any) {
-      setHistoryError(e?.message ?? "Failed to load chat history");
-    } finally {
-      setHistoryLoading(false);
-    }
-  }
-
   useEffect(() => {
     const stored = localStorage.getItem("codem-theme");
     if (stored === "dark") {
@@ -270,18 +365,20 @@ export default function Home() {
     }
 
     // Check if user is logged in
-    const token = localStorage.getItem("codem-token");
-    const storedUser = localStorage.getItem("codem-user");
-    if (token && storedUser) {
-      setUser(JSON.parse(storedUser));
+    const storedUser = getStoredUser();
+    if (storedUser) {
+      setUser(storedUser);
     }
 
     const storedMode = localStorage.getItem("codem-last-learning-mode");
     const initialMode: LearningMode = storedMode === "guided" ? "guided" : "practice";
     setLearningMode(initialMode);
 
+    const forkRequest = takeForkRequestFromUrl();
     const storedSessionId = localStorage.getItem("codem-last-session-id");
-    if (storedSessionId) {
+    if (forkRequest) {
+      void startNewSession(initialMode, forkRequest);
+    } else if (storedSessionId) {
       void loadSession(storedSessionId);
     } else {
       void startNewSession(initialMode);
@@ -294,6 +391,13 @@ export default function Home() {
     };
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+    listSpecPresets()
+      .then(setUserPresets)
+      .catch((e) => console.error("Failed to load presets:", e));
+  }, [user]);
+
   useEffect(() => {
     if (typeof window === "undefined") return;
     if (!historyOpen) return;
@@ -338,57 +442,60 @@ export default function Home() {
     return 0;
   }
 
-  async function handleChatSend() {
-    if (!sessionId) return;
-
-    const rawInput = chatInput.trim();
-    if (!rawInput) return;
-
-    const normalized = normalizeInput(rawInput);
-    if (!normalized.ok) return;
-    const userMessage = rawInput;
-
+  /**
+   * Posts one spec answer and appends the exchange to the chat. Resolves with the interpreted
+   * response plus the backend's own error text, or null when the request itself failed.
+   */
+  async function sendSpecAnswer(
+    userMessage: string,
+    value: string,
+    slot?: SpecSlot["key"],
+  ): Promise<{ interpreted: SpecInteractionResult; error?: string } | null> {
+    if (!sessionId) return null;
     setHasInteracted(true);
-    setMessages((prev) => [...prev, { role: "user", content: userMessage }]);
-    setChatInput("");
-    setChatLoading(true);
+    setMessages((prev) => [...prev, { role: "user", content: userMessage, slot }]);
 
     try {
-      const token = localStorage.getItem("codem-token");
-      const headers: Record<string, string> = { "Content-Type": "application/json" };
-      if (token) headers.Authorization = `Bearer ${token}`;
+      const data = await postSessionMessage(sessionId, value);
 
-      const res = await fetch(`${BACKEND_URL}/sessions/${sessionId}/messages`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify({ message: normalized.value }),
-      });
-      const data = await res.json();
-
-      interpretResponse(data);
+      const interpreted = interpretResponse(data);
+      if (slot && interpreted.kind === "accepted") {
+        setMessages((prev) => supersedeEarlierAnswers(prev, slot));
+      }
 
-      setSpecReady(data.done === true);
+      setSpecReady(data.done);
+      if (data.spec) setSpecSnapshot(data.spec);
+      setLastQuestionKey(data.questionKey ?? null);
+      if (data.assumptions) setSpecAssumptions(data.assumptions);
 
-      if (typeof data.nextQuestion === "string" && data.nextQuestion.trim()) {
+      if (data.nextQuestion?.trim()) {
         const assistantTone: ChatMessage["tone"] = data.accepted ? "question" : "hint";
         const assistantContent =
           data.accepted
             ? data.nextQuestion
             : [data.error, data.nextQuestion].filter(Boolean).join("\n\n");
-        const summary = typeof (data as any).assistant_summary === "string" ? (data as any).assistant_summary : undefined;
-        const assumptions = Array.isArray((data as any).assumptions) ? (data as any).assumptions : undefined;
 
         setMessages((prev) => [
           ...prev,
-          { role: "assistant", tone: assistantTone, content: assistantContent, summary, assumptions },
+          {
+            role: "assistant",
+            tone: assistantTone,
+            content: assistantContent,
+            summary: data.assistant_summary,
+            assumptions: data.assumptions,
+          },
         ]);
       } else {
-        const fallback = formatSlotPrompt(activeSlot) ?? "Please continue.";
+        // From this response, not `activeSlot`: the latter is stale inside multi-answer loops.
+        const fallback =
+          formatSlotPrompt(interpreted.kind === "accepted" ? interpreted.nextSlot : interpreted.slot) ??
+          "Please continue.";
         setMessages((prev) => [
           ...prev,
           { role: "assistant", tone: "question", content: fallback },
         ]);
       }
+      return { interpreted, error: data.error };
     } catch (e) {
       console.error(e);
       setMessages((prev) => [
@@ -400,14 +507,181 @@ export default function Home() {
             "Sorry, something went wrong processing your answer. Please try again in the expected format.",
         },
       ]);
+      return null;
+    }
+  }
+
+  async function handleChatSend() {
+    if (!sessionId || !chatInput.trim()) return;
+    const asTyped = sendAsTyped;
+    setChatInput("");
+    setSendAsTyped(false);
+    await sendChatAnswer(chatInput, asTyped);
+  }
+
+  // Sends a chat answer for the current (or rewound) slot; also used by the inline slot widgets.
+  async function sendChatAnswer(text: string, asTyped: boolean) {
+    if (!sessionId) return;
+
+    const rawInput = text.trim();
+    if (!rawInput) return;
+
+    const normalized = normalizeInput(rawInput);
+    if (!normalized.ok) return;
+
+    const value = asTyped ? rawInput : normalized.value;
+    const slot = rewind?.slot ?? (specReady ? undefined : normalized.slot.key);
+    setRewind(null);
+    setChatLoading(true);
+    try {
+      const outcome = await sendSpecAnswer(
+        rawInput,
+        rewind ? buildSpecRevisionMessage(rewind.slot, value, false) : value,
+        slot,
+      );
+      // The backend kept the old answer, so it is no longer undone.
+      if (rewind && outcome?.interpreted.kind !== "accepted") {
+        setMessages((prev) => prev.map((m, i) => (i === rewind.index ? { ...m, superseded: undefined } : m)));
+      }
+    } finally {
+      setChatLoading(false);
+    }
+  }
+
+  // Whether `key` is the slot the backend is asking about right now (not one rewound to).
+  const isAskedNow = (key: SpecSlot["key"]) => !specReady && rewind == null && activeSlot.key === key;
+
+  async function handleSpecRevision(key: SpecFieldKey, value: string) {
+    const message = buildSpecRevisionMessage(key, value, isAskedNow(key));
+    setChatLoading(true);
+    try {
+      await sendSpecAnswer(message, message, key);
+    } finally {
+      setChatLoading(false);
+    }
+  }
+
+  async function handleAnswerEdit(slot: SpecSlot["key"], value: string) {
+    setEditingAnswer(null);
+    const { normalized } = normalizeUserInput(value, slot);
+    setChatLoading(true);
+    try {
+      await sendSpecAnswer(value, buildSpecRevisionMessage(slot, normalized, isAskedNow(slot)), slot);
     } finally {
       setChatLoading(false);
     }
   }
 
+  function handleAnswerUndo(index: number, slot: SpecSlot["key"]) {
+    setMessages((prev) =>
+      prev.map((m, i) =>
+        i === index ? { ...m, superseded: "undone" } : i === rewind?.index ? { ...m, superseded: undefined } : m,
+      ),
+    );
+    setRewind({ slot, previousSlot: rewind?.previousSlot ?? activeSlot.key, index });
+    rewindToSlot(slot);
+    setSpecInputMode("chat");
+  }
+
+  function cancelRewind() {
+    if (!rewind) return;
+    const { index, previousSlot } = rewind;
+    setMessages((prev) => prev.map((m, i) => (i === index ? { ...m, superseded: undefined } : m)));
+    rewindToSlot(previousSlot);
+    setRewind(null);
+  }
+
+  // Answers whichever slot the backend asks for next from `values`, until the spec is done or
+  // an answer is rejected. A slot asked for twice means the backend wants a different answer.
+  async function answerSpecSlots(
+    values: SpecFormValues,
+    onSlot?: (slot: SpecSlot["key"], status: "sending" | "accepted") => void,
+  ): Promise<{ errors: SpecFormErrors; done: boolean }> {
+    const errors: SpecFormErrors = {};
+    const answered = new Set<SpecSlot["key"]>();
+    let slot: SpecSlot | null = activeSlot;
+    let done = false;
+    setChatLoading(true);
+    try {
+      while (slot) {
+        if (answered.has(slot.key)) {
+          errors[slot.key] = "This answer needs another look; see the assistant's question in the chat.";
+          break;
+        }
+        answered.add(slot.key);
+        onSlot?.(slot.key, "sending");
+        const answer = formatSpecFormAnswer(slot.key, values);
+        const outcome = await sendSpecAnswer(answer, answer, slot.key);
+        if (!outcome) {
+          errors[slot.key] = "Could not send this answer. Please try again.";
+          break;
+        }
+        const { interpreted } = outcome;
+        if (interpreted.kind === "rejected") {
+          errors[interpreted.slot?.key ?? slot.key] = [outcome.error, interpreted.friendly].filter(Boolean).join(" ");
+          break;
+        }
+        onSlot?.(slot.key, "accepted");
+        if (interpreted.done) {
+          done = true;
+          break;
+        }
+        slot = interpreted.nextSlot;
+      }
+    } finally {
+      setChatLoading(false);
+    }
+    return { errors, done };
+  }
+
+  async function handleSpecFormSubmit(values: SpecFormValues): Promise<SpecFormErrors> {
+    if (!sessionId) return {};
+    return (await answerSpecSlots(values)).errors;
+  }
+
+  async function handleApplyPreset(name: string, values: SpecFormValues) {
+    if (!sessionId) return;
+    setPresetRun({ name, accepted: [], current: null, done: false, error: null });
+    const { errors, done } = await answerSpecSlots(values, (key, status) =>
+      setPresetRun((prev) =>
+        prev && (status === "sending" ? { ...prev, current: key } : { ...prev, current: null, accepted: [...prev.accepted, key] }),
+      ),
+    );
+    const error = Object.values(errors)[0] ?? null;
+    setPresetRun((prev) => prev && { ...prev, current: null, done, error });
+  }
+
+  // Resolves with an error message for the sidebar, or null once the preset is saved.
+  async function handleSavePreset(name: string): Promise<string | null> {
+    const values = specToFormValues(specSnapshot);
+    if (!values) return "The spec is incomplete.";
+    try {
+      const preset = await createSpecPreset(name, formValuesToSpec(values));
+      setUserPresets((prev) => [preset, ...prev]);
+      return null;
+    } catch (e) {
+      console.error("Failed to save preset:", e);
+      if (e instanceof ApiError && e.isNotFound) return "This backend does not support saving presets yet.";
+      return getErrorMessage(e, "Failed to save preset");
+    }
+  }
+
+  async function handleDeletePreset(presetId: string) {
+    try {
+      await deleteSpecPreset(presetId);
+      setUserPresets((prev) => prev.filter((p) => p.id !== presetId));
+    } catch (e) {
+      console.error("Failed to delete preset:", e);
+      const message =
+        e instanceof ApiError && e.isNotFound
+          ? "This backend does not support presets yet."
+          : getErrorMessage(e, "Failed to delete preset");
+      setMessages((prev) => [...prev, { role: "assistant", tone: "hint", content: message }]);
+    }
+  }
+
   async function handleGenerate() {
-    const token = localStorage.getItem("codem-token");
-    if (!token) {
+    if (!getAuthToken()) {
       router.push("/auth/login");
       return;
     }
@@ -424,307 +698,93 @@ export default function Home() {
         {
           role: "assistant",
           tone: "info",
-          content: "Generating activity... please wait.",
+          content: GENERATING_MESSAGE,
         },
       ]);
 
       // Open structured progress stream (no prompts, no reasoning, no logs).
-      setProgress(null);
-      setProgressHint(null);
-      try {
-        progressRef.current?.close();
-      } catch {
-        // ignore
-      }
-
-      const es = new EventSource(`${BACKEND_URL}/sessions/${sessionId}/generate/stream`);
-      progressRef.current = es;
-
-      const hintTimer = window.setTimeout(() => {
-        setProgressHint("Progress stream unavailable.");
-      }, 1200);
-
-      es.onmessage = (msg) => {
-        try {
-          const payload = JSON.parse(msg.data) as any;
-          if (payload?.event === "progress.ready") {
-            window.clearTimeout(hintTimer);
-            return;
-          }
-
-          const ev = payload as GenerationProgressEvent;
-          if (!ev || typeof ev.type !== "string") return;
-          window.clearTimeout(hintTimer);
-
-          setProgress((prev) => {
-            if (ev.type === "generation_started") {
-              const total = Math.max(1, ev.totalSlots ?? ev.totalProblems ?? 1);
-              const slots: SlotProgress[] = Array.from({ length: total }, () => ({
-                stage: "queued",
-                attempt: 0,
-                difficulty: null,
-                topic: null,
-                language: null,
-                stageDone: { llm: false, contract: false, docker: false },
-                lastFailure: null,
-              }));
-              return { totalSlots: total, run: ev.run ?? 1, slots, error: null, lastHeartbeatTs: null };
-            }
-
-            if (!prev) return prev;
-
-            const next: GenerationProgressState = {
-              ...prev,
-              slots: prev.slots.map((p) => ({
-                ...p,
-                stageDone: { ...p.stageDone },
-                lastFailure: p.lastFailure ? { ...p.lastFailure } : null,
-              })),
-            };
-
-            if (ev.type === "heartbeat") {
-              next.lastHeartbeatTs = ev.ts;
-              return next;
-            }
-
-            const getSlot = (slotIndex: number) => next.slots[slotIndex];
-
-            if (ev.type === "slot_started") {
-              const p = getSlot(ev.slotIndex);
-              if (p) {
-                p.difficulty = ev.difficulty;
-                p.topic = ev.topic;
-                p.language = ev.language;
-                if (p.stage === "queued") p.stage = "llm";
-              }
-              return next;
-            }
+      attachProgressStream(sessionId, { followCompletion: false });
 
-            if (ev.type === "slot_llm_attempt_started") {
-              const p = getSlot(ev.slotIndex);
-              if (p) {
-                p.stage = "llm";
-                p.attempt = ev.attempt;
-                p.stageDone = { llm: false, contract: false, docker: false };
-                p.lastFailure = null;
-              }
-              return next;
-            }
-
-            if (ev.type === "slot_contract_validated") {
-              const p = getSlot(ev.slotIndex);
-              if (p) {
-                p.stage = "docker";
-                p.attempt = ev.attempt;
-                p.stageDone.llm = true;
-                p.stageDone.contract = true;
-                p.lastFailure = null;
-              }
-              return next;
-            }
-
-            if (ev.type === "slot_contract_failed") {
-              const p = getSlot(ev.slotIndex);
-              if (p) {
-                p.stage = "contract";
-                p.attempt = ev.attempt;
-                p.lastFailure = { stage: "contract", message: ev.shortError };
-              }
-              return next;
-            }
-
-            if (ev.type === "slot_docker_validation_started") {
-              const p = getSlot(ev.slotIndex);
-              if (p) {
-                p.stage = "docker";
-                p.attempt = ev.attempt;
-                p.stageDone.llm = true;
-                p.stageDone.contract = true;
-                p.lastFailure = null;
-              }
-              return next;
-            }
-
-            if (ev.type === "slot_docker_validation_failed") {
-              const p = getSlot(ev.slotIndex);
-              if (p) {
-                p.stage = "docker";
-                p.attempt = ev.attempt;
-                p.lastFailure = { stage: "docker", message: ev.shortError };
-              }
-              return next;
-            }
-
-            if (ev.type === "slot_completed") {
-              const p = getSlot(ev.slotIndex);
-              if (p) {
-                p.stage = "done";
-                p.stageDone = { llm: true, contract: true, docker: true };
-                p.lastFailure = null;
-              }
-              return next;
-            }
-
-            if (ev.type === "problem_started") {
-              const p = getSlot(ev.index);
-              if (p) {
-                p.difficulty = ev.difficulty;
-                p.stage = "llm";
-                p.attempt = 0;
-                p.stageDone = { llm: false, contract: false, docker: false };
-                p.lastFailure = null;
-              }
-              return next;
-            }
-
-            if (ev.type === "attempt_started") {
-              const p = getSlot(ev.index);
-              if (p) {
-                p.stage = "llm";
-                p.attempt = ev.attempt;
-                p.stageDone = { llm: false, contract: false, docker: false };
-                p.lastFailure = null;
-              }
-              return next;
-            }
-
-            if (ev.type === "validation_started") {
-              const p = getSlot(ev.index);
-              if (p) {
-                p.stage = "docker";
-                p.attempt = ev.attempt;
-                p.stageDone.llm = true;
-                p.stageDone.contract = true;
-                p.lastFailure = null;
-              }
-              return next;
-            }
-
-            if (ev.type === "validation_failed") {
-              const p = getSlot(ev.index);
-              if (p) {
-                p.stage = "docker";
-                p.attempt = ev.attempt;
-                p.lastFailure = { stage: "docker", message: "Docker validation failed." };
-              }
-              return next;
-            }
-
-            if (ev.type === "attempt_failed") {
-              const p = getSlot(ev.index);
-              if (p) {
-                p.attempt = ev.attempt;
-                p.lastFailure =
-                  ev.phase === "validate"
-                    ? { stage: "docker", message: "Docker validation failed." }
-                    : { stage: "contract", message: "Contract validation failed." };
-              }
-              return next;
-            }
-
-            if (ev.type === "problem_validated") {
-              const p = getSlot(ev.index);
-              if (p) {
-                p.stage = "done";
-                p.stageDone = { llm: true, contract: true, docker: true };
-                p.lastFailure = null;
-              }
-              return next;
-            }
-
-            if (ev.type === "problem_failed") {
-              const p = getSlot(ev.index);
-              if (p) p.stage = "failed";
-              return next;
-            }
-
-            if (ev.type === "generation_failed") {
-              next.error = ev.error || "Generation failed.";
-              if (typeof ev.slotIndex === "number") {
-                const p = getSlot(ev.slotIndex);
-                if (p && p.stage !== "done") p.stage = "failed";
-              } else {
-                for (const p of next.slots) {
-                  if (p.stage !== "done") p.stage = "failed";
-                }
-              }
-              return next;
-            }
-
-            return next;
-          });
-        } catch {
-          // ignore parse errors
-        }
-      };
-
-      es.onerror = () => {
-        window.clearTimeout(hintTimer);
-        setProgressHint((prev) => prev ?? "Progress stream disconnected.");
-        try {
-          es.close();
-        } catch {
-          // ignore
-        }
-      };
-
-      const res = await fetch(`${BACKEND_URL}/sessions/${sessionId}/generate`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
+      const data = await generateActivity(sessionId);
+      cleanupStreams();
+      router.push(`/activity/${data.activityId}/review`);
+    } catch (e) {
+      console.error(e);
+      const content =
+        e instanceof ApiError && e.status > 0
+          ? `Failed to generate activity: ${e.message} ${e.detail ?? ""}`
+          : "Failed to generate activity. Please try again.";
+      setMessages((prev) => [
+        ...prev,
+        {
+          role: "assistant",
+          tone: "hint",
+          content,
         },
-      });
-
-      const data = await res.json();
+      ]);
+    } finally {
+      cleanupStreams();
+      setLoading(false);
+    }
+  }
+  async function handleRetrySlot(slotIndex: number, topic?: string) {
+    if (!sessionId || loading) return;
+    if (!getAuthToken()) {
+      router.push("/auth/login");
+      return;
+    }
 
-      if (typeof data.activityId === "string") {
-        try {
-          progressRef.current?.close();
-        } catch {
-          // ignore
-        }
-        router.push(`/activity/${data.activityId}/review`);
-      } else if (data?.error) {
-        setMessages((prev) => [
-          ...prev,
-          {
-            role: "assistant",
-            tone: "hint",
-            content: `Failed to generate activity: ${data.error} ${data.detail ?? ""}`,
-          },
-        ]);
-      }
+    setTopicEdit(null);
+    setLoading(true);
+    setProgress((prev) => reduceGenerationProgress(prev, { type: "slot_retry_queued", slotIndex, topic }));
+    try {
+      attachProgressStream(sessionId, { followCompletion: false, resume: true });
+      const data = await retryGenerationSlot(sessionId, slotIndex, { topic });
+      cleanupStreams();
+      router.push(`/activity/${data.activityId}/review`);
     } catch (e) {
       console.error(e);
+      const message =
+        e instanceof ApiError && e.isNotFound
+          ? "This backend does not support retrying a single problem yet. Generate the activity again instead."
+          : getErrorMessage(e, "Failed to retry problem");
+      // The slot was optimistically queued; put it back so its retry actions show again.
+      setProgress((prev) => reduceGenerationProgress(prev, { type: "generation_failed", error: message, slotIndex }));
       setMessages((prev) => [
         ...prev,
         {
           role: "assistant",
           tone: "hint",
-          content: "Failed to generate activity. Please try again.",
+          content: `Problem ${slotIndex + 1}: ${message}`,
         },
       ]);
     } finally {
-      try {
-        progressRef.current?.close();
-      } catch {
-        // ignore
-      }
+      cleanupStreams();
       setLoading(false);
     }
   }
 
+
   const isBusy = chatLoading || loading;
+  // Failed slots keep the progress panel on screen (with retry actions) after the run ends.
+  const canRetrySlots = !loading && !!progress?.slots.some((p) => p.stage === "failed");
+  const progressMessageIdx = messages.findLastIndex(
+    (m) => m.role === "assistant" && m.tone === "info" && m.content.trim() === GENERATING_MESSAGE,
+  );
   const isPromptExpanded = hasInteracted || chatInput.trim().length > 0;
-  const displayName =
-    (typeof user?.displayName === "string" && user.displayName.trim()
-      ? user.displayName
-      : typeof user?.display_name === "string" && user.display_name.trim()
-        ? user.display_name
-        : typeof user?.username === "string" && user.username.trim()
-          ? user.username
-          : "Gaille") as string;
+  // A ready spec takes no more chat answers, except to re-answer an undone one.
+  const chatLocked = specReady && rewind == null;
+  // The slot the chat answer goes to: a rewound one, or the one the backend is asking about.
+  const answeringSlot = rewind ? rewind.slot : specReady ? null : activeSlot.key;
+  // The editor keeps the plan's total equal to the accepted problem count, so it waits for one.
+  const difficultyPlanOpen =
+    sessionId != null && answeringSlot === "difficulty_plan" && specSnapshot.problem_count != null;
+  const inputPreview = chatInput.trim() && !chatLocked ? normalizeInput(chatInput) : null;
+  const interpretation = inputPreview?.ok && inputPreview.value !== chatInput.trim() ? inputPreview : null;
+  const showSpecSidebar = isPromptExpanded && sessionId != null;
+  const showPresets =
+    sessionId != null && (presetRun != null || (!specReady && !generationLocked && !messages.some((m) => m.role === "user")));
+  const displayName = user?.displayName.trim() || user?.username.trim() || "Gaille";
 
   return (
     <div
@@ -841,9 +901,7 @@ export default function Home() {
               <button
                 type="button"
                 onClick={() => {
-                  const next = !historyOpen;
-                  setHistoryOpen(next);
-                  if (next) void fetchSessionHistory();
+                  setHistoryOpen(!historyOpen);
                 }}
                 className={`inline-flex items-center gap-2 rounded-full px-4 py-2 text-sm font-medium transition ${
                   darkMode
@@ -910,8 +968,10 @@ export default function Home() {
           )}
 
           <section
-            className={`relative w-full max-w-4xl mx-auto text-left transition-all duration-300 ${
+            className={`relative w-full mx-auto text-left transition-all duration-300 ${
               isPromptExpanded ? "mt-2 sm:mt-4 -translate-y-2 sm:-translate-y-3" : "mt-10 translate-y-0"
+            } ${
+              showSpecSidebar ? "max-w-6xl space-y-4 lg:grid lg:grid-cols-[minmax(0,1fr)_17rem] lg:gap-4 lg:space-y-0" : "max-w-4xl"
             }`}
           >
             <div
@@ -937,9 +997,9 @@ export default function Home() {
                 {messages.map((m, idx) => (
                   <div key={idx} className={`flex ${m.role === "user" ? "justify-end" : "justify-start"}`}>
                     <div
-                      className={`max-w-[80%] rounded-2xl px-4 py-3 text-sm leading-relaxed whitespace-pre-line ${
+                      className={`max-w-[80%] rounded-2xl px-4 py-3 text-sm leading-relaxed ${
                         m.role === "user"
-                          ? "bg-slate-900 text-white shadow-sm dark:bg-slate-800"
+                          ? `bg-slate-900 text-white shadow-sm dark:bg-slate-800 ${m.superseded ? "opacity-50" : ""}`
                           : m.tone === "question"
                             ? darkMode
                               ? "border border-slate-800 bg-slate-900/70 text-slate-100"
@@ -962,7 +1022,64 @@ export default function Home() {
                           {m.tone === "question" ? "Next step" : m.tone === "hint" ? "Tutor hint" : "Note"}
                         </div>
                       )}
-                      {m.content}
+                      {m.role === "user" && editingAnswer?.index === idx && m.slot ? (
+                        <form
+                          className="space-y-2"
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            if (editingAnswer.value.trim()) void handleAnswerEdit(m.slot!, editingAnswer.value.trim());
+                          }}
+                        >
+                          <textarea
+                            autoFocus
+                            rows={2}
+                            value={editingAnswer.value}
+                            onChange={(e) => setEditingAnswer({ index: idx, value: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === "Escape") setEditingAnswer(null);
+                            }}
+                            aria-label="Edit answer"
+                            className="w-full resize-none rounded-lg bg-slate-800 px-2 py-1 text-sm text-white outline-none ring-1 ring-slate-600 dark:bg-slate-900"
+                          />
+                          <div className="flex justify-end gap-2 text-[11px] font-semibold">
+                            <button type="button" onClick={() => setEditingAnswer(null)} className="opacity-70 hover:opacity-100">
+                              Cancel
+                            </button>
+                            <button type="submit" disabled={!editingAnswer.value.trim()} className="text-sky-300 disabled:opacity-50">
+                              Resubmit
+                            </button>
+                          </div>
+                        </form>
+                      ) : m.role === "user" ? (
+                        <>
+                          <div className={`whitespace-pre-line ${m.superseded ? "line-through" : ""}`}>{m.content}</div>
+                          {m.superseded && (
+                            <div className="mt-1 text-[10px] font-semibold uppercase tracking-wide opacity-80">
+                              {m.superseded === "undone" ? "Undone" : "Changed later"}
+                            </div>
+                          )}
+                          {m.slot && !m.superseded && !isBusy && !generationLocked && (
+                            <div className="mt-1 flex justify-end gap-3 text-[11px] font-semibold opacity-70">
+                              <button
+                                type="button"
+                                onClick={() => setEditingAnswer({ index: idx, value: m.content })}
+                                className="hover:opacity-100 hover:underline"
+                              >
+                                Edit
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleAnswerUndo(idx, m.slot!)}
+                                className="hover:opacity-100 hover:underline"
+                              >
+                                Undo
+                              </button>
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <Markdown>{m.content}</Markdown>
+                      )}
                       {m.role === "assistant" && m.summary && (
                         <div
                           className={`mt-2 rounded-lg px-3 py-2 text-[11px] whitespace-pre-line ${
@@ -979,10 +1096,7 @@ export default function Home() {
                           )}
                         </div>
                       )}
-                      {loading &&
-                        m.role === "assistant" &&
-                        m.tone === "info" &&
-                        m.content.trim() === "Generating activity... please wait." && (
+                      {(loading || canRetrySlots) && idx === progressMessageIdx && (
                           <div className="mt-3 space-y-2">
                             {progressHint && (
                               <div
@@ -1049,8 +1163,63 @@ export default function Home() {
                                         <div className="flex items-center justify-between gap-3 text-[11px] opacity-80">
                                           <div className={`truncate ${active ? "animate-pulse" : ""}`}>
                                             {renderSlotStatus(p)}
+                                            {p.stage === "failed" && p.lastFailure ? ` – ${p.lastFailure.message}` : ""}
                                           </div>
+                                          {p.stage === "failed" && !loading && (
+                                            <div className="flex shrink-0 items-center gap-2">
+                                              <button
+                                                type="button"
+                                                onClick={() => void handleRetrySlot(i)}
+                                                className="font-medium text-blue-500 hover:underline"
+                                              >
+                                                Retry
+                                              </button>
+                                              <button
+                                                type="button"
+                                                onClick={() => setTopicEdit({ slotIndex: i, topic: p.topic ?? "" })}
+                                                className="font-medium text-blue-500 hover:underline"
+                                              >
+                                                New topic
+                                              </button>
+                                            </div>
+                                          )}
                                         </div>
+                                        {topicEdit?.slotIndex === i && !loading && (
+                                          <form
+                                            className="flex items-center gap-2"
+                                            onSubmit={(e) => {
+                                              e.preventDefault();
+                                              if (!topicEdit.topic.trim()) return;
+                                              void handleRetrySlot(i, topicEdit.topic);
+                                            }}
+                                          >
+                                            <input
+                                              autoFocus
+                                              value={topicEdit.topic}
+                                              onChange={(e) => setTopicEdit({ slotIndex: i, topic: e.target.value })}
+                                              placeholder="Topic for this problem"
+                                              className={`min-w-0 flex-1 rounded-md border px-2 py-1 text-[12px] outline-none ${
+                                                darkMode
+                                                  ? "border-slate-700 bg-slate-900 text-slate-100"
+                                                  : "border-slate-300 bg-white text-slate-900"
+                                              }`}
+                                            />
+                                            <button
+                                              type="submit"
+                                              disabled={!topicEdit.topic.trim()}
+                                              className="rounded-md bg-blue-500 px-2 py-1 text-[11px] font-medium text-white disabled:opacity-50"
+                                            >
+                                              Regenerate
+                                            </button>
+                                            <button
+                                              type="button"
+                                              onClick={() => setTopicEdit(null)}
+                                              className="text-[11px] opacity-70 hover:opacity-100"
+                                            >
+                                              Cancel
+                                            </button>
+                                          </form>
+                                        )}
                                         <div
                                           className={`h-1.5 w-full overflow-hidden rounded-full ${
                                             darkMode ? "bg-slate-800" : "bg-slate-200"
@@ -1077,6 +1246,22 @@ export default function Home() {
                   </div>
                 ))}
 
+                {showPresets && (
+                  <SpecPresetGallery
+                    darkMode={darkMode}
+                    disabled={isBusy}
+                    userPresets={user ? userPresets : []}
+                    run={presetRun}
+                    onApply={(name, values) => void handleApplyPreset(name, values)}
+                    onDelete={(id) => void handleDeletePreset(id)}
+                    onDismissRun={() => setPresetRun(null)}
+                  />
+                )}
+
+                {traceSessionId && isTraceViewerEnabled() && (
+                  <GenerationTracePanel key={traceSessionId} sessionId={traceSessionId} darkMode={darkMode} />
+                )}
+
                 {chatLoading && (
                   <div className="flex justify-start">
                     <div className={`flex items-center gap-2 rounded-2xl px-4 py-3 ${darkMode ? "bg-slate-900/60" : "bg-slate-100"}`}>
@@ -1101,32 +1286,129 @@ export default function Home() {
                   darkMode ? "border-slate-800" : "border-slate-200"
                 }`}
               >
-                <textarea
-                  className={`w-full resize-none rounded-2xl border px-4 py-3 text-sm outline-none transition focus:ring-1 ${
-                    darkMode
-                      ? "border-slate-800 bg-slate-900 text-slate-100 placeholder-slate-500 focus:border-sky-400 focus:ring-sky-400"
-                      : "border-slate-200 bg-white text-slate-900 placeholder-slate-400 focus:border-sky-500 focus:ring-sky-500"
-                  }`}
-                  data-tour="chat-input"
-                  placeholder="Start solving..."
-                  rows={3}
-                  value={chatInput}
-                  onChange={(e) => {
-                    const next = e.target.value;
-                    setChatInput(next);
-                    if (next.trim().length > 0) setHasInteracted(true);
-                  }}
-                  onKeyDown={(e) => {
-                    if (e.key === "Enter" && !e.shiftKey) {
-                      e.preventDefault();
-                      if (chatInput.trim()) {
-                        setHasInteracted(true);
-                        handleChatSend();
-                      }
-                    }
-                  }}
-                  disabled={isBusy || specReady}
-                />
+                <div className="mb-3 flex justify-end">
+                  <div
+                    className={`flex items-center rounded-full border p-0.5 text-xs font-semibold ${
+                      darkMode ? "border-slate-800 bg-slate-900/60" : "border-slate-200 bg-white"
+                    }`}
+                    role="tablist"
+                    aria-label="Spec input"
+                  >
+                    {(["chat", "form"] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        role="tab"
+                        aria-selected={specInputMode === mode}
+                        onClick={() => setSpecInputMode(mode)}
+                        className={`rounded-full px-3 py-1 transition ${
+                          specInputMode === mode
+                            ? "bg-sky-600 text-white"
+                            : darkMode
+                              ? "text-slate-300 hover:bg-slate-800"
+                              : "text-slate-600 hover:bg-slate-100"
+                        }`}
+                      >
+                        {mode === "chat" ? "Chat" : "Form"}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {specInputMode === "form" ? (
+                  <SpecBuilderForm
+                    darkMode={darkMode}
+                    disabled={isBusy || specReady || !sessionId}
+                    pendingSlot={specReady ? null : activeSlot.key}
+                    onSubmit={handleSpecFormSubmit}
+                  />
+                ) : (
+                  <>
+                    {difficultyPlanOpen && specSnapshot.problem_count != null && (
+                      <DifficultyPlanEditor
+                        key={specSnapshot.problem_count}
+                        darkMode={darkMode}
+                        disabled={isBusy}
+                        problemCount={specSnapshot.problem_count}
+                        onSubmit={(answer) => {
+                          setHasInteracted(true);
+                          void sendChatAnswer(answer, false);
+                        }}
+                      />
+                    )}
+                    <textarea
+                      className={`w-full resize-none rounded-2xl border px-4 py-3 text-sm outline-none transition focus:ring-1 ${
+                        darkMode
+                          ? "border-slate-800 bg-slate-900 text-slate-100 placeholder-slate-500 focus:border-sky-400 focus:ring-sky-400"
+                          : "border-slate-200 bg-white text-slate-900 placeholder-slate-400 focus:border-sky-500 focus:ring-sky-500"
+                      }`}
+                      data-tour="chat-input"
+                      placeholder="Start solving..."
+                      rows={3}
+                      value={chatInput}
+                      onChange={(e) => {
+                        const next = e.target.value;
+                        setChatInput(next);
+                        setSendAsTyped(false);
+                        if (next.trim().length > 0) setHasInteracted(true);
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && !e.shiftKey) {
+                          e.preventDefault();
+                          if (chatInput.trim()) {
+                            setHasInteracted(true);
+                            handleChatSend();
+                          }
+                        }
+                      }}
+                      disabled={isBusy || chatLocked}
+                    />
+                  </>
+                )}
+                {specInputMode === "chat" && rewind && (
+                  <div
+                    className={`mt-2 flex flex-wrap items-center gap-2 rounded-lg px-3 py-2 text-xs ${
+                      darkMode ? "bg-sky-900/30 text-sky-100" : "bg-sky-50 text-sky-800"
+                    }`}
+                  >
+                    <span>
+                      Answering{" "}
+                      <span className="font-semibold">
+                        {SPEC_FIELDS.find((f) => f.key === rewind.slot)?.label.toLowerCase() ?? rewind.slot}
+                      </span>{" "}
+                      again. Your next message replaces the undone answer.
+                    </span>
+                    <button
+                      type="button"
+                      onClick={cancelRewind}
+                      className={`font-semibold underline-offset-2 hover:underline ${darkMode ? "text-sky-300" : "text-sky-700"}`}
+                    >
+                      Keep the old answer
+                    </button>
+                  </div>
+                )}
+                {specInputMode === "chat" && interpretation && (
+                  <div
+                    className={`mt-2 flex flex-wrap items-center gap-2 rounded-lg px-3 py-2 text-xs ${
+                      darkMode ? "bg-slate-800/60 text-slate-300" : "bg-slate-50 text-slate-600"
+                    }`}
+                    title={interpretation.notes.join("\n")}
+                  >
+                    {sendAsTyped ? (
+                      <span>Your answer will be sent exactly as typed.</span>
+                    ) : (
+                      <span>
+                        I interpreted this as <span className="font-mono font-semibold">{interpretation.value}</span>
+                        {interpretation.notes.length > 0 && <span className="opacity-70"> ({interpretation.notes.join("; ")})</span>}
+                      </span>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setSendAsTyped((prev) => !prev)}
+                      className={`font-semibold underline-offset-2 hover:underline ${darkMode ? "text-sky-300" : "text-sky-700"}`}
+                    >
+                      {sendAsTyped ? "Use interpretation" : "Undo"}
+                    </button>
+                  </div>
+                )}
 
                 <div className="mt-3 flex flex-col items-end gap-3 sm:flex-row sm:items-center sm:justify-end">
                   <div className="flex items-center gap-2">
@@ -1142,21 +1424,23 @@ export default function Home() {
                     >
                       {loading ? "Generating..." : "Generate"}
                     </button>
-                    <button
-                      onClick={handleChatSend}
-                      disabled={chatLoading || !chatInput.trim() || specReady}
-                      data-tour="send"
-                      className={`flex items-center gap-2 rounded-full px-4 py-2 text-sm font-semibold text-white shadow-sm transition ${
-                        darkMode
-                          ? "bg-sky-600 hover:bg-sky-500 disabled:bg-slate-800"
-                          : "bg-slate-900 hover:bg-black disabled:bg-slate-300"
-                      } disabled:cursor-not-allowed disabled:opacity-60`}
-                    >
-                      <svg className="h-4 w-4 rotate-90" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-                      </svg>
-                      Send
-                    </button>
+                    {specInputMode === "chat" && (
+                      <button
+                        onClick={handleChatSend}
+                        disabled={chatLoading || !chatInput.trim() || chatLocked}
+                        data-tour="send"
+                        className={`flex items-center gap-2 rounded-full px-4 py-2 text-sm font-semibold text-white shadow-sm transition ${
+                          darkMode
+                            ? "bg-sky-600 hover:bg-sky-500 disabled:bg-slate-800"
+                            : "bg-slate-900 hover:bg-black disabled:bg-slate-300"
+                        } disabled:cursor-not-allowed disabled:opacity-60`}
+                      >
+                        <svg className="h-4 w-4 rotate-90" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                        </svg>
+                        Send
+                      </button>
+                    )}
                   </div>
                 </div>
                 {specReady && (
@@ -1170,116 +1454,49 @@ export default function Home() {
                 )}
               </div>
             </div>
+            {showSpecSidebar && (
+              <div className="lg:self-start">
+                <SpecSnapshotSidebar
+                  spec={specSnapshot}
+                  questionKey={lastQuestionKey}
+                  assumptions={specAssumptions}
+                  darkMode={darkMode}
+                  disabled={isBusy || generationLocked}
+                  onRevise={handleSpecRevision}
+                  onSavePreset={user && specToFormValues(specSnapshot) ? handleSavePreset : undefined}
+                />
+              </div>
+            )}
           </section>
         </main>
 
         {user && historyOpen && (
-          <div className="fixed inset-0 z-50">
-            <div
-              className="absolute inset-0 bg-black/50"
-              onClick={() => setHistoryOpen(false)}
-              aria-hidden="true"
-            />
-            <div
-              className={`absolute right-0 top-0 h-full w-full max-w-[420px] overflow-hidden border-l shadow-2xl ${
-                darkMode ? "border-slate-800 bg-slate-950 text-slate-50" : "border-slate-200 bg-white text-slate-900"
-              }`}
-              role="dialog"
-              aria-label="Chat history"
-              aria-modal="true"
-            >
-              <div className={`flex items-center justify-between border-b px-4 py-4 ${darkMode ? "border-slate-800" : "border-slate-200"}`}>
-                <div className="flex items-center gap-2">
-                  <HistoryIcon className={`h-4 w-4 ${darkMode ? "text-slate-200" : "text-slate-700"}`} />
-                  <div className={`text-sm font-semibold ${darkMode ? "text-slate-100" : "text-slate-900"}`}>Past chats</div>
-                </div>
-                <button
-                  type="button"
-                  onClick={() => setHistoryOpen(false)}
-                  className={`rounded-full border p-2 transition ${
-                    darkMode ? "border-slate-800 bg-slate-900/60 text-slate-200 hover:bg-slate-800" : "border-slate-200 bg-white text-slate-700 hover:bg-slate-50"
-                  }`}
-                  aria-label="Close history"
-                >
-                  <X className="h-4 w-4" />
-                </button>
-              </div>
-
-              <div className="h-full overflow-y-auto px-4 py-4">
-                <button
-                  onClick={() => {
-                    setHistoryOpen(false);
-                    void startNewSession(learningMode);
-                  }}
-                  className={`w-full rounded-2xl px-4 py-3 text-left text-sm font-semibold transition ${
-                    darkMode ? "bg-slate-900 text-slate-100 hover:bg-slate-800" : "bg-slate-900 text-white hover:bg-slate-800"
-                  }`}
-                >
-                  New chat
-                </button>
-
-                {historyLoading && (
-                  <div className={`mt-4 text-xs ${darkMode ? "text-slate-400" : "text-slate-500"}`}>Loading…</div>
-                )}
-                {historyError && (
-                  <div
-                    className={`mt-4 rounded-2xl border px-4 py-3 text-xs ${
-                      darkMode ? "border-rose-900/40 bg-rose-900/20 text-rose-200" : "border-rose-200 bg-rose-50 text-rose-900"
-                    }`}
-                  >
-                    {historyError}
-                  </div>
-                )}
-
-                {!historyLoading && !historyError && (
-                  <div className="mt-4 space-y-2">
-                    {sessionHistory.length === 0 && (
-                      <div
-                        className={`rounded-2xl border px-4 py-4 text-xs ${
-                          darkMode ? "border-slate-800 text-slate-400" : "border-slate-200 text-slate-600"
-                        }`}
-                      >
-                        No saved chats yet. Start a chat while logged in and it will show up here.
-                      </div>
-                    )}
-                    {sessionHistory.map((s) => {
-                      const when = s.last_message_at || s.updated_at;
-                      const whenText = when ? new Date(when).toLocaleDateString() : "";
-                      const preview =
-                        (typeof s.last_message === "string" && s.last_message.trim()
-                          ? s.last_message
-                          : `Session ${s.id.slice(0, 8)}…`) as string;
-                      return (
-                        <button
-                          key={s.id}
-                          onClick={() => {
-                            setHistoryOpen(false);
-                            void loadSession(s.id);
-                          }}
-                          className={`w-full rounded-2xl border px-4 py-3 text-left transition ${
-                            darkMode ? "border-slate-800 hover:bg-slate-900/60" : "border-slate-200 hover:bg-slate-50"
-                          }`}
-                        >
-                          <div className="flex items-center justify-between gap-2">
-                            <div className={`text-xs font-semibold ${darkMode ? "text-slate-100" : "text-slate-900"}`}>
-                              {s.learning_mode === "guided" ? "Guided" : "Practice"} • {s.state}
-                            </div>
-                            <div className={`text-[11px] ${darkMode ? "text-slate-400" : "text-slate-500"}`}>{whenText}</div>
-                          </div>
-                          <div className={`mt-1 truncate text-xs ${darkMode ? "text-slate-300" : "text-slate-700"}`}>
-                            {preview}
-                          </div>
-                          <div className={`mt-1 text-[11px] ${darkMode ? "text-slate-500" : "text-slate-500"}`}>
-                            {s.message_count} messages
-                          </div>
-                        </button>
-                      );
-                    })}
-                  </div>
-                )}
-              </div>
-            </div>
-          </div>
+          <SessionHistoryDrawer
+            darkMode={darkMode}
+            activeSessionId={sessionId}
+            onClose={() => setHistoryOpen(false)}
+            onNewChat={() => {
+              setHistoryOpen(false);
+              void startNewSession(learningMode);
+            }}
+            onOpenSession={(id) => {
+              setHistoryOpen(false);
+              void loadSession(id);
+            }}
+            onForkSession={(s) => {
+              setHistoryOpen(false);
+              void startNewSession(s.learning_mode, { sessionId: s.id });
+            }}
+            onDeleted={(id) => {
+              if (id !== sessionId) return;
+              localStorage.removeItem("codem-last-session-id");
+              void startNewSession(learningMode);
+            }}
+            onUnauthorized={() => {
+              setUser(null);
+              setHistoryOpen(false);
+            }}
+          />
         )}
       </div>
     </div>
@@ -4,49 +4,7 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useThemeMode } from "@/lib/useThemeMode";
-
-const BACKEND_URL =
-  process.env.NEXT_PUBLIC_BACKEND_URL ?? "http://localhost:4000";
-
-interface UserStats {
-  totalSubmissions: number;
-  successfulSubmissions: number;
-  activitiesAttempted: number;
-  problemsAttempted: number;
-  avgExecutionTime: number;
-  successRate: number;
-}
-
-interface Activity {
-  id: string;
-  title: string;
-  prompt: string;
-  problemCount: number;
-  createdAt: string;
-}
-
-interface Submission {
-  id: number;
-  activity_id: string;
-  problem_id: string;
-  success: boolean;
-  passed_tests: number;
-  total_tests: number;
-  submitted_at: string;
-}
-
-interface ProfileData {
-  user: {
-    id: number;
-    username: string;
-    email: string;
-    displayName: string;
-    createdAt: string;
-  };
-  stats: UserStats;
-  activities: Activity[];
-  recentSubmissions: Submission[];
-}
+import { ApiError, clearAuthSession, getAuthToken, getErrorMessage, getProfile, type ProfileData } from "@/lib/api";
 
 export default function ProfilePage() {
   const router = useRouter();
@@ -56,35 +14,18 @@ export default function ProfilePage() {
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    const token = localStorage.getItem("codem-token");
-    if (!token) {
+    if (!getAuthToken()) {
       router.push("/auth/login");
       return;
     }
 
     async function fetchProfile() {
       try {
-        const res = await fetch(`${BACKEND_URL}/profile`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
-
-        if (res.status === 401 || res.status === 403) {
-          localStorage.removeItem("codem-token");
-          localStorage.removeItem("codem-user");
-          router.push("/auth/login");
-          return;
-        }
-
-        if (!res.ok) {
-          throw new Error("Failed to fetch profile");
-        }
-
-        const data = await res.json();
-        setProfile(data);
-      } catch (err: any) {
-        setError(err.message);
+        setProfile(await getProfile());
+      } catch (err) {
+        // Unauthorized responses already redirect to the login page.
+        if (err instanceof ApiError && err.isUnauthorized) return;
+        setError(getErrorMessage(err, "Failed to fetch profile"));
       } finally {
         setLoading(false);
       }
@@ -94,8 +35,7 @@ export default function ProfilePage() {
   }, [router]);
 
   function handleLogout() {
-    localStorage.removeItem("codem-token");
-    localStorage.removeItem("codem-user");
+    clearAuthSession();
     router.push("/");
   }
 
@@ -3,16 +3,16 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useThemeMode } from "@/lib/useThemeMode";
-
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:4000";
-
-type LlmProvider = "openai" | "anthropic" | "gemini";
-
-type LlmSettingsResponse = {
-  configured: boolean;
-  provider: string | null;
-  updatedAt: string | null;
-};
+import {
+  ApiError,
+  clearLlmSettings,
+  getAuthToken,
+  getErrorMessage,
+  getLlmSettings,
+  saveLlmSettings,
+  type LlmProvider,
+  type LlmSettings,
+} from "@/lib/api";
 
 export default function LlmSettingsPage() {
   const router = useRouter();
@@ -21,12 +21,12 @@ export default function LlmSettingsPage() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [status, setStatus] = useState<LlmSettingsResponse | null>(null);
+  const [status, setStatus] = useState<LlmSettings | null>(null);
 
   const [provider, setProvider] = useState<LlmProvider>("openai");
   const [apiKey, setApiKey] = useState("");
 
-  const token = useMemo(() => (typeof window !== "undefined" ? localStorage.getItem("codem-token") : null), []);
+  const token = useMemo(() => getAuthToken(), []);
 
   useEffect(() => {
     if (!token) {
@@ -36,29 +36,15 @@ export default function LlmSettingsPage() {
 
     async function load() {
       try {
-        const res = await fetch(`${BACKEND_URL}/profile/llm`, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-
-        if (res.status === 401 || res.status === 403) {
-          localStorage.removeItem("codem-token");
-          localStorage.removeItem("codem-user");
-          router.push("/auth/login");
-          return;
-        }
-
-        const data = (await res.json()) as LlmSettingsResponse;
-        if (!res.ok) {
-          throw new Error((data as any)?.error || "Failed to load LLM settings");
-        }
-
+        const data = await getLlmSettings();
         setStatus(data);
         const p = String(data.provider || "").toLowerCase();
         if (p === "openai" || p === "anthropic" || p === "gemini") {
           setProvider(p);
         }
-      } catch (e: any) {
-        setError(e?.message || "Failed to load LLM settings");
+      } catch (e) {
+        if (e instanceof ApiError && e.isUnauthorized) return;
+        setError(getErrorMessage(e, "Failed to load LLM settings"));
       } finally {
         setLoading(false);
       }
@@ -72,27 +58,13 @@ export default function LlmSettingsPage() {
     setError(null);
     setSaving(true);
     try {
-      const res = await fetch(`${BACKEND_URL}/profile/llm`, {
-        method: "PUT",
-        headers: {
-          Authorization: `Bearer ${token}`,
-          "content-type": "application/json",
-        },
-        body: JSON.stringify({ provider, apiKey }),
-      });
-      const data = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        throw new Error(data?.detail || data?.error || "Failed to save LLM settings");
-      }
+      await saveLlmSettings(provider, apiKey);
       setApiKey("");
 
-      const refreshed = await fetch(`${BACKEND_URL}/profile/llm`, {
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      const refreshedData = await refreshed.json();
-      if (refreshed.ok) setStatus(refreshedData);
-    } catch (e: any) {
-      setError(e?.message || "Failed to save LLM settings");
+      setStatus(await getLlmSettings().catch(() => status));
+    } catch (e) {
+      // Configuration problems (e.g. missing encryption key) are explained in `detail`.
+      setError(e instanceof ApiError && e.detail ? e.detail : getErrorMessage(e, "Failed to save LLM settings"));
     } finally {
       setSaving(false);
     }
@@ -103,18 +75,11 @@ export default function LlmSettingsPage() {
     setError(null);
     setSaving(true);
     try {
-      const res = await fetch(`${BACKEND_URL}/profile/llm`, {
-        method: "DELETE",
-        headers: { Authorization: `Bearer ${token}` },
-      });
-      const data = await res.json().catch(() => ({}));
-      if (!res.ok) {
-        throw new Error(data?.error || "Failed to clear LLM settings");
-      }
+      await clearLlmSettings();
       setApiKey("");
       setStatus({ configured: false, provider: null, updatedAt: null });
-    } catch (e: any) {
-      setError(e?.message || "Failed to clear LLM settings");
+    } catch (e) {
+      setError(getErrorMessage(e, "Failed to clear LLM settings"));
     } finally {
       setSaving(false);
     }
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import {
+  defaultDifficultyPlan,
+  DIFFICULTIES,
+  formatDifficultyPlan,
+  rebalanceDifficultyPlan,
+  sumDifficultyPlan,
+  type Difficulty,
+  type DifficultyPlan,
+} from "@/lib/specForm";
+
+const BAR_COLOR: Record<Difficulty, string> = {
+  easy: "bg-emerald-500",
+  medium: "bg-amber-500",
+  hard: "bg-rose-500",
+};
+
+/**
+ * Steppers for the difficulty slot, for an accepted `problemCount` (the page only shows it once
+ * there is one). Every change rebalances the other difficulties so the plan always adds up to
+ * that count. `onSubmit` receives the plan as `easy:2, medium:1`.
+ */
+export function DifficultyPlanEditor(props: {
+  darkMode: boolean;
+  disabled: boolean;
+  problemCount: number;
+  onSubmit: (answer: string) => void;
+}) {
+  const { darkMode, disabled, problemCount, onSubmit } = props;
+  const [plan, setPlan] = useState<DifficultyPlan>(() => defaultDifficultyPlan(problemCount));
+  const total = sumDifficultyPlan(plan);
+
+  const step = (d: Difficulty, delta: number) =>
+    setPlan(rebalanceDifficultyPlan(plan, problemCount, { key: d, value: plan[d] + delta }));
+  const valid = total === problemCount;
+
+  const stepper = `h-7 w-7 rounded-full border text-sm font-semibold transition disabled:cursor-not-allowed disabled:opacity-40 ${
+    darkMode ? "border-slate-700 bg-slate-900 text-slate-100 hover:bg-slate-800" : "border-slate-200 bg-white text-slate-800 hover:bg-slate-50"
+  }`;
+
+  return (
+    <div
+      className={`mb-2 space-y-2 rounded-2xl border px-4 py-3 text-xs ${
+        darkMode ? "border-slate-800 bg-slate-900/60 text-slate-200" : "border-slate-200 bg-slate-50 text-slate-700"
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold">Difficulty plan</span>
+        <span className="opacity-70">
+          {total} of {problemCount} problems
+        </span>
+      </div>
+
+      <div className={`flex h-2 overflow-hidden rounded-full ${darkMode ? "bg-slate-800" : "bg-slate-200"}`} aria-hidden="true">
+        {DIFFICULTIES.map((d) =>
+          plan[d] > 0 ? (
+            <div key={d} className={BAR_COLOR[d]} style={{ width: `${(plan[d] / Math.max(total, 1)) * 100}%` }} />
+          ) : null,
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {DIFFICULTIES.map((d) => (
+          <div key={d} className="flex items-center gap-2">
+            <span className={`h-2 w-2 rounded-full ${BAR_COLOR[d]}`} aria-hidden="true" />
+            <span className="w-12 capitalize">{d}</span>
+            <button
+              type="button"
+              onClick={() => step(d, -1)}
+              disabled={disabled || plan[d] === 0}
+              aria-label={`Fewer ${d} problems`}
+              className={stepper}
+            >
+              −
+            </button>
+            <span className="w-4 text-center font-mono font-semibold">{plan[d]}</span>
+            <button
+              type="button"
+              onClick={() => step(d, 1)}
+              disabled={disabled || plan[d] >= problemCount}
+              aria-label={`More ${d} problems`}
+              className={stepper}
+            >
+              +
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() => onSubmit(formatDifficultyPlan(plan))}
+          disabled={disabled || !valid}
+          className="rounded-full bg-sky-600 px-3 py-1 text-xs font-semibold text-white transition hover:bg-sky-500 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Use {formatDifficultyPlan(plan) || "this plan"}
+        </button>
+      </div>
+    </div>
+  );
+}
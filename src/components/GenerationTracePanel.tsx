@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { ChevronDown, ChevronRight, Download } from "lucide-react";
+import {
+  downloadTraceJson,
+  groupTraceBySlot,
+  subscribeToGenerationTrace,
+  type TraceCategory,
+  type TraceEntry,
+} from "@/lib/generationTrace";
+
+const CATEGORY_LABEL: Record<TraceCategory, string> = {
+  llm: "LLM",
+  contract: "Contract",
+  docker: "Docker",
+  generation: "Run",
+  other: "Event",
+};
+
+function categoryClass(category: TraceCategory, darkMode: boolean): string {
+  switch (category) {
+    case "llm":
+      return darkMode ? "bg-sky-900/40 text-sky-200" : "bg-sky-50 text-sky-800";
+    case "contract":
+      return darkMode ? "bg-violet-900/40 text-violet-200" : "bg-violet-50 text-violet-800";
+    case "docker":
+      return darkMode ? "bg-amber-900/40 text-amber-200" : "bg-amber-50 text-amber-900";
+    default:
+      return darkMode ? "bg-slate-800 text-slate-300" : "bg-slate-100 text-slate-700";
+  }
+}
+
+function isFailure(entry: TraceEntry): boolean {
+  return entry.type.includes("fail") || entry.type.includes("error");
+}
+
+/**
+ * Developer view of `/sessions/:id/trace`. Mount it with `key={sessionId}` so a new session
+ * starts from an empty timeline.
+ */
+export function GenerationTracePanel(props: { sessionId: string; darkMode: boolean }) {
+  const { sessionId, darkMode } = props;
+  const [entries, setEntries] = useState<TraceEntry[]>([]);
+  const [connection, setConnection] = useState<"open" | "reconnecting" | "closed">("open");
+  const [open, setOpen] = useState(false);
+  const [collapsedSlots, setCollapsedSlots] = useState<Set<string>>(() => new Set());
+  const [expandedEntries, setExpandedEntries] = useState<Set<number>>(() => new Set());
+
+  useEffect(() => {
+    const sub = subscribeToGenerationTrace(sessionId, {
+      onEntry: (entry) => setEntries((prev) => [...prev, entry]),
+      onError: (willRetry) => setConnection(willRetry ? "reconnecting" : "closed"),
+      onOpen: () => setConnection("open"),
+    });
+    return () => sub.close();
+  }, [sessionId]);
+
+  const groups = useMemo(() => groupTraceBySlot(entries), [entries]);
+
+  const toggle = <T,>(set: Set<T>, value: T): Set<T> => {
+    const next = new Set(set);
+    if (next.has(value)) next.delete(value);
+    else next.add(value);
+    return next;
+  };
+
+  return (
+    <div
+      className={`rounded-xl border text-[11px] ${
+        darkMode ? "border-slate-800 bg-slate-950/40" : "border-slate-200 bg-white"
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2 px-3 py-2">
+        <button
+          type="button"
+          onClick={() => setOpen((v) => !v)}
+          className="flex items-center gap-1 font-semibold uppercase tracking-wide opacity-80"
+        >
+          {open ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+          Generation trace ({entries.length})
+        </button>
+        <button
+          type="button"
+          disabled={entries.length === 0}
+          onClick={() => downloadTraceJson(sessionId, entries)}
+          className={`flex items-center gap-1 rounded-md px-2 py-1 transition disabled:opacity-40 ${
+            darkMode ? "hover:bg-slate-800" : "hover:bg-slate-100"
+          }`}
+        >
+          <Download className="h-3.5 w-3.5" />
+          Export JSON
+        </button>
+      </div>
+
+      {open && (
+        <div className={`space-y-2 border-t px-3 py-2 ${darkMode ? "border-slate-800" : "border-slate-200"}`}>
+          {connection === "closed" && entries.length === 0 && (
+            <div className="opacity-70">Trace is unavailable (the backend may have it disabled).</div>
+          )}
+          {connection === "closed" && entries.length > 0 && (
+            <div className="opacity-70">Trace stream disconnected; showing the events received so far.</div>
+          )}
+          {connection === "reconnecting" && <div className="opacity-70">Trace stream interrupted. Reconnecting…</div>}
+          {connection === "open" && entries.length === 0 && <div className="opacity-70">Waiting for trace events.</div>}
+
+          {groups.map((group) => {
+            const groupKey = group.slotIndex == null ? "session" : String(group.slotIndex);
+            const collapsed = collapsedSlots.has(groupKey);
+            const failures = group.entries.filter(isFailure).length;
+            return (
+              <div key={groupKey}>
+                <button
+                  type="button"
+                  onClick={() => setCollapsedSlots((prev) => toggle(prev, groupKey))}
+                  className="flex w-full items-center gap-1 text-left font-medium"
+                >
+                  {collapsed ? <ChevronRight className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+                  {group.slotIndex == null ? "Session" : `Problem ${group.slotIndex + 1}`}
+                  <span className="opacity-60">
+                    · {group.entries.length} events{failures > 0 ? ` · ${failures} failed` : ""}
+                  </span>
+                </button>
+
+                {!collapsed && (
+                  <ol className={`ml-1.5 mt-1 space-y-1 border-l pl-3 ${darkMode ? "border-slate-800" : "border-slate-200"}`}>
+                    {group.entries.map((entry) => {
+                      const expanded = expandedEntries.has(entry.seq);
+                      return (
+                        <li key={entry.seq}>
+                          <button
+                            type="button"
+                            onClick={() => setExpandedEntries((prev) => toggle(prev, entry.seq))}
+                            className="flex w-full items-start gap-2 text-left"
+                          >
+                            <span className={`shrink-0 rounded px-1.5 py-0.5 ${categoryClass(entry.category, darkMode)}`}>
+                              {CATEGORY_LABEL[entry.category]}
+                            </span>
+                            <span className={`min-w-0 flex-1 break-words ${isFailure(entry) ? "text-rose-500" : ""}`}>
+                              {entry.summary}
+                              {entry.attempt != null && <span className="opacity-60"> (attempt {entry.attempt})</span>}
+                            </span>
+                            {entry.ts && <span className="shrink-0 tabular-nums opacity-50">{entry.ts}</span>}
+                          </button>
+                          {expanded && (
+                            <pre
+                              className={`mt-1 max-h-64 overflow-auto whitespace-pre-wrap rounded-md p-2 font-mono text-[10px] ${
+                                darkMode ? "bg-slate-900 text-slate-200" : "bg-slate-50 text-slate-800"
+                              }`}
+                            >
+                              {entry.detail ?? JSON.stringify(entry.raw, null, 2)}
+                            </pre>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+"use client";
+
+import ReactMarkdown from "react-markdown";
+import rehypeHighlight from "rehype-highlight";
+import rehypeKatex from "rehype-katex";
+import rehypeSanitize from "rehype-sanitize";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+
+// Raw HTML in the source is never parsed (no rehype-raw), and the tree is sanitized with the
+// GitHub schema *before* KaTeX and highlighting add their own markup, so those stay intact.
+const REMARK_PLUGINS = [remarkGfm, remarkMath];
+const REHYPE_PLUGINS = [rehypeSanitize, rehypeKatex, rehypeHighlight];
+
+/**
+ * Renders chat messages and problem text as Markdown: GFM tables and task lists, fenced code
+ * with syntax highlighting and `$…$` / `$$…$$` math. Styling lives under `.codem-markdown`
+ * in globals.css; `inverted` is for light text on a dark bubble.
+ */
+export function Markdown(props: { children: string; className?: string; inverted?: boolean }) {
+  const { children, className, inverted } = props;
+  return (
+    <div className={`codem-markdown ${inverted ? "codem-markdown-inverted" : ""} ${className ?? ""}`}>
+      <ReactMarkdown
+        remarkPlugins={REMARK_PLUGINS}
+        rehypePlugins={REHYPE_PLUGINS}
+        components={{
+          a: ({ href, children: label }) => (
+            <a href={href} target="_blank" rel="noopener noreferrer">
+              {label}
+            </a>
+          ),
+        }}
+      >
+        {children}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { diffText, visualizeWhitespace, type DiffSegment } from "@/lib/textDiff";
+
+function Segments(props: { segments: DiffSegment[]; showWhitespace: boolean; changedClassName: string }) {
+  const { segments, showWhitespace, changedClassName } = props;
+  return (
+    <>
+      {segments.map((s, i) => {
+        const text = showWhitespace ? visualizeWhitespace(s.text) : s.text;
+        return s.changed ? (
+          <span key={i} className={`rounded-sm ${changedClassName}`}>
+            {text}
+          </span>
+        ) : (
+          <span key={i}>{text}</span>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * Side-by-side expected/actual view: changed lines are tinted, changed characters within a line
+ * are highlighted, and a missing/extra trailing newline is called out explicitly.
+ */
+export function OutputDiff(props: {
+  expected: string;
+  actual: string;
+  expectedLabel?: string;
+  actualLabel?: string;
+}) {
+  const { expected, actual, expectedLabel = "Expected output", actualLabel = "Your output" } = props;
+  const [showWhitespace, setShowWhitespace] = useState(false);
+  const diff = useMemo(() => diffText(expected, actual), [expected, actual]);
+
+  const show = (text: string) => (showWhitespace ? visualizeWhitespace(text) : text);
+  const cell = "min-w-0 whitespace-pre-wrap break-all px-2 py-0.5";
+
+  return (
+    <div className="rounded border border-slate-200 bg-white p-2">
+      <div className="mb-1 flex items-center justify-between gap-2">
+        <div className="text-[11px] font-semibold text-slate-900">
+          {diff.identical ? "Outputs match" : "Output diff"}
+        </div>
+        <label className="flex items-center gap-1 text-[11px] text-slate-600">
+          <input type="checkbox" checked={showWhitespace} onChange={(e) => setShowWhitespace(e.target.checked)} />
+          Show whitespace
+        </label>
+      </div>
+      <div className="grid grid-cols-2 gap-x-2 text-[11px] font-semibold text-slate-600">
+        <div className="px-2">{expectedLabel}</div>
+        <div className="px-2">{actualLabel}</div>
+      </div>
+      <div className="mt-1 max-h-64 overflow-auto rounded bg-slate-50 font-mono text-[11px] text-slate-800">
+        {diff.rows.length === 0 && (
+          <div className="grid grid-cols-2 gap-x-2">
+            <div className={`${cell} text-slate-400`}>(empty)</div>
+            <div className={`${cell} text-slate-400`}>(empty)</div>
+          </div>
+        )}
+        {diff.rows.map((row, i) =>
+          row.kind === "equal" ? (
+            <div key={i} className="grid grid-cols-2 gap-x-2">
+              <div className={cell}>{show(row.left) || " "}</div>
+              <div className={cell}>{show(row.right) || " "}</div>
+            </div>
+          ) : (
+            <div key={i} className="grid grid-cols-2 gap-x-2">
+              <div className={`${cell} ${row.left ? "bg-emerald-50" : "bg-slate-100"}`}>
+                {row.left ? (
+                  <Segments segments={row.left} showWhitespace={showWhitespace} changedClassName="bg-emerald-200" />
+                ) : (
+                  <span className="text-slate-400">(missing line)</span>
+                )}
+              </div>
+              <div className={`${cell} ${row.right ? "bg-rose-50" : "bg-slate-100"}`}>
+                {row.right ? (
+                  <Segments segments={row.right} showWhitespace={showWhitespace} changedClassName="bg-rose-200" />
+                ) : (
+                  <span className="text-slate-400">(missing line)</span>
+                )}
+              </div>
+            </div>
+          ),
+        )}
+      </div>
+      {diff.expectedEndsWithNewline !== diff.actualEndsWithNewline && (
+        <div className="mt-1 text-[11px] text-amber-700">
+          {diff.actualEndsWithNewline
+            ? "Your output ends with a newline; the expected output does not."
+            : "Your output is missing the trailing newline the expected output has."}
+          {diff.onlyTrailingNewlineDiffers ? " That is the only difference." : ""}
+        </div>
+      )}
+    </div>
+  );
+}
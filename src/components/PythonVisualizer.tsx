@@ -0,0 +1,226 @@
+"use client";
+
+import type { PythonHeapObject, PythonTrace, PythonTraceValue } from "@/lib/pythonTrace";
+
+const EVENT_LABEL = {
+  line: "About to run",
+  return: "Returning from",
+  exception: "Exception at",
+} as const;
+
+function ValueView(props: { value: PythonTraceValue; labels: Map<string, number>; heap: Record<string, PythonHeapObject> }) {
+  const { value, labels, heap } = props;
+  if (value.kind === "prim") return <span className="font-mono text-slate-900">{value.repr}</span>;
+  const obj = heap[value.ref];
+  return (
+    <span className="rounded bg-blue-50 px-1 font-mono text-blue-800" title="Object in the heap panel">
+      {obj?.type ?? "object"} #{labels.get(value.ref) ?? "?"}
+    </span>
+  );
+}
+
+function HeapObjectView(props: {
+  obj: PythonHeapObject;
+  labels: Map<string, number>;
+  heap: Record<string, PythonHeapObject>;
+}) {
+  const { obj, labels, heap } = props;
+  if (obj.repr != null) return <span className="font-mono text-slate-700">{obj.repr}</span>;
+  if (obj.items) {
+    const [open, close] = obj.type === "tuple" ? ["(", ")"] : obj.type === "list" ? ["[", "]"] : ["{", "}"];
+    return (
+      <span className="font-mono text-slate-700">
+        {open}
+        {obj.items.map((v, i) => (
+          <span key={i}>
+            {i > 0 && ", "}
+            <ValueView value={v} labels={labels} heap={heap} />
+          </span>
+        ))}
+        {obj.truncated && ", …"}
+        {close}
+      </span>
+    );
+  }
+  return (
+    <div className="space-y-0.5">
+      {(obj.entries ?? []).map(([k, v], i) => (
+        <div key={i} className="flex flex-wrap items-center gap-1">
+          <ValueView value={k} labels={labels} heap={heap} />
+          <span className="text-slate-400">{obj.type === "dict" ? ":" : "="}</span>
+          <ValueView value={v} labels={labels} heap={heap} />
+        </div>
+      ))}
+      {obj.truncated && <div className="text-slate-400">…</div>}
+    </div>
+  );
+}
+
+/**
+ * Step-through view of a `PythonTrace`: controls, the call stack with each frame's locals, the
+ * heap objects they point to, and stdout so far. The page owns `step` so it can highlight the
+ * same line in the editor.
+ */
+export function PythonVisualizer(props: {
+  trace: PythonTrace;
+  step: number;
+  onStepChange: (step: number) => void;
+  onClose: () => void;
+}) {
+  const { trace, step, onStepChange, onClose } = props;
+  const last = trace.steps.length - 1;
+  const current = trace.steps[Math.min(Math.max(step, 0), last)];
+
+  // Number heap objects in the order they are first reached so labels read #1, #2, ... per step.
+  const labels = new Map<string, number>();
+  const visit = (v: PythonTraceValue | undefined) => {
+    if (!v || v.kind !== "ref" || labels.has(v.ref)) return;
+    labels.set(v.ref, labels.size + 1);
+    const obj = current?.heap[v.ref];
+    obj?.items?.forEach(visit);
+    obj?.entries?.forEach(([k, val]) => {
+      visit(k);
+      visit(val);
+    });
+  };
+  current?.frames.forEach((f) => f.locals.forEach(([, v]) => visit(v)));
+  visit(current?.returnValue);
+
+  const button =
+    "rounded-full border border-slate-300 bg-white px-2 py-0.5 text-[11px] font-medium text-slate-800 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50";
+
+  return (
+    <div
+      className="space-y-2 rounded-xl border border-slate-200 bg-slate-50 p-3 outline-none"
+      tabIndex={0}
+      onKeyDown={(e) => {
+        if (e.key === "ArrowRight" && step < last) onStepChange(step + 1);
+        if (e.key === "ArrowLeft" && step > 0) onStepChange(step - 1);
+      }}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-[11px] font-semibold text-slate-900">Visualize</div>
+        <button onClick={onClose} className="text-[11px] font-medium text-slate-600 hover:text-slate-900">
+          Close
+        </button>
+      </div>
+
+      {!current ? (
+        <div className="text-[11px] text-slate-500">
+          No lines of your code ran. Check that solution.py defines solve() and that main.py calls it.
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-1.5">
+            <button className={button} onClick={() => onStepChange(0)} disabled={step <= 0}>
+              ⏮ First
+            </button>
+            <button className={button} onClick={() => onStepChange(step - 1)} disabled={step <= 0}>
+              ◀ Back
+            </button>
+            <span className="px-1 text-[11px] text-slate-600">
+              Step {step + 1} of {trace.steps.length}
+            </span>
+            <button className={button} onClick={() => onStepChange(step + 1)} disabled={step >= last}>
+              Forward ▶
+            </button>
+            <button className={button} onClick={() => onStepChange(last)} disabled={step >= last}>
+              Last ⏭
+            </button>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={last}
+            value={step}
+            onChange={(e) => onStepChange(Number(e.target.value))}
+            className="w-full"
+          />
+
+          <div className="text-[11px] text-slate-700">
+            {EVENT_LABEL[current.event]}{" "}
+            <span className="font-mono">
+              {current.file}:{current.line}
+            </span>
+            {current.event === "return" && current.returnValue && (
+              <>
+                {" "}
+                → <ValueView value={current.returnValue} labels={labels} heap={current.heap} />
+              </>
+            )}
+          </div>
+          {current.exception && (
+            <div className="rounded bg-rose-50 px-2 py-1 font-mono text-[11px] text-rose-800">{current.exception}</div>
+          )}
+
+          <div className="grid gap-2 md:grid-cols-2">
+            <div className="space-y-1">
+              <div className="text-[11px] font-semibold text-slate-900">Frames</div>
+              {current.frames.map((f, i) => (
+                <div
+                  key={i}
+                  className={`rounded border bg-white p-2 text-[11px] ${
+                    i === current.frames.length - 1 ? "border-blue-300" : "border-slate-200"
+                  }`}
+                >
+                  <div className="mb-1 font-mono font-semibold text-slate-900">
+                    {f.name}
+                    <span className="font-normal text-slate-500"> · line {f.line}</span>
+                  </div>
+                  {f.locals.length === 0 ? (
+                    <div className="text-slate-400">(no variables yet)</div>
+                  ) : (
+                    f.locals.map(([name, v]) => (
+                      <div key={name} className="flex flex-wrap items-center gap-1">
+                        <span className="font-mono text-slate-600">{name}</span>
+                        <span className="text-slate-400">=</span>
+                        <ValueView value={v} labels={labels} heap={current.heap} />
+                      </div>
+                    ))
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              <div className="text-[11px] font-semibold text-slate-900">Heap</div>
+              {labels.size === 0 ? (
+                <div className="text-[11px] text-slate-400">(no objects)</div>
+              ) : (
+                Array.from(labels.entries()).map(([ref, n]) => {
+                  const obj = current.heap[ref];
+                  if (!obj) return null;
+                  return (
+                    <div key={ref} className="rounded border border-slate-200 bg-white p-2 text-[11px]">
+                      <div className="mb-1 font-mono font-semibold text-blue-800">
+                        {obj.type} #{n}
+                      </div>
+                      <HeapObjectView obj={obj} labels={labels} heap={current.heap} />
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div className="text-[11px] font-semibold text-slate-900">Output so far</div>
+            <pre className="mt-1 max-h-24 overflow-auto whitespace-pre-wrap rounded bg-white p-2 font-mono text-[11px] text-slate-800">
+              {current.stdout || "(nothing printed yet)"}
+            </pre>
+          </div>
+        </>
+      )}
+
+      {trace.truncated && (
+        <div className="text-[11px] text-amber-800">
+          Stopped after {trace.steps.length} steps. Try a smaller input to see the whole run.
+        </div>
+      )}
+      {trace.error && (step >= last || !current) && (
+        <pre className="max-h-32 overflow-auto whitespace-pre-wrap rounded bg-rose-50/60 p-2 font-mono text-[11px] text-rose-800">
+          {trace.error}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { OutputDiff } from "./OutputDiff";
+import type { RunStdinSelection, SampleCase, SampleRunOutcome } from "@/lib/runComparison";
+
+const STATUS_BADGE: Record<SampleRunOutcome["status"], { label: string; className: string }> = {
+  match: { label: "✓ Matches", className: "bg-emerald-50 text-emerald-700" },
+  mismatch: { label: "✗ Differs", className: "bg-rose-50 text-rose-700" },
+  no_expected: { label: "No expected output", className: "bg-slate-100 text-slate-600" },
+  error: { label: "Run failed", className: "bg-amber-50 text-amber-800" },
+};
+
+export function RunPanel(props: {
+  samples: SampleCase[];
+  selection: RunStdinSelection;
+  onSelectionChange: (next: RunStdinSelection) => void;
+  customStdin: string;
+  onCustomStdinChange: (next: string) => void;
+  onRunAll: () => void;
+  runAllDisabled: boolean;
+  outcomes: SampleRunOutcome[] | null;
+}) {
+  const { samples, selection, onSelectionChange, customStdin, onCustomStdinChange, onRunAll, runAllDisabled, outcomes } =
+    props;
+  const selectValue = selection.kind === "custom" ? "custom" : String(selection.index);
+
+  return (
+    <div className="space-y-2 rounded-xl border border-slate-200 bg-slate-50 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-[11px] font-semibold text-slate-900">
+          Run input
+          <select
+            value={selectValue}
+            onChange={(e) =>
+              onSelectionChange(
+                e.target.value === "custom" ? { kind: "custom" } : { kind: "sample", index: Number(e.target.value) },
+              )
+            }
+            className="rounded-md border border-slate-300 bg-white px-2 py-1 text-[11px] font-normal text-slate-800"
+          >
+            {samples.map((s) => (
+              <option key={s.index} value={String(s.index)}>
+                Sample {s.index + 1}
+              </option>
+            ))}
+            <option value="custom">Custom stdin</option>
+          </select>
+        </label>
+        <button
+          onClick={onRunAll}
+          disabled={runAllDisabled || samples.length === 0}
+          className="rounded-full border border-slate-300 bg-white px-3 py-1 text-[11px] font-medium text-slate-800 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          Run all samples
+        </button>
+      </div>
+
+      {selection.kind === "custom" ? (
+        <textarea
+          value={customStdin}
+          onChange={(e) => onCustomStdinChange(e.target.value)}
+          placeholder="Type the input your program reads from stdin"
+          rows={4}
+          spellCheck={false}
+          className="w-full resize-y rounded border border-slate-200 bg-white p-2 font-mono text-[11px] text-slate-800 outline-none focus:border-blue-400"
+        />
+      ) : (
+        <pre className="max-h-24 overflow-auto whitespace-pre-wrap rounded border border-slate-200 bg-white p-2 font-mono text-[11px] text-slate-800">
+          {samples.find((s) => s.index === selection.index)?.input || "(empty)"}
+        </pre>
+      )}
+
+      {outcomes && outcomes.length > 0 && (
+        <div className="space-y-2">
+          {outcomes.map((o, i) => {
+            const badge = STATUS_BADGE[o.status];
+            return (
+              <details key={`${o.label}-${i}`} open={o.status === "mismatch"} className="rounded-lg border border-slate-200 bg-white p-2">
+                <summary className="flex cursor-pointer list-none items-center justify-between gap-2 select-none">
+                  <span className="font-semibold text-slate-900">{o.label}</span>
+                  <span className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${badge.className}`}>
+                    {badge.label}
+                  </span>
+                </summary>
+                {o.status === "mismatch" && o.expectedOutput != null ? (
+                  <div className="mt-2">
+                    <OutputDiff expected={o.expectedOutput} actual={o.stdout} />
+                  </div>
+                ) : (
+                  <div className="mt-2 grid gap-2 md:grid-cols-2">
+                    <div>
+                      <div className="text-[11px] font-semibold text-slate-900">Expected output</div>
+                      <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap rounded bg-slate-50 p-2 font-mono text-[11px] text-slate-800">
+                        {o.expectedOutput ?? "(not available)"}
+                      </pre>
+                    </div>
+                    <div>
+                      <div className="text-[11px] font-semibold text-slate-900">Your output</div>
+                      <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap rounded bg-slate-50 p-2 font-mono text-[11px] text-slate-800">
+                        {o.stdout || "(empty)"}
+                      </pre>
+                    </div>
+                  </div>
+                )}
+                {o.stderr.trim() && (
+                  <pre className="mt-2 max-h-32 overflow-auto whitespace-pre-wrap rounded bg-rose-50/60 p-2 font-mono text-[11px] text-rose-800">
+                    {o.stderr}
+                  </pre>
+                )}
+              </details>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,431 @@
+"use client";
+
+import { Archive, ArchiveRestore, GitFork, History as HistoryIcon, Pencil, Trash2, X } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import {
+  ApiError,
+  deleteSession,
+  getErrorMessage,
+  listSessions,
+  updateSession,
+  type SessionSummary,
+} from "@/lib/api";
+import {
+  groupSessionsByDate,
+  readSessionHistoryFilters,
+  SESSION_HISTORY_PAGE_SIZE,
+  SESSION_STATES,
+  sessionDisplayTitle,
+  writeSessionHistoryFilters,
+  type SessionHistoryFilters,
+} from "@/lib/sessionHistory";
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Slide-over list of the user's sessions with search, state/mode/archived filters (mirrored in
+ * the URL), infinite scrolling and per-session fork, rename, archive and delete.
+ */
+export function SessionHistoryDrawer(props: {
+  darkMode: boolean;
+  activeSessionId: string | null;
+  onClose: () => void;
+  onNewChat: () => void;
+  onOpenSession: (sessionId: string) => void;
+  onForkSession: (session: SessionSummary) => void;
+  onDeleted: (sessionId: string) => void;
+  onUnauthorized: () => void;
+}) {
+  const { darkMode, activeSessionId, onClose, onNewChat, onOpenSession, onForkSession, onDeleted, onUnauthorized } =
+    props;
+  const [filters, setFilters] = useState<SessionHistoryFilters>(() =>
+    readSessionHistoryFilters(new URLSearchParams(window.location.search)),
+  );
+  const [search, setSearch] = useState(filters.q);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; title: string } | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  // Ignores pages that arrive after the filters changed again.
+  const requestRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  async function loadPage(offset: number) {
+    const requestId = ++requestRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await listSessions(
+        {
+          limit: SESSION_HISTORY_PAGE_SIZE,
+          offset,
+          q: filters.q,
+          state: filters.state ?? undefined,
+          learning_mode: filters.mode ?? undefined,
+          archived: filters.archived,
+        },
+        { onUnauthorized: "logout" },
+      );
+      if (requestId !== requestRef.current) return;
+      setSessions((prev) => (offset === 0 ? page.sessions : [...prev, ...page.sessions]));
+      setNextOffset(page.nextOffset);
+    } catch (e) {
+      if (requestId !== requestRef.current) return;
+      if (e instanceof ApiError && e.isUnauthorized) {
+        onUnauthorized();
+        return;
+      }
+      setError(getErrorMessage(e, "Failed to load chat history"));
+    } finally {
+      if (requestId === requestRef.current) setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    const params = writeSessionHistoryFilters(new URLSearchParams(window.location.search), filters);
+    const query = params.toString();
+    window.history.replaceState(window.history.state, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+    setSessions([]);
+    setNextOffset(null);
+    void loadPage(0);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters]);
+
+  useEffect(() => {
+    if (search === filters.q) return;
+    const t = window.setTimeout(() => setFilters((prev) => ({ ...prev, q: search })), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(t);
+  }, [search, filters.q]);
+
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el || nextOffset == null || loading || error) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((e) => e.isIntersecting)) void loadPage(nextOffset);
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nextOffset, loading, error]);
+
+  async function runAction(sessionId: string, action: () => Promise<void>) {
+    setPendingId(sessionId);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      if (e instanceof ApiError && e.isUnauthorized) {
+        onUnauthorized();
+        return;
+      }
+      setError(
+        e instanceof ApiError && e.isNotFound
+          ? "This backend does not support renaming, archiving or deleting chats yet."
+          : getErrorMessage(e, "Failed to update chat"),
+      );
+    } finally {
+      setPendingId(null);
+    }
+  }
+
+  const saveTitle = (s: SessionSummary, title: string) =>
+    runAction(s.id, async () => {
+      setRenaming(null);
+      const next = title.trim() || null;
+      if (next === (s.title ?? null)) return;
+      const updated = await updateSession(s.id, { title: next });
+      setSessions((prev) => prev.map((x) => (x.id === s.id ? (updated ?? { ...x, title: next }) : x)));
+    });
+
+  const toggleArchived = (s: SessionSummary) =>
+    runAction(s.id, async () => {
+      await updateSession(s.id, { archived: !s.archived });
+      // The session now belongs to the other (archived / not archived) list.
+      setSessions((prev) => prev.filter((x) => x.id !== s.id));
+    });
+
+  const remove = (s: SessionSummary) =>
+    runAction(s.id, async () => {
+      setConfirmDeleteId(null);
+      await deleteSession(s.id);
+      setSessions((prev) => prev.filter((x) => x.id !== s.id));
+      onDeleted(s.id);
+    });
+
+  const muted = darkMode ? "text-slate-400" : "text-slate-500";
+  const control = darkMode
+    ? "border-slate-800 bg-slate-900 text-slate-100 placeholder-slate-500"
+    : "border-slate-200 bg-white text-slate-900 placeholder-slate-400";
+  const iconButton = `rounded-full p-1.5 transition disabled:opacity-50 ${
+    darkMode ? "text-slate-400 hover:bg-slate-800 hover:text-slate-100" : "text-slate-500 hover:bg-slate-100 hover:text-slate-900"
+  }`;
+  const hasFilters = Boolean(filters.q.trim() || filters.state || filters.mode);
+
+  return (
+    <div className="fixed inset-0 z-50">
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} aria-hidden="true" />
+      <div
+        className={`absolute right-0 top-0 flex h-full w-full max-w-[420px] flex-col overflow-hidden border-l shadow-2xl ${
+          darkMode ? "border-slate-800 bg-slate-950 text-slate-50" : "border-slate-200 bg-white text-slate-900"
+        }`}
+        role="dialog"
+        aria-label="Chat history"
+        aria-modal="true"
+      >
+        <div className={`flex items-center justify-between border-b px-4 py-4 ${darkMode ? "border-slate-800" : "border-slate-200"}`}>
+          <div className="flex items-center gap-2">
+            <HistoryIcon className={`h-4 w-4 ${darkMode ? "text-slate-200" : "text-slate-700"}`} />
+            <div className={`text-sm font-semibold ${darkMode ? "text-slate-100" : "text-slate-900"}`}>Past chats</div>
+          </div>
+          <button
+            type="button"
+            onClick={onClose}
+            className={`rounded-full border p-2 transition ${
+              darkMode ? "border-slate-800 bg-slate-900/60 text-slate-200 hover:bg-slate-800" : "border-slate-200 bg-white text-slate-700 hover:bg-slate-50"
+            }`}
+            aria-label="Close history"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className={`space-y-2 border-b px-4 py-3 ${darkMode ? "border-slate-800" : "border-slate-200"}`}>
+          <button
+            onClick={onNewChat}
+            className={`w-full rounded-2xl px-4 py-3 text-left text-sm font-semibold transition ${
+              darkMode ? "bg-slate-900 text-slate-100 hover:bg-slate-800" : "bg-slate-900 text-white hover:bg-slate-800"
+            }`}
+          >
+            New chat
+          </button>
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search chats"
+            aria-label="Search chats"
+            className={`w-full rounded-full border px-3 py-1.5 text-xs outline-none ${control}`}
+          />
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <select
+              value={filters.state ?? ""}
+              onChange={(e) => setFilters((prev) => ({ ...prev, state: e.target.value || null }))}
+              aria-label="Filter by state"
+              className={`rounded-full border px-2 py-1 ${control}`}
+            >
+              <option value="">Any state</option>
+              {SESSION_STATES.map((state) => (
+                <option key={state} value={state}>
+                  {state}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.mode ?? ""}
+              onChange={(e) =>
+                setFilters((prev) => ({
+                  ...prev,
+                  mode: e.target.value === "practice" || e.target.value === "guided" ? e.target.value : null,
+                }))
+              }
+              aria-label="Filter by learning mode"
+              className={`rounded-full border px-2 py-1 ${control}`}
+            >
+              <option value="">Any mode</option>
+              <option value="practice">Practice</option>
+              <option value="guided">Guided</option>
+            </select>
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={filters.archived}
+                onChange={(e) => setFilters((prev) => ({ ...prev, archived: e.target.checked }))}
+              />
+              Archived
+            </label>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-4">
+          {error && (
+            <div
+              className={`mb-3 rounded-2xl border px-4 py-3 text-xs ${
+                darkMode ? "border-rose-900/40 bg-rose-900/20 text-rose-200" : "border-rose-200 bg-rose-50 text-rose-900"
+              }`}
+            >
+              {error}
+            </div>
+          )}
+
+          {!loading && !error && sessions.length === 0 && (
+            <div
+              className={`rounded-2xl border px-4 py-4 text-xs ${
+                darkMode ? "border-slate-800 text-slate-400" : "border-slate-200 text-slate-600"
+              }`}
+            >
+              {hasFilters
+                ? "No chats match these filters."
+                : filters.archived
+                  ? "No archived chats."
+                  : "No saved chats yet. Start a chat while logged in and it will show up here."}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            {groupSessionsByDate(sessions).map((group) => (
+              <div key={group.label} className="space-y-2">
+                <div className={`text-[11px] font-semibold uppercase tracking-wide ${muted}`}>{group.label}</div>
+                {group.sessions.map((s) => {
+                  const when = s.last_message_at || s.updated_at;
+                  const whenText = when ? new Date(when).toLocaleDateString() : "";
+                  const busy = pendingId === s.id;
+                  return (
+                    <div
+                      key={s.id}
+                      className={`rounded-2xl border px-4 py-3 transition ${
+                        s.id === activeSessionId
+                          ? darkMode
+                            ? "border-sky-700 bg-slate-900/60"
+                            : "border-sky-300 bg-sky-50/60"
+                          : darkMode
+                            ? "border-slate-800 hover:bg-slate-900/60"
+                            : "border-slate-200 hover:bg-slate-50"
+                      }`}
+                    >
+                      {renaming?.id === s.id ? (
+                        <form
+                          className="flex gap-2"
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            void saveTitle(s, renaming.title);
+                          }}
+                        >
+                          <input
+                            autoFocus
+                            value={renaming.title}
+                            onChange={(e) => setRenaming({ id: s.id, title: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === "Escape") {
+                                e.stopPropagation();
+                                setRenaming(null);
+                              }
+                            }}
+                            placeholder="Chat title"
+                            aria-label="Chat title"
+                            className={`min-w-0 flex-1 rounded-lg border px-2 py-1 text-xs outline-none ${control}`}
+                          />
+                          <button type="submit" className="rounded-lg bg-sky-600 px-2 py-1 text-xs font-semibold text-white">
+                            Save
+                          </button>
+                        </form>
+                      ) : (
+                        <button type="button" onClick={() => onOpenSession(s.id)} className="block w-full text-left">
+                          <div className="flex items-center justify-between gap-2">
+                            <div className={`truncate text-xs font-semibold ${darkMode ? "text-slate-100" : "text-slate-900"}`}>
+                              {sessionDisplayTitle(s)}
+                            </div>
+                            <div className={`shrink-0 text-[11px] ${muted}`}>{whenText}</div>
+                          </div>
+                          <div className={`mt-1 text-[11px] ${muted}`}>
+                            {s.learning_mode === "guided" ? "Guided" : "Practice"} • {s.state} • {s.message_count} messages
+                          </div>
+                          {s.title?.trim() && s.last_message?.trim() && (
+                            <div className={`mt-1 truncate text-xs ${darkMode ? "text-slate-300" : "text-slate-700"}`}>
+                              {s.last_message}
+                            </div>
+                          )}
+                        </button>
+                      )}
+
+                      <div className="mt-2 flex items-center justify-end gap-1">
+                        {confirmDeleteId === s.id ? (
+                          <>
+                            <span className={`mr-1 text-[11px] ${muted}`}>Delete this chat?</span>
+                            <button
+                              type="button"
+                              disabled={busy}
+                              onClick={() => void remove(s)}
+                              className="rounded-full bg-rose-600 px-2 py-0.5 text-[11px] font-semibold text-white disabled:opacity-50"
+                            >
+                              Delete
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setConfirmDeleteId(null)}
+                              className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${muted}`}
+                            >
+                              Cancel
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <button
+                              type="button"
+                              disabled={busy}
+                              onClick={() => onForkSession(s)}
+                              className={iconButton}
+                              aria-label="Fork session"
+                              title="Fork session: start a new chat from this spec"
+                            >
+                              <GitFork className="h-3.5 w-3.5" />
+                            </button>
+                            <button
+                              type="button"
+                              disabled={busy}
+                              onClick={() => setRenaming({ id: s.id, title: s.title ?? "" })}
+                              className={iconButton}
+                              aria-label="Rename chat"
+                              title="Rename"
+                            >
+                              <Pencil className="h-3.5 w-3.5" />
+                            </button>
+                            <button
+                              type="button"
+                              disabled={busy}
+                              onClick={() => void toggleArchived(s)}
+                              className={iconButton}
+                              aria-label={s.archived ? "Unarchive chat" : "Archive chat"}
+                              title={s.archived ? "Unarchive" : "Archive"}
+                            >
+                              {s.archived ? <ArchiveRestore className="h-3.5 w-3.5" /> : <Archive className="h-3.5 w-3.5" />}
+                            </button>
+                            <button
+                              type="button"
+                              disabled={busy}
+                              onClick={() => setConfirmDeleteId(s.id)}
+                              className={iconButton}
+                              aria-label="Delete chat"
+                              title="Delete"
+                            >
+                              <Trash2 className="h-3.5 w-3.5" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+
+          {loading && <div className={`mt-4 text-xs ${muted}`}>Loading…</div>}
+          {nextOffset != null && !loading && (
+            <div ref={sentinelRef} className="mt-4 flex justify-center">
+              <button
+                type="button"
+                onClick={() => void loadPage(nextOffset)}
+                className={`rounded-full border px-3 py-1 text-xs font-semibold ${control}`}
+              >
+                Load more
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+"use client";
+
+import { useState, type ReactNode } from "react";
+import { getLanguageAdapter, LANGUAGE_IDS } from "@/lib/languages";
+import type { SpecSlot } from "@/lib/specSlot";
+import {
+  allowedProblemStyles,
+  DEFAULT_SPEC_FORM_VALUES,
+  DIFFICULTIES,
+  MAX_PROBLEM_COUNT,
+  mergeTopicTags,
+  MIN_PROBLEM_COUNT,
+  rebalanceDifficultyPlan,
+  sumDifficultyPlan,
+  validateSpecForm,
+  type ProblemStyle,
+  type SpecFormErrors,
+  type SpecFormValues,
+} from "@/lib/specForm";
+
+const STYLE_LABELS: Record<ProblemStyle, string> = {
+  return: "Return value",
+  stdout: "Console output",
+  mixed: "Both",
+};
+
+function Field(props: {
+  label: string;
+  error?: string;
+  pending: boolean;
+  darkMode: boolean;
+  children: ReactNode;
+}) {
+  const { label, error, pending, darkMode, children } = props;
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-2">
+        <span className={`text-xs font-semibold ${darkMode ? "text-slate-200" : "text-slate-800"}`}>{label}</span>
+        {pending && (
+          <span className={`rounded-full px-2 py-0.5 text-[10px] ${darkMode ? "bg-sky-900/50 text-sky-200" : "bg-sky-50 text-sky-700"}`}>
+            asked next
+          </span>
+        )}
+      </div>
+      {children}
+      {error && <div className={`text-xs ${darkMode ? "text-rose-300" : "text-rose-600"}`}>{error}</div>}
+    </div>
+  );
+}
+
+/**
+ * Structured alternative to answering the spec questions in chat. `onSubmit` sends the answers
+ * and resolves with the fields the backend rejected, which are shown next to those fields.
+ */
+export function SpecBuilderForm(props: {
+  darkMode: boolean;
+  disabled: boolean;
+  pendingSlot: SpecSlot["key"] | null;
+  onSubmit: (values: SpecFormValues) => Promise<SpecFormErrors>;
+}) {
+  const { darkMode, disabled, pendingSlot, onSubmit } = props;
+  const [values, setValues] = useState<SpecFormValues>(DEFAULT_SPEC_FORM_VALUES);
+  const [errors, setErrors] = useState<SpecFormErrors>({});
+  const [tagDraft, setTagDraft] = useState("");
+
+  const update = (patch: Partial<SpecFormValues>, clear: Array<SpecSlot["key"]>) => {
+    setValues((prev) => ({ ...prev, ...patch }));
+    setErrors((prev) => {
+      const next = { ...prev };
+      for (const key of clear) delete next[key];
+      return next;
+    });
+  };
+
+  const setCount = (count: number) => {
+    const problem_count = Math.max(MIN_PROBLEM_COUNT, Math.min(MAX_PROBLEM_COUNT, count));
+    update(
+      { problem_count, difficulty_plan: rebalanceDifficultyPlan(values.difficulty_plan, problem_count) },
+      ["problem_count", "difficulty_plan"],
+    );
+  };
+
+  const addTags = (raw: string) => {
+    const topic_tags = mergeTopicTags(values.topic_tags, raw);
+    if (topic_tags.length !== values.topic_tags.length) update({ topic_tags }, ["topic_tags"]);
+    setTagDraft("");
+  };
+
+  async function handleSubmit() {
+    // A tag still being typed counts, split and deduped like committed ones.
+    const submitted = tagDraft.trim()
+      ? { ...values, topic_tags: mergeTopicTags(values.topic_tags, tagDraft) }
+      : values;
+    if (tagDraft.trim()) {
+      setValues(submitted);
+      setTagDraft("");
+    }
+    const local = validateSpecForm(submitted);
+    setErrors(local);
+    if (Object.keys(local).length > 0) return;
+    setErrors(await onSubmit(submitted));
+  }
+
+  const input = darkMode
+    ? "border-slate-800 bg-slate-900 text-slate-100 placeholder-slate-500 focus:border-sky-400"
+    : "border-slate-200 bg-white text-slate-900 placeholder-slate-400 focus:border-sky-500";
+  const chip = (active: boolean) =>
+    active
+      ? "border-sky-500 bg-sky-600 text-white"
+      : darkMode
+        ? "border-slate-800 bg-slate-900 text-slate-200 hover:bg-slate-800"
+        : "border-slate-200 bg-white text-slate-700 hover:bg-slate-50";
+  const styles = allowedProblemStyles(values.language);
+  const planTotal = sumDifficultyPlan(values.difficulty_plan);
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={(e) => {
+        e.preventDefault();
+        void handleSubmit();
+      }}
+    >
+      <fieldset disabled={disabled} className="space-y-4 disabled:opacity-60">
+        <Field label="Language" error={errors.language} pending={pendingSlot === "language"} darkMode={darkMode}>
+          <div className="flex flex-wrap gap-2">
+            {LANGUAGE_IDS.map((id) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() => {
+                  const patch: Partial<SpecFormValues> = { language: id };
+                  if (!allowedProblemStyles(id).includes(values.problem_style)) {
+                    patch.problem_style = allowedProblemStyles(id)[0];
+                  }
+                  update(patch, ["language", "problem_style"]);
+                }}
+                className={`rounded-full border px-3 py-1 text-xs font-medium transition ${chip(values.language === id)}`}
+              >
+                {getLanguageAdapter(id).label}
+              </button>
+            ))}
+          </div>
+        </Field>
+
+        <Field
+          label="Number of problems"
+          error={errors.problem_count}
+          pending={pendingSlot === "problem_count"}
+          darkMode={darkMode}
+        >
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setCount(values.problem_count - 1)}
+              disabled={values.problem_count <= MIN_PROBLEM_COUNT}
+              aria-label="Fewer problems"
+              className={`h-8 w-8 rounded-full border text-sm font-semibold disabled:opacity-40 ${chip(false)}`}
+            >
+              −
+            </button>
+            <span className="w-6 text-center text-sm font-semibold">{values.problem_count}</span>
+            <button
+              type="button"
+              onClick={() => setCount(values.problem_count + 1)}
+              disabled={values.problem_count >= MAX_PROBLEM_COUNT}
+              aria-label="More problems"
+              className={`h-8 w-8 rounded-full border text-sm font-semibold disabled:opacity-40 ${chip(false)}`}
+            >
+              +
+            </button>
+          </div>
+        </Field>
+
+        <Field
+          label={`Difficulty (${planTotal}/${values.problem_count})`}
+          error={errors.difficulty_plan}
+          pending={pendingSlot === "difficulty_plan"}
+          darkMode={darkMode}
+        >
+          <div className="space-y-1.5">
+            {DIFFICULTIES.map((d) => (
+              <label key={d} className="flex items-center gap-3 text-xs">
+                <span className="w-14 capitalize">{d}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={values.problem_count}
+                  value={values.difficulty_plan[d]}
+                  onChange={(e) =>
+                    update(
+                      {
+                        difficulty_plan: rebalanceDifficultyPlan(values.difficulty_plan, values.problem_count, {
+                          key: d,
+                          value: Number(e.target.value),
+                        }),
+                      },
+                      ["difficulty_plan"],
+                    )
+                  }
+                  className="flex-1 accent-sky-600"
+                />
+                <span className="w-4 text-right font-mono">{values.difficulty_plan[d]}</span>
+              </label>
+            ))}
+          </div>
+        </Field>
+
+        <Field label="Topics" error={errors.topic_tags} pending={pendingSlot === "topic_tags"} darkMode={darkMode}>
+          <div className="flex flex-wrap items-center gap-2">
+            {values.topic_tags.map((tag) => (
+              <span key={tag} className={`inline-flex items-center gap-1 rounded-full border px-3 py-1 text-xs ${chip(false)}`}>
+                {tag}
+                <button
+                  type="button"
+                  aria-label={`Remove ${tag}`}
+                  onClick={() => update({ topic_tags: values.topic_tags.filter((t) => t !== tag) }, ["topic_tags"])}
+                  className="opacity-60 hover:opacity-100"
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+            <input
+              value={tagDraft}
+              onChange={(e) => {
+                const next = e.target.value;
+                if (next.includes(",")) addTags(next);
+                else setTagDraft(next);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  addTags(tagDraft);
+                } else if (e.key === "Backspace" && !tagDraft && values.topic_tags.length > 0) {
+                  update({ topic_tags: values.topic_tags.slice(0, -1) }, ["topic_tags"]);
+                }
+              }}
+              placeholder={values.topic_tags.length ? "Add another" : "e.g. arrays, recursion"}
+              className={`min-w-[10rem] flex-1 rounded-full border px-3 py-1 text-xs outline-none ${input}`}
+            />
+          </div>
+        </Field>
+
+        <Field
+          label="How solutions are checked"
+          error={errors.problem_style}
+          pending={pendingSlot === "problem_style"}
+          darkMode={darkMode}
+        >
+          <div className="flex flex-wrap gap-3 text-xs">
+            {styles.map((style) => (
+              <label key={style} className="flex items-center gap-1.5">
+                <input
+                  type="radio"
+                  name="problem_style"
+                  value={style}
+                  checked={values.problem_style === style}
+                  onChange={() => update({ problem_style: style }, ["problem_style"])}
+                  className="accent-sky-600"
+                />
+                {STYLE_LABELS[style]}
+              </label>
+            ))}
+          </div>
+        </Field>
+
+        <Field
+          label="Constraints (optional)"
+          error={errors.constraints}
+          pending={pendingSlot === "constraints"}
+          darkMode={darkMode}
+        >
+          <input
+            value={values.constraints}
+            onChange={(e) => update({ constraints: e.target.value }, ["constraints"])}
+            placeholder="Anything to note, or leave empty"
+            className={`w-full rounded-2xl border px-3 py-2 text-xs outline-none ${input}`}
+          />
+        </Field>
+
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            className={`rounded-full px-4 py-2 text-sm font-semibold text-white shadow-sm transition disabled:cursor-not-allowed ${
+              darkMode ? "bg-sky-600 hover:bg-sky-500" : "bg-slate-900 hover:bg-black"
+            }`}
+          >
+            Submit answers
+          </button>
+        </div>
+      </fieldset>
+    </form>
+  );
+}
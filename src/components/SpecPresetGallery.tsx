@@ -0,0 +1,146 @@
+"use client";
+
+import { Trash2 } from "lucide-react";
+import type { SpecPreset } from "@/lib/api";
+import { getLanguageAdapter } from "@/lib/languages";
+import { DIFFICULTIES, type SpecFormValues } from "@/lib/specForm";
+import { QUICK_START_PRESETS, specToFormValues } from "@/lib/specPresets";
+import { SPEC_FIELDS, type SpecFieldKey } from "@/lib/specSnapshot";
+
+export type PresetRun = {
+  name: string;
+  accepted: SpecFieldKey[];
+  current: SpecFieldKey | null;
+  done: boolean;
+  error: string | null;
+};
+
+function summarize(values: SpecFormValues): string {
+  const plan = DIFFICULTIES.filter((d) => values.difficulty_plan[d] > 0)
+    .map((d) => `${d}:${values.difficulty_plan[d]}`)
+    .join(" ");
+  return `${getLanguageAdapter(values.language).label} · ${values.problem_count} problems · ${plan}`;
+}
+
+/**
+ * Quick-start presets plus the user's saved ones. Applying a preset answers the spec questions
+ * one by one through the chat; `run` is that progress, shown in place of the gallery.
+ */
+export function SpecPresetGallery(props: {
+  darkMode: boolean;
+  disabled: boolean;
+  userPresets: SpecPreset[];
+  run: PresetRun | null;
+  onApply: (name: string, values: SpecFormValues) => void;
+  onDelete: (presetId: string) => void;
+  onDismissRun: () => void;
+}) {
+  const { darkMode, disabled, userPresets, run, onApply, onDelete, onDismissRun } = props;
+  const muted = darkMode ? "text-slate-400" : "text-slate-500";
+  const card = `rounded-2xl border px-3 py-2 text-left transition disabled:cursor-not-allowed disabled:opacity-60 ${
+    darkMode ? "border-slate-800 bg-slate-900/60 hover:bg-slate-800" : "border-slate-200 bg-white hover:bg-slate-50"
+  }`;
+
+  if (run) {
+    return (
+      <div
+        className={`rounded-2xl border px-4 py-3 text-xs ${
+          darkMode ? "border-slate-800 bg-slate-900/60 text-slate-200" : "border-slate-200 bg-slate-50 text-slate-700"
+        }`}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-semibold">Applying “{run.name}”</span>
+          {(run.done || run.error) && (
+            <button type="button" onClick={onDismissRun} className={`font-semibold ${muted}`}>
+              Dismiss
+            </button>
+          )}
+        </div>
+        <ul className="mt-2 flex flex-wrap gap-2">
+          {SPEC_FIELDS.map(({ key, label }) => {
+            const accepted = run.accepted.includes(key);
+            const current = run.current === key;
+            return (
+              <li
+                key={key}
+                className={`rounded-full px-2 py-0.5 ${
+                  accepted
+                    ? darkMode
+                      ? "bg-emerald-900/40 text-emerald-200"
+                      : "bg-emerald-50 text-emerald-700"
+                    : current
+                      ? darkMode
+                        ? "bg-sky-900/50 text-sky-200"
+                        : "bg-sky-50 text-sky-700"
+                      : muted
+                }`}
+              >
+                {accepted ? "✓ " : current ? "… " : ""}
+                {label}
+              </li>
+            );
+          })}
+        </ul>
+        {run.done && <div className="mt-2">Spec is ready. Review it in the spec panel, then click Generate.</div>}
+        {run.error && <div className={`mt-2 ${darkMode ? "text-rose-300" : "text-rose-600"}`}>{run.error}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className={`mb-2 text-[11px] font-semibold uppercase tracking-wide ${muted}`}>Quick start</div>
+        <div className="grid gap-2 sm:grid-cols-2">
+          {QUICK_START_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              type="button"
+              disabled={disabled}
+              onClick={() => onApply(preset.name, preset.values)}
+              className={card}
+            >
+              <div className="text-xs font-semibold">{preset.name}</div>
+              <div className={`text-[11px] ${muted}`}>{preset.description}</div>
+              <div className={`mt-1 text-[11px] ${muted}`}>{summarize(preset.values)}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {userPresets.length > 0 && (
+        <div>
+          <div className={`mb-2 text-[11px] font-semibold uppercase tracking-wide ${muted}`}>My presets</div>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {userPresets.map((preset) => {
+              const values = specToFormValues(preset.spec);
+              return (
+                <div key={preset.id} className="relative">
+                  <button
+                    type="button"
+                    disabled={disabled || !values}
+                    onClick={() => values && onApply(preset.name, values)}
+                    title={values ? undefined : "This preset is missing fields and cannot be applied"}
+                    className={`w-full pr-8 ${card}`}
+                  >
+                    <div className="truncate text-xs font-semibold">{preset.name}</div>
+                    <div className={`mt-1 text-[11px] ${muted}`}>{values ? summarize(values) : "Incomplete preset"}</div>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDelete(preset.id)}
+                    aria-label={`Delete preset ${preset.name}`}
+                    title="Delete preset"
+                    className={`absolute right-2 top-2 rounded-full p-1 ${muted} hover:text-rose-500`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
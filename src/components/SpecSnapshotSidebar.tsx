@@ -0,0 +1,193 @@
+"use client";
+
+import { useState } from "react";
+import type { ActivitySpecSnapshot } from "@/lib/api";
+import {
+  formatSpecFieldValue,
+  SPEC_FIELDS,
+  specFieldStatus,
+  type SpecFieldKey,
+  type SpecFieldStatus,
+} from "@/lib/specSnapshot";
+
+const STATUS_LABEL: Record<SpecFieldStatus, string> = {
+  confirmed: "Set",
+  needs_confirmation: "Confirm",
+  invalid: "Invalid",
+  pending: "Pending",
+};
+
+function statusClass(status: SpecFieldStatus, darkMode: boolean): string {
+  switch (status) {
+    case "confirmed":
+      return darkMode ? "bg-emerald-900/40 text-emerald-200" : "bg-emerald-50 text-emerald-700";
+    case "needs_confirmation":
+      return darkMode ? "bg-amber-900/40 text-amber-200" : "bg-amber-50 text-amber-800";
+    case "invalid":
+      return darkMode ? "bg-rose-900/40 text-rose-200" : "bg-rose-50 text-rose-700";
+    case "pending":
+      return darkMode ? "bg-slate-800 text-slate-400" : "bg-slate-100 text-slate-500";
+  }
+}
+
+/**
+ * Read-only view of the backend's spec snapshot with per-field status. Clicking a field opens
+ * an inline editor; `onRevise` sends the new value through the session messages endpoint.
+ */
+export function SpecSnapshotSidebar(props: {
+  spec: ActivitySpecSnapshot;
+  questionKey: string | null;
+  assumptions: string[];
+  darkMode: boolean;
+  disabled: boolean;
+  onRevise: (key: SpecFieldKey, value: string) => Promise<void>;
+  // Shown only when set, i.e. for signed-in users with a complete spec. Resolves with an
+  // error message, or null once saved.
+  onSavePreset?: (name: string) => Promise<string | null>;
+}) {
+  const { spec, questionKey, assumptions, darkMode, disabled, onRevise, onSavePreset } = props;
+  const [editing, setEditing] = useState<{ key: SpecFieldKey; value: string } | null>(null);
+  const [presetName, setPresetName] = useState<string | null>(null);
+  const [presetStatus, setPresetStatus] = useState<{ saving: boolean; message: string | null }>({
+    saving: false,
+    message: null,
+  });
+
+  async function submitEdit() {
+    if (!editing || !editing.value.trim()) return;
+    const { key, value } = editing;
+    setEditing(null);
+    await onRevise(key, value.trim());
+  }
+
+  async function savePreset() {
+    if (!onSavePreset || !presetName?.trim()) return;
+    setPresetStatus({ saving: true, message: null });
+    const error = await onSavePreset(presetName.trim());
+    if (!error) setPresetName(null);
+    setPresetStatus({ saving: false, message: error ?? "Preset saved." });
+  }
+
+  return (
+    <aside
+      className={`space-y-3 rounded-[28px] border p-4 text-sm shadow-xl ${
+        darkMode ? "border-slate-800 bg-slate-900/70 text-slate-200" : "border-slate-200 bg-white/85 text-slate-800"
+      }`}
+    >
+      <h2 className="text-xs font-semibold uppercase tracking-wide opacity-70">Activity spec</h2>
+      <ul className="space-y-2">
+        {SPEC_FIELDS.map(({ key, label }) => {
+          const value = formatSpecFieldValue(key, spec);
+          const status = specFieldStatus(key, spec, questionKey);
+          const isEditing = editing?.key === key;
+          return (
+            <li key={key} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-semibold">{label}</span>
+                <span className={`rounded-full px-2 py-0.5 text-[10px] font-semibold ${statusClass(status, darkMode)}`}>
+                  {STATUS_LABEL[status]}
+                </span>
+              </div>
+              {isEditing ? (
+                <form
+                  className="flex gap-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    void submitEdit();
+                  }}
+                >
+                  <input
+                    autoFocus
+                    value={editing.value}
+                    onChange={(e) => setEditing({ key, value: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === "Escape") setEditing(null);
+                    }}
+                    className={`min-w-0 flex-1 rounded-lg border px-2 py-1 text-xs outline-none ${
+                      darkMode ? "border-slate-700 bg-slate-900 text-slate-100" : "border-slate-300 bg-white text-slate-900"
+                    }`}
+                  />
+                  <button
+                    type="submit"
+                    disabled={!editing.value.trim()}
+                    className="rounded-lg bg-sky-600 px-2 py-1 text-xs font-semibold text-white disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </form>
+              ) : (
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => setEditing({ key, value: value ?? "" })}
+                  title="Click to change"
+                  className={`w-full rounded-lg px-2 py-1 text-left text-xs transition disabled:cursor-not-allowed ${
+                    darkMode ? "hover:bg-slate-800" : "hover:bg-slate-100"
+                  } ${value ? "" : "italic opacity-60"}`}
+                >
+                  {value ?? "Not set yet"}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {assumptions.length > 0 && (
+        <div className="space-y-1">
+          <h3 className="text-xs font-semibold opacity-70">Assumptions</h3>
+          <ul className="list-disc space-y-0.5 pl-4 text-xs opacity-80">
+            {assumptions.map((a, i) => (
+              <li key={i}>{a}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {onSavePreset && (
+        <div className="space-y-1">
+          {presetName == null ? (
+            <button
+              type="button"
+              onClick={() => {
+                setPresetName("");
+                setPresetStatus({ saving: false, message: null });
+              }}
+              className={`text-xs font-semibold ${darkMode ? "text-sky-300" : "text-sky-700"}`}
+            >
+              Save as preset
+            </button>
+          ) : (
+            <form
+              className="flex gap-1"
+              onSubmit={(e) => {
+                e.preventDefault();
+                void savePreset();
+              }}
+            >
+              <input
+                autoFocus
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Escape") setPresetName(null);
+                }}
+                placeholder="Preset name"
+                aria-label="Preset name"
+                className={`min-w-0 flex-1 rounded-lg border px-2 py-1 text-xs outline-none ${
+                  darkMode ? "border-slate-700 bg-slate-900 text-slate-100" : "border-slate-300 bg-white text-slate-900"
+                }`}
+              />
+              <button
+                type="submit"
+                disabled={!presetName.trim() || presetStatus.saving}
+                className="rounded-lg bg-sky-600 px-2 py-1 text-xs font-semibold text-white disabled:opacity-50"
+              >
+                Save
+              </button>
+            </form>
+          )}
+          {presetStatus.message && <div className="text-[11px] opacity-70">{presetStatus.message}</div>}
+        </div>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  compareSqlResults,
+  diffSqlResults,
+  type SqlGridMarks,
+  type SqlResultSet,
+  type SqlRowMark,
+  type SqlValue,
+} from "@/lib/sqlSuite";
+
+type SortState = { column: number; dir: "asc" | "desc" } | null;
+
+function compareValues(a: SqlValue | undefined, b: SqlValue | undefined): number {
+  // NULLs sort first, like SQLite's ORDER BY.
+  if (a == null || b == null) return a == null ? (b == null ? 0 : -1) : 1;
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+}
+
+const ROW_CLASS: Record<SqlRowMark, string> = {
+  match: "",
+  mismatch: "bg-amber-50",
+  missing: "bg-rose-50",
+  extra: "bg-rose-50",
+};
+
+const ROW_LABEL: Record<SqlRowMark, string | null> = {
+  match: null,
+  mismatch: "differs",
+  missing: "missing",
+  extra: "extra",
+};
+
+/**
+ * A result set as a table. Clicking a header cycles ascending → descending → original order;
+ * sorting only changes the view, so `marks` stay attached to their rows.
+ */
+export function SqlResultGrid(props: { result: SqlResultSet; marks?: SqlGridMarks; maxHeightClass?: string }) {
+  const { result, marks, maxHeightClass = "max-h-56" } = props;
+  const [sort, setSort] = useState<SortState>(null);
+
+  const order = useMemo(() => {
+    const idx = result.rows.map((_, i) => i);
+    if (!sort) return idx;
+    const sign = sort.dir === "asc" ? 1 : -1;
+    return idx.sort((a, b) => sign * compareValues(result.rows[a]?.[sort.column], result.rows[b]?.[sort.column]) || a - b);
+  }, [result, sort]);
+
+  const toggleSort = (column: number) =>
+    setSort((prev) => {
+      if (!prev || prev.column !== column) return { column, dir: "asc" };
+      return prev.dir === "asc" ? { column, dir: "desc" } : null;
+    });
+
+  if (result.columns.length === 0) {
+    return <div className="text-[11px] text-slate-500">No result set.</div>;
+  }
+
+  return (
+    <div className={`${maxHeightClass} overflow-auto rounded border border-slate-200 bg-white`}>
+      <table className="w-full border-collapse font-mono text-[11px]">
+        <thead className="sticky top-0 bg-slate-100">
+          <tr>
+            {result.columns.map((c, i) => (
+              <th
+                key={i}
+                className={`border-b border-slate-200 px-2 py-1 text-left font-semibold ${
+                  marks?.columns[i] ? "bg-rose-100 text-rose-900" : "text-slate-800"
+                }`}
+              >
+                <button onClick={() => toggleSort(i)} className="flex items-center gap-1 hover:underline">
+                  {c}
+                  <span className="text-slate-400">
+                    {sort?.column === i ? (sort.dir === "asc" ? "▲" : "▼") : ""}
+                  </span>
+                </button>
+              </th>
+            ))}
+            {marks && <th className="w-px border-b border-slate-200" />}
+          </tr>
+        </thead>
+        <tbody>
+          {order.map((r) => {
+            const row = result.rows[r] ?? [];
+            const mark = marks?.rows[r] ?? "match";
+            const label = ROW_LABEL[mark];
+            return (
+              <tr key={r} className={`border-b border-slate-100 ${ROW_CLASS[mark]}`}>
+                {result.columns.map((_, c) => {
+                  const v = row[c];
+                  const bad = mark === "mismatch" && marks?.cells[r]?.[c];
+                  return (
+                    <td key={c} className={`px-2 py-0.5 text-slate-800 ${bad ? "bg-rose-100 font-semibold text-rose-900" : ""}`}>
+                      {v == null ? (
+                        <span className="rounded bg-slate-200 px-1 text-[10px] font-semibold text-slate-600">NULL</span>
+                      ) : (
+                        String(v)
+                      )}
+                    </td>
+                  );
+                })}
+                {marks && (
+                  <td className="whitespace-nowrap px-2 text-[10px] font-semibold text-rose-700">{label ?? ""}</td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/** Expected and actual result sets side by side, with mismatching rows/cells highlighted. */
+export function SqlResultComparison(props: {
+  expected: SqlResultSet;
+  actual: SqlResultSet | null;
+  orderMatters: boolean;
+}) {
+  const { expected, actual, orderMatters } = props;
+  const diff = useMemo(
+    () => (actual ? diffSqlResults(expected, actual, orderMatters) : null),
+    [actual, expected, orderMatters],
+  );
+  const comparison = actual ? compareSqlResults(expected, actual, orderMatters) : null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-[11px]">
+        {comparison && (
+          <span className={comparison.match ? "font-semibold text-emerald-700" : "font-semibold text-rose-700"}>
+            {comparison.match ? "Results match" : comparison.message}
+          </span>
+        )}
+        <span className="rounded-full bg-slate-100 px-2 py-0.5 text-slate-600">
+          {orderMatters ? "Row order matters" : "Row order ignored"}
+        </span>
+      </div>
+      <div className="grid gap-2 md:grid-cols-2">
+        <div className="space-y-1">
+          <div className="text-[11px] font-semibold text-slate-900">
+            Expected · {expected.rows.length} row{expected.rows.length === 1 ? "" : "s"}
+          </div>
+          <SqlResultGrid result={expected} marks={diff?.expected} />
+        </div>
+        <div className="space-y-1">
+          <div className="text-[11px] font-semibold text-slate-900">
+            Yours{actual ? ` · ${actual.rows.length} row${actual.rows.length === 1 ? "" : "s"}` : ""}
+          </div>
+          {actual ? (
+            <SqlResultGrid result={actual} marks={diff?.actual} />
+          ) : (
+            <div className="rounded border border-slate-200 bg-white p-2 text-[11px] text-slate-500">(not available)</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { runSqlInSandbox, SqlSandboxError } from "@/lib/sqlSandbox";
+import { compareSqlResults, type SqlComparison, type SqlResultSet, type SqlSuite } from "@/lib/sqlSuite";
+import { SqlResultComparison, SqlResultGrid } from "./SqlResultGrid";
+
+type SandboxRun =
+  | {
+      status: "ok";
+      caseName: string;
+      result: SqlResultSet;
+      expected: SqlResultSet;
+      orderMatters: boolean;
+      comparison: SqlComparison;
+    }
+  | { status: "error"; caseName: string; message: string };
+
+/**
+ * Runs the learner's query against the suite's schema + one case's seed data in an in-browser
+ * SQLite, so they can check results without spending a judge submission.
+ */
+export function SqlSandboxPanel(props: { suite: SqlSuite; query: string }) {
+  const { suite, query } = props;
+  const [caseIndex, setCaseIndex] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [run, setRun] = useState<SandboxRun | null>(null);
+  const selectedCase = suite.cases[caseIndex] ?? suite.cases[0];
+
+  async function handleRunLocally() {
+    if (!selectedCase) return;
+    setRunning(true);
+    try {
+      const result = await runSqlInSandbox({ schemaSql: suite.schema_sql, seedSql: selectedCase.seed_sql, query });
+      setRun({
+        status: "ok",
+        caseName: selectedCase.name,
+        result,
+        expected: selectedCase.expected,
+        orderMatters: selectedCase.order_matters === true,
+        comparison: compareSqlResults(selectedCase.expected, result, selectedCase.order_matters === true),
+      });
+    } catch (e) {
+      const message =
+        e instanceof SqlSandboxError && e.phase !== "query"
+          ? `${e.message} (while loading the ${e.phase === "load" ? "sandbox" : `${e.phase} SQL`})`
+          : e instanceof Error
+            ? e.message
+            : String(e);
+      setRun({ status: "error", caseName: selectedCase.name, message });
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  if (!selectedCase) return null;
+
+  return (
+    <div className="space-y-2 rounded-xl border border-slate-200 bg-slate-50 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-[11px] font-semibold text-slate-900">
+          SQL sandbox
+          <select
+            value={String(caseIndex)}
+            onChange={(e) => setCaseIndex(Number(e.target.value))}
+            className="rounded-md border border-slate-300 bg-white px-2 py-1 text-[11px] font-normal text-slate-800"
+          >
+            {suite.cases.map((c, i) => (
+              <option key={c.name} value={String(i)}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={handleRunLocally}
+          disabled={running || !query.trim()}
+          className="rounded-full border border-slate-300 bg-white px-3 py-1 text-[11px] font-medium text-slate-800 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {running ? "Running..." : "Run locally"}
+        </button>
+      </div>
+      <p className="text-[11px] text-slate-500">
+        Runs solution.sql in your browser against this case&apos;s data. Only “Run tests” counts as a submission.
+      </p>
+
+      {run && run.status === "error" && (
+        <pre className="max-h-32 overflow-auto whitespace-pre-wrap rounded bg-rose-50/60 p-2 font-mono text-[11px] text-rose-800">
+          {run.message}
+        </pre>
+      )}
+      {run && run.status === "ok" && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <span
+              className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${
+                run.comparison.match ? "bg-emerald-50 text-emerald-700" : "bg-rose-50 text-rose-700"
+              }`}
+            >
+              {run.comparison.match ? "✓ Matches expected" : "✗ Differs from expected"}
+            </span>
+            <span className="text-[11px] text-slate-500">
+              {run.caseName} · {run.result.rows.length} row{run.result.rows.length === 1 ? "" : "s"}
+            </span>
+          </div>
+          {run.comparison.match ? (
+            <SqlResultGrid result={run.result} />
+          ) : (
+            <SqlResultComparison
+              expected={run.expected}
+              actual={run.result}
+              orderMatters={run.orderMatters}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
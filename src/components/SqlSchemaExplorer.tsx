@@ -0,0 +1,227 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { parseSqlSchema, type SqlTable } from "@/lib/sqlSchema";
+
+const CARD_WIDTH = 180;
+const HEADER_HEIGHT = 24;
+const ROW_HEIGHT = 18;
+const GAP_X = 48;
+const GAP_Y = 28;
+const PADDING = 8;
+const MAX_DIAGRAM_COLUMNS = 2;
+
+type CardLayout = { table: SqlTable; x: number; y: number; height: number };
+
+type Edge = {
+  key: string;
+  from: string;
+  to: string;
+  path: string;
+};
+
+function layoutTables(tables: SqlTable[]): { cards: CardLayout[]; width: number; height: number } {
+  const perRow = Math.max(1, Math.min(MAX_DIAGRAM_COLUMNS, tables.length));
+  const cards: CardLayout[] = [];
+  let y = PADDING;
+  for (let start = 0; start < tables.length; start += perRow) {
+    const row = tables.slice(start, start + perRow);
+    let rowHeight = 0;
+    row.forEach((table, i) => {
+      const height = HEADER_HEIGHT + Math.max(1, table.columns.length) * ROW_HEIGHT + 4;
+      rowHeight = Math.max(rowHeight, height);
+      cards.push({ table, x: PADDING + i * (CARD_WIDTH + GAP_X), y, height });
+    });
+    y += rowHeight + GAP_Y;
+  }
+  return {
+    cards,
+    width: PADDING * 2 + perRow * CARD_WIDTH + (perRow - 1) * GAP_X,
+    height: Math.max(y - GAP_Y + PADDING, HEADER_HEIGHT + PADDING * 2),
+  };
+}
+
+function columnAnchorY(card: CardLayout, column: string | null): number {
+  const idx = column ? card.table.columns.findIndex((c) => c.name.toLowerCase() === column.toLowerCase()) : -1;
+  if (idx < 0) return card.y + HEADER_HEIGHT / 2;
+  return card.y + HEADER_HEIGHT + idx * ROW_HEIGHT + ROW_HEIGHT / 2;
+}
+
+function buildEdges(cards: CardLayout[]): Edge[] {
+  const byName = new Map(cards.map((c) => [c.table.name.toLowerCase(), c]));
+  const edges: Edge[] = [];
+  for (const card of cards) {
+    card.table.foreignKeys.forEach((fk, i) => {
+      const target = byName.get(fk.refTable.toLowerCase());
+      if (!target) return;
+      const y1 = columnAnchorY(card, fk.columns[0] ?? null);
+      const y2 = columnAnchorY(target, fk.refColumns[0] ?? null);
+      let path: string;
+      if (target === card || target.x === card.x) {
+        // Same diagram column (or a self reference): loop out on the right-hand side.
+        const x = card.x + CARD_WIDTH;
+        path = `M ${x} ${y1} C ${x + GAP_X / 2 + 8} ${y1}, ${x + GAP_X / 2 + 8} ${y2}, ${x} ${y2}`;
+      } else {
+        const leftToRight = target.x > card.x;
+        const x1 = leftToRight ? card.x + CARD_WIDTH : card.x;
+        const x2 = leftToRight ? target.x : target.x + CARD_WIDTH;
+        const mid = (x1 + x2) / 2;
+        path = `M ${x1} ${y1} C ${mid} ${y1}, ${mid} ${y2}, ${x2} ${y2}`;
+      }
+      edges.push({ key: `${card.table.name}:${i}`, from: card.table.name, to: target.table.name, path });
+    });
+  }
+  return edges;
+}
+
+/**
+ * Schema view for SQL problems: an ER diagram of the suite's tables plus a column list.
+ * Clicking a table (or column) name calls `onInsert` so the page can drop it into the editor.
+ */
+export function SqlSchemaExplorer(props: { schemaSql: string; onInsert: (text: string) => void }) {
+  const { schemaSql, onInsert } = props;
+  const schema = useMemo(() => parseSqlSchema(schemaSql), [schemaSql]);
+  const { cards, width, height } = useMemo(() => layoutTables(schema.tables), [schema]);
+  const edges = useMemo(() => buildEdges(cards), [cards]);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [showSource, setShowSource] = useState(false);
+
+  const related = useMemo(() => {
+    if (!hovered) return null;
+    const names = new Set([hovered]);
+    for (const e of edges) {
+      if (e.from === hovered) names.add(e.to);
+      if (e.to === hovered) names.add(e.from);
+    }
+    return names;
+  }, [edges, hovered]);
+
+  if (schema.tables.length === 0) {
+    return (
+      <pre className="max-h-48 overflow-auto rounded border border-slate-200 bg-white p-2 font-mono text-[11px] text-slate-800">
+        {schemaSql}
+      </pre>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto rounded border border-slate-200 bg-white">
+        <svg
+          viewBox={`0 0 ${width} ${height}`}
+          width={width}
+          height={height}
+          className="max-w-full"
+          role="img"
+          aria-label="Entity relationship diagram"
+        >
+          <defs>
+            <marker id="codem-er-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="7" markerHeight="7" orient="auto">
+              <path d="M 0 0 L 8 4 L 0 8 z" fill="#64748b" />
+            </marker>
+          </defs>
+          {edges.map((e) => {
+            const active = hovered != null && (e.from === hovered || e.to === hovered);
+            return (
+              <path
+                key={e.key}
+                d={e.path}
+                fill="none"
+                stroke={active ? "#2563eb" : "#94a3b8"}
+                strokeWidth={active ? 2 : 1.25}
+                markerEnd="url(#codem-er-arrow)"
+              />
+            );
+          })}
+          {cards.map(({ table, x, y, height: h }) => {
+            const dimmed = related != null && !related.has(table.name);
+            return (
+              <g
+                key={table.name}
+                onMouseEnter={() => setHovered(table.name)}
+                onMouseLeave={() => setHovered(null)}
+                onClick={() => onInsert(table.name)}
+                opacity={dimmed ? 0.35 : 1}
+                className="cursor-pointer"
+              >
+                <title>{`Insert "${table.name}" into the editor`}</title>
+                <rect x={x} y={y} width={CARD_WIDTH} height={h} rx={6} fill="#ffffff" stroke={hovered === table.name ? "#2563eb" : "#cbd5e1"} />
+                <path
+                  d={`M ${x} ${y + HEADER_HEIGHT} V ${y + 6} a 6 6 0 0 1 6 -6 H ${x + CARD_WIDTH - 6} a 6 6 0 0 1 6 6 V ${y + HEADER_HEIGHT} Z`}
+                  fill="#f1f5f9"
+                />
+                <text x={x + 8} y={y + 16} fontSize={11} fontWeight={600} fill="#0f172a">
+                  {table.name}
+                </text>
+                {table.columns.map((col, i) => {
+                  const rowY = y + HEADER_HEIGHT + i * ROW_HEIGHT + 13;
+                  return (
+                    <g key={col.name}>
+                      <text x={x + 8} y={rowY} fontSize={10} fill="#0f172a" fontFamily="monospace">
+                        {col.primaryKey ? "🔑 " : col.references ? "↗ " : ""}
+                        {col.name}
+                      </text>
+                      <text x={x + CARD_WIDTH - 8} y={rowY} fontSize={9} fill="#64748b" textAnchor="end" fontFamily="monospace">
+                        {col.type.length > 14 ? `${col.type.slice(0, 13)}…` : col.type}
+                      </text>
+                    </g>
+                  );
+                })}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="space-y-2">
+        {schema.tables.map((table) => (
+          <div key={table.name} className="rounded border border-slate-200 bg-white p-2">
+            <button
+              onClick={() => onInsert(table.name)}
+              title={`Insert "${table.name}" into the editor`}
+              className="font-mono text-[11px] font-semibold text-blue-700 hover:underline"
+            >
+              {table.name}
+            </button>
+            <ul className="mt-1 space-y-0.5">
+              {table.columns.map((col) => (
+                <li key={col.name} className="flex flex-wrap items-center gap-1.5 text-[11px] text-slate-700">
+                  <button
+                    onClick={() => onInsert(col.name)}
+                    title={`Insert "${col.name}" into the editor`}
+                    className="font-mono text-slate-900 hover:underline"
+                  >
+                    {col.name}
+                  </button>
+                  {col.type && <span className="font-mono text-slate-500">{col.type}</span>}
+                  {col.primaryKey && (
+                    <span className="rounded bg-amber-50 px-1 text-[10px] font-semibold text-amber-800">PK</span>
+                  )}
+                  {col.references && (
+                    <span className="rounded bg-blue-50 px-1 text-[10px] font-semibold text-blue-800">
+                      FK → {col.references.table}
+                      {col.references.column ? `.${col.references.column}` : ""}
+                    </span>
+                  )}
+                  {col.notNull && !col.primaryKey && <span className="text-[10px] text-slate-400">NOT NULL</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => setShowSource((v) => !v)}
+        className="text-[11px] font-medium text-slate-600 hover:text-slate-900"
+      >
+        {showSource ? "Hide schema SQL" : "Show schema SQL"}
+      </button>
+      {showSource && (
+        <pre className="max-h-48 overflow-auto rounded border border-slate-200 bg-white p-2 font-mono text-[11px] text-slate-800">
+          {schemaSql}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+import { readFileSync } from "node:fs";
+
+/** Reads a recorded text fixture by its path under `src/lib/__fixtures__/`. */
+export function readFixture(path: string): string {
+  return readFileSync(new URL(`./${path}`, import.meta.url), "utf8");
+}
@@ -0,0 +1,178 @@
+import { apiRequest } from "./client";
+import type {
+  Activity,
+  ActivityPatch,
+  CommunityPublishRequest,
+  CommunityPublishResponse,
+  Problem,
+  ProfileActivity,
+} from "./types";
+import {
+  asRecord,
+  nullableString,
+  optionalNumber,
+  optionalString,
+  optionalStringArray,
+  parseAnyObject,
+  safeText,
+} from "./validate";
+
+const FILE_ROLES = new Set(["entry", "support", "readonly"]);
+
+function parseWorkspace(x: unknown): Problem["workspace"] {
+  const w = asRecord(x);
+  if (!w || !Array.isArray(w.files)) return undefined;
+  const files: NonNullable<Problem["workspace"]>["files"] = [];
+  for (const raw of w.files) {
+    const f = asRecord(raw);
+    if (!f || typeof f.path !== "string" || typeof f.content !== "string") continue;
+    const role = FILE_ROLES.has(f.role as string) ? (f.role as "entry" | "support" | "readonly") : "support";
+    files.push({ path: f.path, role, content: f.content });
+  }
+  if (files.length === 0) return undefined;
+  return { files, entrypoint: optionalString(w.entrypoint) };
+}
+
+function parseProblem(raw: unknown): Problem | null {
+  const p = asRecord(raw);
+  const id = safeText(p?.id);
+  if (!p || !id) return null;
+  const pedagogy = asRecord(p.pedagogy);
+  return {
+    id,
+    title: safeText(p.title),
+    description: safeText(p.description),
+    constraints: safeText(p.constraints),
+    language: optionalString(p.language) as Problem["language"],
+    starter_code: optionalString(p.starter_code),
+    classSkeleton: optionalString(p.classSkeleton),
+    test_suite: optionalString(p.test_suite),
+    testSuite: optionalString(p.testSuite),
+    workspace: parseWorkspace(p.workspace),
+    sample_inputs: optionalStringArray(p.sample_inputs),
+    sampleInputs: optionalStringArray(p.sampleInputs),
+    sample_outputs: optionalStringArray(p.sample_outputs),
+    sampleOutputs: optionalStringArray(p.sampleOutputs),
+    difficulty: optionalString(p.difficulty),
+    topic_tag: optionalString(p.topic_tag),
+    ...(pedagogy
+      ? {
+          pedagogy: {
+            scaffold_level: optionalNumber(pedagogy.scaffold_level),
+            learning_goal: optionalString(pedagogy.learning_goal),
+            hints_enabled: typeof pedagogy.hints_enabled === "boolean" ? pedagogy.hints_enabled : undefined,
+          },
+        }
+      : {}),
+  };
+}
+
+export function parseActivity(raw: unknown): Activity | null {
+  const a = asRecord(raw);
+  const id = safeText(a?.id);
+  if (!a || !id || !Array.isArray(a.problems)) return null;
+  return {
+    id,
+    title: safeText(a.title),
+    prompt: safeText(a.prompt),
+    problems: a.problems.map(parseProblem).filter((p): p is Problem => p != null),
+    createdAt: safeText(a.createdAt),
+    status: a.status === "DRAFT" || a.status === "PUBLISHED" ? a.status : undefined,
+    timeLimitSeconds: typeof a.timeLimitSeconds === "number" ? a.timeLimitSeconds : null,
+    communityPublishedAt: nullableString(a.communityPublishedAt),
+    communitySummary: nullableString(a.communitySummary),
+    communityTags: optionalStringArray(a.communityTags),
+  };
+}
+
+function parseActivityEnvelope(data: unknown): Activity | null {
+  return parseActivity(asRecord(data)?.activity);
+}
+
+export function getActivity(activityId: string, options: { auth?: "required" | "optional" } = {}): Promise<Activity> {
+  return apiRequest(`/activities/${encodeURIComponent(activityId)}`, {
+    auth: options.auth ?? "optional",
+    parse: parseActivityEnvelope,
+    errorMessage: "Failed to load activity",
+  });
+}
+
+export function listActivities(): Promise<ProfileActivity[]> {
+  return apiRequest("/activities", {
+    auth: "required",
+    parse: (data) => {
+      const items = asRecord(data)?.activities;
+      if (!Array.isArray(items)) return [];
+      const out: ProfileActivity[] = [];
+      for (const raw of items) {
+        const a = asRecord(raw);
+        const id = safeText(a?.id);
+        if (!a || !id) continue;
+        out.push({
+          id,
+          title: safeText(a.title),
+          prompt: safeText(a.prompt),
+          problemCount: optionalNumber(a.problemCount) ?? (Array.isArray(a.problems) ? a.problems.length : 0),
+          createdAt: safeText(a.createdAt),
+        });
+      }
+      return out;
+    },
+    errorMessage: "Failed to load activities",
+  });
+}
+
+/** Returns the updated activity when the backend echoes it back. */
+export function updateActivity(activityId: string, patch: ActivityPatch): Promise<Activity | null> {
+  return apiRequest(`/activities/${encodeURIComponent(activityId)}`, {
+    method: "PATCH",
+    auth: "required",
+    body: patch,
+    parse: (data) => ({ activity: parseActivityEnvelope(data) }),
+    errorMessage: "Failed to save",
+  }).then((r) => r.activity);
+}
+
+export function aiEditProblem(activityId: string, problemId: string, instruction: string): Promise<Activity | null> {
+  return apiRequest(
+    `/activities/${encodeURIComponent(activityId)}/problems/${encodeURIComponent(problemId)}/ai-edit`,
+    {
+      method: "POST",
+      auth: "required",
+      body: { instruction },
+      parse: (data) => ({ activity: parseActivityEnvelope(data) }),
+      errorMessage: "Failed to edit problem",
+    },
+  ).then((r) => r.activity);
+}
+
+export async function publishActivity(activityId: string): Promise<void> {
+  await apiRequest(`/activities/${encodeURIComponent(activityId)}/publish`, {
+    method: "POST",
+    auth: "required",
+    parse: parseAnyObject,
+    errorMessage: "Failed to publish",
+  });
+}
+
+export function publishActivityToCommunity(
+  activityId: string,
+  request: CommunityPublishRequest,
+): Promise<CommunityPublishResponse> {
+  return apiRequest(`/activities/${encodeURIComponent(activityId)}/community/publish`, {
+    method: "POST",
+    auth: "required",
+    body: request,
+    parse: (data) => ({ communityPublishedAt: nullableString(asRecord(data)?.communityPublishedAt) }),
+    errorMessage: "Failed to publish to community",
+  });
+}
+
+export async function unpublishActivityFromCommunity(activityId: string): Promise<void> {
+  await apiRequest(`/activities/${encodeURIComponent(activityId)}/community/unpublish`, {
+    method: "POST",
+    auth: "required",
+    parse: parseAnyObject,
+    errorMessage: "Failed to unpublish",
+  });
+}
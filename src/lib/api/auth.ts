@@ -0,0 +1,41 @@
+import { parseAuthUser } from "./authStorage";
+import { apiRequest } from "./client";
+import type { AuthResponse, AuthUser, RegisterRequest } from "./types";
+import { asRecord, safeText } from "./validate";
+
+function parseAuthResponse(data: unknown): AuthResponse | null {
+  const d = asRecord(data);
+  const token = safeText(d?.token);
+  const user = parseAuthUser(d?.user);
+  if (!token || !user) return null;
+  return { token, user };
+}
+
+export function login(username: string, password: string): Promise<AuthResponse> {
+  return apiRequest("/auth/login", {
+    method: "POST",
+    auth: "none",
+    body: { username, password },
+    parse: parseAuthResponse,
+    errorMessage: "Login failed",
+  });
+}
+
+export function register(request: RegisterRequest): Promise<AuthResponse> {
+  return apiRequest("/auth/register", {
+    method: "POST",
+    auth: "none",
+    body: request,
+    parse: parseAuthResponse,
+    errorMessage: "Registration failed",
+  });
+}
+
+export function getCurrentUser(): Promise<AuthUser> {
+  return apiRequest("/auth/me", {
+    auth: "required",
+    onUnauthorized: "logout",
+    parse: (data) => parseAuthUser(asRecord(data)?.user ?? data),
+    errorMessage: "Failed to load current user",
+  });
+}
@@ -0,0 +1,52 @@
+import type { AuthUser } from "./types";
+import { asRecord, safeText } from "./validate";
+
+const TOKEN_KEY = "codem-token";
+const USER_KEY = "codem-user";
+
+export function parseAuthUser(raw: unknown): AuthUser | null {
+  const u = asRecord(raw);
+  if (!u || (typeof u.id !== "number" && typeof u.id !== "string")) return null;
+  const username = safeText(u.username);
+  return {
+    id: Number(u.id),
+    username,
+    email: safeText(u.email),
+    displayName: safeText(u.displayName) || safeText(u.display_name) || username,
+  };
+}
+
+export function getAuthToken(): string | null {
+  if (typeof window === "undefined") return null;
+  try {
+    return localStorage.getItem(TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function getStoredUser(): AuthUser | null {
+  if (typeof window === "undefined") return null;
+  try {
+    if (!localStorage.getItem(TOKEN_KEY)) return null;
+    const raw = localStorage.getItem(USER_KEY);
+    // Older clients stored the raw backend user (e.g. `display_name`); normalize it.
+    return raw ? parseAuthUser(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeAuthSession(token: string, user: AuthUser) {
+  localStorage.setItem(TOKEN_KEY, token);
+  localStorage.setItem(USER_KEY, JSON.stringify(user));
+}
+
+export function clearAuthSession() {
+  try {
+    localStorage.removeItem(TOKEN_KEY);
+    localStorage.removeItem(USER_KEY);
+  } catch {
+    // ignore
+  }
+}
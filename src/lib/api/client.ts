@@ -0,0 +1,105 @@
+import { ApiError, apiErrorFromResponse } from "./errors";
+import { clearAuthSession, getAuthToken } from "./authStorage";
+
+export const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL ?? "http://localhost:4000";
+
+/**
+ * - `required`: send the bearer token; without one, log out and fail fast.
+ * - `optional`: send the bearer token when present (e.g. published activities).
+ * - `none`: never send credentials.
+ */
+export type AuthMode = "required" | "optional" | "none";
+
+/**
+ * What to do after a 401: `redirect` clears the stored session and sends the user to
+ * the login page; `logout` only clears the stored session and lets the caller render
+ * a logged-out state.
+ */
+export type UnauthorizedBehavior = "redirect" | "logout";
+
+export type ApiRequestOptions<T> = {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  body?: unknown;
+  auth?: AuthMode;
+  onUnauthorized?: UnauthorizedBehavior;
+  // Some legacy auth middleware answers 403 for expired tokens; opt in per route.
+  forbiddenIsUnauthorized?: boolean;
+  // Validates the parsed JSON body; return null to reject the response as malformed.
+  parse: (data: unknown) => T | null;
+  // Hand non-2xx bodies to `parse` too, for routes that report domain rejections
+  // with an error status but a regular payload.
+  allowErrorBody?: boolean;
+  // Used as the message prefix when the backend does not supply its own error.
+  errorMessage: string;
+  signal?: AbortSignal;
+};
+
+const LOGIN_PATH = "/auth/login";
+
+export function backendUrl(path: string): string {
+  return `${BACKEND_URL}${path}`;
+}
+
+function handleUnauthorized(behavior: UnauthorizedBehavior) {
+  clearAuthSession();
+  if (behavior !== "redirect" || typeof window === "undefined") return;
+  if (window.location.pathname === LOGIN_PATH) return;
+  window.location.assign(LOGIN_PATH);
+}
+
+export async function apiRequest<T>(path: string, options: ApiRequestOptions<T>): Promise<T> {
+  const {
+    method = "GET",
+    body,
+    auth = "optional",
+    onUnauthorized = "redirect",
+    forbiddenIsUnauthorized = false,
+    parse,
+    allowErrorBody = false,
+    errorMessage,
+    signal,
+  } = options;
+
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+
+  const token = auth === "none" ? null : getAuthToken();
+  if (auth === "required" && !token) {
+    handleUnauthorized(onUnauthorized);
+    throw new ApiError("Please log in to continue.", 401);
+  }
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  let res: Response;
+  try {
+    res = await fetch(backendUrl(path), {
+      method,
+      headers,
+      ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      signal,
+    });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === "AbortError") throw e;
+    throw new ApiError(`${errorMessage} (network error)`, 0, null, e);
+  }
+
+  const data: unknown = await res.json().catch(() => null);
+
+  const unauthorized = res.status === 401 || (forbiddenIsUnauthorized && res.status === 403);
+  if (unauthorized && token) {
+    handleUnauthorized(onUnauthorized);
+  }
+
+  if (!res.ok) {
+    const rejection = allowErrorBody && !unauthorized ? parse(data) : null;
+    if (rejection != null) return rejection;
+    // Report opted-in 403s as 401 so callers only need `isUnauthorized`.
+    throw apiErrorFromResponse(unauthorized ? 401 : res.status, data, errorMessage);
+  }
+
+  const parsed = parse(data);
+  if (parsed == null) {
+    throw new ApiError(`${errorMessage} (invalid response)`, res.status, null, data);
+  }
+  return parsed;
+}
@@ -0,0 +1,57 @@
+import { apiRequest } from "./client";
+import { parseActivity } from "./activities";
+import type { Activity, CommunityActivity, CommunityActivityPage } from "./types";
+import { asRecord, nullableString, safeStringArray, safeText, type UnknownRecord } from "./validate";
+
+function parseAuthor(a: UnknownRecord): { username: string; displayName: string } {
+  const author = asRecord(a.author);
+  if (!author) {
+    return { username: "", displayName: "" };
+  }
+  const username = safeText(author.username);
+  const displayName = safeText(author.displayName) || username;
+  return { username, displayName };
+}
+
+function parseCommunityActivity(raw: unknown): CommunityActivity | null {
+  const a = asRecord(raw);
+  if (!a) return null;
+  const id = safeText(a.id).trim();
+  const title = safeText(a.title).trim();
+  if (!id || !title) return null;
+  return {
+    id,
+    title,
+    communitySummary: nullableString(a.communitySummary),
+    communityTags: safeStringArray(a.communityTags),
+    communityPublishedAt: nullableString(a.communityPublishedAt),
+    createdAt: safeText(a.createdAt),
+    problemCount: typeof a.problemCount === "number" ? a.problemCount : 0,
+    author: parseAuthor(a),
+  };
+}
+
+export function listCommunityActivities(params: { limit: number; offset: number }): Promise<CommunityActivityPage> {
+  const query = `limit=${encodeURIComponent(String(params.limit))}&offset=${encodeURIComponent(String(params.offset))}`;
+  return apiRequest(`/community/activities?${query}`, {
+    auth: "none",
+    parse: (data) => {
+      const d = asRecord(data);
+      if (!d) return null;
+      const items = Array.isArray(d.activities) ? d.activities : [];
+      return {
+        activities: items.map(parseCommunityActivity).filter((a): a is CommunityActivity => a != null),
+        nextOffset: typeof d.nextOffset === "number" ? d.nextOffset : null,
+      };
+    },
+    errorMessage: "Failed to load",
+  });
+}
+
+export function getCommunityActivity(activityId: string): Promise<Activity> {
+  return apiRequest(`/community/activities/${encodeURIComponent(activityId)}`, {
+    auth: "none",
+    parse: (data) => parseActivity(asRecord(data)?.activity),
+    errorMessage: "Failed to load activity",
+  });
+}
@@ -0,0 +1,39 @@
+export class ApiError extends Error {
+  readonly status: number;
+  readonly detail: string | null;
+  readonly data: unknown;
+
+  constructor(message: string, status: number, detail: string | null = null, data: unknown = null) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.detail = detail;
+    this.data = data;
+  }
+
+  get isUnauthorized(): boolean {
+    return this.status === 401;
+  }
+
+  // Also what a backend without the route answers; see "Required backend changes" in docs/api/backend.md.
+  get isNotFound(): boolean {
+    return this.status === 404;
+  }
+}
+
+/**
+ * Builds an ApiError from a non-2xx response body. The backend reports failures as
+ * `{ error, detail? }`; older routes only send one of the two.
+ */
+export function apiErrorFromResponse(status: number, data: unknown, fallback: string): ApiError {
+  const record = data && typeof data === "object" ? (data as Record<string, unknown>) : {};
+  const error = typeof record.error === "string" && record.error.trim() ? record.error.trim() : null;
+  const detail = typeof record.detail === "string" && record.detail.trim() ? record.detail.trim() : null;
+  return new ApiError(error ?? detail ?? `${fallback} (${status})`, status, error ? detail : null, data);
+}
+
+export function getErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error && typeof err.message === "string" && err.message.trim()) return err.message;
+  if (typeof err === "string" && err.trim()) return err;
+  return fallback;
+}
@@ -0,0 +1,10 @@
+export * from "./types";
+export * from "./errors";
+export * from "./client";
+export * from "./authStorage";
+export * from "./sessions";
+export * from "./activities";
+export * from "./community";
+export * from "./judge";
+export * from "./auth";
+export * from "./profile";
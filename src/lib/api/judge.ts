@@ -0,0 +1,67 @@
+import { apiRequest } from "./client";
+import type { JudgeResult, RunRequest, RunResult, SubmitRequest, TestCaseDetail } from "./types";
+import { asRecord, optionalString, safeText } from "./validate";
+
+function parseStderr(d: Record<string, unknown>): string {
+  return typeof d.stderr === "string" ? d.stderr : safeText(d.error);
+}
+
+function parseTestCaseDetails(x: unknown): TestCaseDetail[] | undefined {
+  if (!Array.isArray(x)) return undefined;
+  const out: TestCaseDetail[] = [];
+  for (const raw of x) {
+    const t = asRecord(raw);
+    const name = safeText(t?.name);
+    if (!t || !name) continue;
+    out.push({
+      name,
+      passed: t.passed === true,
+      input: optionalString(t.input),
+      expectedOutput: optionalString(t.expectedOutput),
+      actualOutput: optionalString(t.actualOutput),
+      message: optionalString(t.message),
+    });
+  }
+  return out;
+}
+
+function parseTestNames(x: unknown): string[] {
+  return Array.isArray(x) ? x.filter((v): v is string => typeof v === "string") : [];
+}
+
+export function runCode(request: RunRequest): Promise<RunResult> {
+  return apiRequest("/run", {
+    method: "POST",
+    auth: "none",
+    body: request,
+    parse: (data) => {
+      const d = asRecord(data);
+      if (!d) return null;
+      return { stdout: safeText(d.stdout), stderr: parseStderr(d) };
+    },
+    errorMessage: "Failed to run code",
+  });
+}
+
+export function submitCode(request: SubmitRequest): Promise<JudgeResult> {
+  return apiRequest("/submit", {
+    method: "POST",
+    body: request,
+    parse: (data) => {
+      const d = asRecord(data);
+      if (!d) return null;
+      return {
+        success: Boolean(d.success),
+        passedTests: parseTestNames(d.passedTests),
+        failedTests: parseTestNames(d.failedTests),
+        stdout: safeText(d.stdout),
+        stderr: parseStderr(d),
+        executionTimeMs: typeof d.executionTimeMs === "number" ? d.executionTimeMs : 0,
+        exitCode: typeof d.exitCode === "number" ? d.exitCode : undefined,
+        timedOut: typeof d.timedOut === "boolean" ? d.timedOut : undefined,
+        testCaseDetails: parseTestCaseDetails(d.testCaseDetails),
+      };
+    },
+    errorMessage: "Failed to run judge",
+  });
+}
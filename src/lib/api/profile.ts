@@ -0,0 +1,167 @@
+import { apiRequest } from "./client";
+import { parseAuthUser } from "./authStorage";
+import { parseSpecSnapshot } from "./sessions";
+import type {
+  ActivitySpecSnapshot,
+  LlmProvider,
+  LlmSettings,
+  ProfileActivity,
+  ProfileData,
+  ProfileSubmission,
+  SpecPreset,
+  UserStats,
+} from "./types";
+import { asRecord, nullableString, parseAnyObject, safeText } from "./validate";
+
+function num(x: unknown): number {
+  return typeof x === "number" && Number.isFinite(x) ? x : 0;
+}
+
+function parseStats(raw: unknown): UserStats {
+  const s = asRecord(raw) ?? {};
+  return {
+    totalSubmissions: num(s.totalSubmissions),
+    successfulSubmissions: num(s.successfulSubmissions),
+    activitiesAttempted: num(s.activitiesAttempted),
+    problemsAttempted: num(s.problemsAttempted),
+    avgExecutionTime: num(s.avgExecutionTime),
+    successRate: num(s.successRate),
+  };
+}
+
+function parseProfileActivities(x: unknown): ProfileActivity[] {
+  if (!Array.isArray(x)) return [];
+  const out: ProfileActivity[] = [];
+  for (const raw of x) {
+    const a = asRecord(raw);
+    const id = safeText(a?.id);
+    if (!a || !id) continue;
+    out.push({
+      id,
+      title: safeText(a.title),
+      prompt: safeText(a.prompt),
+      problemCount: num(a.problemCount),
+      createdAt: safeText(a.createdAt),
+    });
+  }
+  return out;
+}
+
+function parseSubmissions(x: unknown): ProfileSubmission[] {
+  if (!Array.isArray(x)) return [];
+  const out: ProfileSubmission[] = [];
+  for (const raw of x) {
+    const s = asRecord(raw);
+    if (!s || typeof s.id !== "number") continue;
+    out.push({
+      id: s.id,
+      activity_id: safeText(s.activity_id),
+      problem_id: safeText(s.problem_id),
+      success: Boolean(s.success),
+      passed_tests: num(s.passed_tests),
+      total_tests: num(s.total_tests),
+      submitted_at: safeText(s.submitted_at),
+    });
+  }
+  return out;
+}
+
+function parseProfile(data: unknown): ProfileData | null {
+  const d = asRecord(data);
+  const user = parseAuthUser(d?.user);
+  if (!d || !user) return null;
+  return {
+    user: { ...user, createdAt: safeText(asRecord(d.user)?.createdAt) },
+    stats: parseStats(d.stats),
+    activities: parseProfileActivities(d.activities),
+    recentSubmissions: parseSubmissions(d.recentSubmissions),
+  };
+}
+
+function parseLlmSettings(data: unknown): LlmSettings | null {
+  const d = asRecord(data);
+  if (!d) return null;
+  return {
+    configured: d.configured === true,
+    provider: nullableString(d.provider),
+    updatedAt: nullableString(d.updatedAt),
+  };
+}
+
+export function getProfile(): Promise<ProfileData> {
+  return apiRequest("/profile", {
+    auth: "required",
+    forbiddenIsUnauthorized: true,
+    parse: parseProfile,
+    errorMessage: "Failed to fetch profile",
+  });
+}
+
+export function getLlmSettings(): Promise<LlmSettings> {
+  return apiRequest("/profile/llm", {
+    auth: "required",
+    forbiddenIsUnauthorized: true,
+    parse: parseLlmSettings,
+    errorMessage: "Failed to load LLM settings",
+  });
+}
+
+export async function saveLlmSettings(provider: LlmProvider, apiKey: string): Promise<void> {
+  await apiRequest("/profile/llm", {
+    method: "PUT",
+    auth: "required",
+    body: { provider, apiKey },
+    parse: parseAnyObject,
+    errorMessage: "Failed to save LLM settings",
+  });
+}
+
+export async function clearLlmSettings(): Promise<void> {
+  await apiRequest("/profile/llm", {
+    method: "DELETE",
+    auth: "required",
+    parse: parseAnyObject,
+    errorMessage: "Failed to clear LLM settings",
+  });
+}
+
+function parseSpecPreset(raw: unknown): SpecPreset | null {
+  const p = asRecord(raw);
+  const id = safeText(p?.id);
+  const name = safeText(p?.name).trim();
+  const spec = parseSpecSnapshot(p?.spec);
+  if (!p || !id || !name || !spec) return null;
+  return { id, name, spec, createdAt: safeText(p.createdAt) };
+}
+
+export function listSpecPresets(): Promise<SpecPreset[]> {
+  return apiRequest("/profile/spec-presets", {
+    auth: "required",
+    forbiddenIsUnauthorized: true,
+    parse: (data) => {
+      const presets = asRecord(data)?.presets;
+      if (!Array.isArray(presets)) return [];
+      return presets.map(parseSpecPreset).filter((p): p is SpecPreset => p != null);
+    },
+    errorMessage: "Failed to load presets",
+  });
+}
+
+export function createSpecPreset(name: string, spec: ActivitySpecSnapshot): Promise<SpecPreset> {
+  return apiRequest("/profile/spec-presets", {
+    method: "POST",
+    auth: "required",
+    body: { name, spec },
+    parse: (data) => parseSpecPreset(asRecord(data)?.preset),
+    errorMessage: "Failed to save preset",
+  });
+}
+
+export async function deleteSpecPreset(presetId: string): Promise<void> {
+  await apiRequest(`/profile/spec-presets/${encodeURIComponent(presetId)}`, {
+    method: "DELETE",
+    auth: "required",
+    parse: parseAnyObject,
+    errorMessage: "Failed to delete preset",
+  });
+}
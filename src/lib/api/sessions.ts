@@ -0,0 +1,283 @@
+import { apiRequest, backendUrl, type UnauthorizedBehavior } from "./client";
+import type {
+  ActivitySpecSnapshot,
+  CreateSessionResponse,
+  GenerateActivityResponse,
+  LearningMode,
+  SessionChatMessage,
+  SessionForkSource,
+  SpecDifficultyEntry,
+  SessionMessageResponse,
+  SessionListQuery,
+  SessionPatch,
+  SessionSnapshot,
+  SessionSummary,
+  SessionSummaryPage,
+} from "./types";
+import {
+  asRecord,
+  nullableString,
+  optionalNumber,
+  optionalString,
+  optionalStringArray,
+  parseAnyObject,
+  safeText,
+} from "./validate";
+
+function parseLearningMode(x: unknown): LearningMode {
+  return x === "guided" ? "guided" : "practice";
+}
+
+function parseSessionSummary(raw: unknown): SessionSummary | null {
+  const s = asRecord(raw);
+  const id = safeText(s?.id);
+  if (!s || !id) return null;
+  return {
+    id,
+    state: safeText(s.state),
+    learning_mode: parseLearningMode(s.learning_mode),
+    created_at: safeText(s.created_at),
+    updated_at: safeText(s.updated_at),
+    activity_id: nullableString(s.activity_id),
+    last_message: nullableString(s.last_message),
+    last_message_at: nullableString(s.last_message_at),
+    message_count: typeof s.message_count === "number" ? s.message_count : 0,
+    title: nullableString(s.title),
+    archived: s.archived === true,
+  };
+}
+
+function parseChatMessages(x: unknown): SessionChatMessage[] {
+  if (!Array.isArray(x)) return [];
+  const out: SessionChatMessage[] = [];
+  for (const raw of x) {
+    const m = asRecord(raw);
+    const content = safeText(m?.content);
+    if (!content.trim()) continue;
+    out.push({ role: m?.role === "assistant" ? "assistant" : "user", content });
+  }
+  return out;
+}
+
+// `difficulty_plan` is a list of `{ difficulty, count }`; a `{ easy: 2, ... }` map is accepted too.
+function parseDifficultyPlan(x: unknown): SpecDifficultyEntry[] | undefined {
+  if (Array.isArray(x)) {
+    const out: SpecDifficultyEntry[] = [];
+    for (const raw of x) {
+      const e = asRecord(raw);
+      const difficulty = safeText(e?.difficulty);
+      const count = optionalNumber(e?.count);
+      if (difficulty && count != null) out.push({ difficulty, count });
+    }
+    return out;
+  }
+  const map = asRecord(x);
+  if (!map) return undefined;
+  return Object.entries(map)
+    .filter((entry): entry is [string, number] => typeof entry[1] === "number")
+    .map(([difficulty, count]) => ({ difficulty, count }));
+}
+
+export function parseSpecSnapshot(x: unknown): ActivitySpecSnapshot | undefined {
+  const s = asRecord(x);
+  if (!s) return undefined;
+  const spec: ActivitySpecSnapshot = {};
+  const language = optionalString(s.language);
+  if (language) spec.language = language;
+  const problemCount = optionalNumber(s.problem_count);
+  if (problemCount != null) spec.problem_count = problemCount;
+  const plan = parseDifficultyPlan(s.difficulty_plan);
+  if (plan && plan.length > 0) spec.difficulty_plan = plan;
+  const tags = optionalStringArray(s.topic_tags);
+  if (tags && tags.length > 0) spec.topic_tags = tags;
+  const style = optionalString(s.problem_style);
+  if (style) spec.problem_style = style;
+  const constraints = optionalString(s.constraints);
+  if (constraints) spec.constraints = constraints;
+  return spec;
+}
+
+function parseCreateSession(data: unknown): CreateSessionResponse | null {
+  const d = asRecord(data);
+  const sessionId = safeText(d?.sessionId);
+  if (!d || !sessionId) return null;
+  return {
+    sessionId,
+    nextQuestion: nullableString(d.nextQuestion),
+    questionKey: nullableString(d.questionKey),
+    assistant_summary: optionalString(d.assistant_summary),
+    assumptions: optionalStringArray(d.assumptions),
+    spec: parseSpecSnapshot(d.spec),
+  };
+}
+
+function parseSessionMessageResponse(data: unknown): SessionMessageResponse | null {
+  const d = asRecord(data);
+  if (!d || typeof d.accepted !== "boolean") return null;
+  return {
+    accepted: d.accepted,
+    done: d.done === true,
+    error: optionalString(d.error),
+    nextQuestion: optionalString(d.nextQuestion),
+    questionKey: nullableString(d.questionKey),
+    state: optionalString(d.state),
+    assistant_summary: optionalString(d.assistant_summary),
+    assumptions: optionalStringArray(d.assumptions),
+    spec: parseSpecSnapshot(d.spec),
+  };
+}
+
+function parseGenerateActivity(data: unknown): GenerateActivityResponse | null {
+  const activityId = safeText(asRecord(data)?.activityId);
+  return activityId ? { activityId } : null;
+}
+
+/**
+ * Starts a spec session. With `forkFrom`, the backend seeds the spec from an existing session
+ * or activity, so the first question is a confirmation rather than an empty chat.
+ */
+export function createSession(
+  learningMode: LearningMode,
+  options: { forkFrom?: SessionForkSource } = {},
+): Promise<CreateSessionResponse> {
+  const fork = options.forkFrom;
+  return apiRequest("/sessions", {
+    method: "POST",
+    body: {
+      learning_mode: learningMode,
+      ...(fork
+        ? { fork_from: "sessionId" in fork ? { session_id: fork.sessionId } : { activity_id: fork.activityId } }
+        : {}),
+    },
+    parse: parseCreateSession,
+    errorMessage: "Failed to create session",
+  });
+}
+
+export function getSession(sessionId: string): Promise<SessionSnapshot> {
+  return apiRequest(`/sessions/${encodeURIComponent(sessionId)}`, {
+    parse: (data) => {
+      const d = asRecord(data);
+      if (!d) return null;
+      return {
+        id: safeText(d.id) || sessionId,
+        state: safeText(d.state),
+        learning_mode: parseLearningMode(d.learning_mode),
+        messages: parseChatMessages(d.messages),
+        spec: parseSpecSnapshot(d.spec),
+      };
+    },
+    errorMessage: "Failed to load session",
+  });
+}
+
+// Backends without paged history ignore the query and answer `{ sessions }` (or a bare array)
+// with the most recent sessions; filter those here and report them as a single page.
+function filterLegacySessionList(sessions: SessionSummary[], query: SessionListQuery): SessionSummaryPage {
+  if (query.offset > 0 || query.archived) return { sessions: [], nextOffset: null };
+  const q = query.q?.trim().toLowerCase();
+  return {
+    sessions: sessions.filter(
+      (s) =>
+        (!q || `${s.title ?? ""}\n${s.last_message ?? ""}`.toLowerCase().includes(q)) &&
+        (!query.state || s.state === query.state) &&
+        (!query.learning_mode || s.learning_mode === query.learning_mode),
+    ),
+    nextOffset: null,
+  };
+}
+
+export function listSessions(
+  query: SessionListQuery,
+  options: { onUnauthorized?: UnauthorizedBehavior } = {},
+): Promise<SessionSummaryPage> {
+  const params = new URLSearchParams({ limit: String(query.limit), offset: String(query.offset) });
+  if (query.q?.trim()) params.set("q", query.q.trim());
+  if (query.state) params.set("state", query.state);
+  if (query.learning_mode) params.set("learning_mode", query.learning_mode);
+  if (query.archived) params.set("archived", "1");
+  return apiRequest(`/sessions?${params.toString()}`, {
+    auth: "required",
+    onUnauthorized: options.onUnauthorized,
+    forbiddenIsUnauthorized: true,
+    parse: (data) => {
+      const d = asRecord(data);
+      const raw = Array.isArray(data) ? data : Array.isArray(d?.sessions) ? d.sessions : [];
+      const sessions = raw.map(parseSessionSummary).filter((s): s is SessionSummary => s != null);
+      if (!d || !("nextOffset" in d)) return filterLegacySessionList(sessions, query);
+      return { sessions, nextOffset: typeof d.nextOffset === "number" ? d.nextOffset : null };
+    },
+    errorMessage: "Failed to load chat history",
+  });
+}
+
+/** Renames (`title: null` clears the title) or archives/unarchives a session. */
+export function updateSession(sessionId: string, patch: SessionPatch): Promise<SessionSummary | null> {
+  return apiRequest(`/sessions/${encodeURIComponent(sessionId)}`, {
+    method: "PATCH",
+    auth: "required",
+    body: patch,
+    parse: (data) => ({ session: parseSessionSummary(asRecord(data)?.session) }),
+    errorMessage: "Failed to update chat",
+  }).then((r) => r.session);
+}
+
+export async function deleteSession(sessionId: string): Promise<void> {
+  await apiRequest(`/sessions/${encodeURIComponent(sessionId)}`, {
+    method: "DELETE",
+    auth: "required",
+    parse: parseAnyObject,
+    errorMessage: "Failed to delete chat",
+  });
+}
+
+export function postSessionMessage(sessionId: string, message: string): Promise<SessionMessageResponse> {
+  return apiRequest(`/sessions/${encodeURIComponent(sessionId)}/messages`, {
+    method: "POST",
+    body: { message },
+    parse: parseSessionMessageResponse,
+    allowErrorBody: true,
+    errorMessage: "Failed to send message",
+  });
+}
+
+export function generateActivity(sessionId: string): Promise<GenerateActivityResponse> {
+  return apiRequest(`/sessions/${encodeURIComponent(sessionId)}/generate`, {
+    method: "POST",
+    auth: "required",
+    parse: parseGenerateActivity,
+    errorMessage: "Failed to generate activity",
+  });
+}
+
+/**
+ * Re-runs one failed slot of the last generation run, keeping the slots that already passed.
+ * Progress arrives on the regular generation stream; like `generateActivity`, the request
+ * resolves once the activity is complete.
+ */
+export function retryGenerationSlot(
+  sessionId: string,
+  slotIndex: number,
+  options: { topic?: string } = {},
+): Promise<GenerateActivityResponse> {
+  const topic = options.topic?.trim();
+  return apiRequest(
+    `/sessions/${encodeURIComponent(sessionId)}/generate/slots/${encodeURIComponent(String(slotIndex))}/retry`,
+    {
+      method: "POST",
+      auth: "required",
+      body: topic ? { topic } : {},
+      parse: parseGenerateActivity,
+      errorMessage: "Failed to retry problem",
+    },
+  );
+}
+
+/** SSE endpoints cannot carry headers, so callers open these URLs with `EventSource`. */
+export function generationStreamUrl(sessionId: string): string {
+  return backendUrl(`/sessions/${encodeURIComponent(sessionId)}/generate/stream`);
+}
+
+export function generationTraceUrl(sessionId: string): string {
+  return backendUrl(`/sessions/${encodeURIComponent(sessionId)}/trace`);
+}
@@ -0,0 +1,294 @@
+import type { FileRole, LanguageId } from "../languages";
+import type { BackendSpecResponse } from "../specBuilderUx";
+
+export type LearningMode = "practice" | "guided";
+
+// ---------------------------------------------------------------------------
+// Sessions
+// ---------------------------------------------------------------------------
+
+export type SessionSummary = {
+  id: string;
+  state: string;
+  learning_mode: LearningMode;
+  created_at: string;
+  updated_at: string;
+  activity_id: string | null;
+  last_message: string | null;
+  last_message_at: string | null;
+  message_count: number;
+  title: string | null;
+  archived: boolean;
+};
+
+export type SessionSummaryPage = {
+  sessions: SessionSummary[];
+  nextOffset: number | null;
+};
+
+/** Filters for `GET /sessions`; omitted fields are not sent. */
+export type SessionListQuery = {
+  limit: number;
+  offset: number;
+  q?: string;
+  state?: string;
+  learning_mode?: LearningMode;
+  archived?: boolean;
+};
+
+export type SessionPatch = {
+  title?: string | null;
+  archived?: boolean;
+};
+
+export type SessionChatMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+export type SpecDifficultyEntry = {
+  difficulty: string;
+  count: number;
+};
+
+/** The backend's `ActivitySpec` as built so far; fields appear as the user answers them. */
+export type ActivitySpecSnapshot = {
+  language?: string;
+  problem_count?: number;
+  difficulty_plan?: SpecDifficultyEntry[];
+  topic_tags?: string[];
+  problem_style?: string;
+  constraints?: string;
+};
+
+export type CreateSessionResponse = {
+  sessionId: string;
+  nextQuestion: string | null;
+  questionKey: string | null;
+  assistant_summary?: string;
+  assumptions?: string[];
+  spec?: ActivitySpecSnapshot;
+};
+
+/** Where a forked session takes its starting spec from. */
+export type SessionForkSource = { sessionId: string } | { activityId: string };
+
+export type SessionSnapshot = {
+  id: string;
+  state: string;
+  learning_mode: LearningMode;
+  messages: SessionChatMessage[];
+  spec?: ActivitySpecSnapshot;
+};
+
+export type SessionMessageResponse = BackendSpecResponse & {
+  assistant_summary?: string;
+  assumptions?: string[];
+  spec?: ActivitySpecSnapshot;
+};
+
+export type GenerateActivityResponse = {
+  activityId: string;
+};
+
+// ---------------------------------------------------------------------------
+// Activities
+// ---------------------------------------------------------------------------
+
+export type ActivityStatus = "DRAFT" | "PUBLISHED";
+
+export type Problem = {
+  language?: LanguageId;
+  id: string;
+  title: string;
+  description: string;
+  // v1.0 uses starter_code, legacy uses classSkeleton
+  starter_code?: string;
+  classSkeleton?: string;
+  // v1.0 uses test_suite, legacy uses testSuite
+  test_suite?: string;
+  testSuite?: string;
+  workspace?: {
+    files: { path: string; role: FileRole; content: string }[];
+    entrypoint?: string;
+  };
+  constraints: string;
+  // v1.0 uses sample_inputs, legacy uses sampleInputs
+  sample_inputs?: string[];
+  sampleInputs?: string[];
+  sample_outputs?: string[];
+  sampleOutputs?: string[];
+  difficulty?: string;
+  topic_tag?: string;
+  pedagogy?: {
+    scaffold_level?: number;
+    learning_goal?: string;
+    hints_enabled?: boolean;
+  };
+};
+
+export type Activity = {
+  id: string;
+  title: string;
+  prompt: string;
+  problems: Problem[];
+  createdAt: string;
+  status?: ActivityStatus;
+  timeLimitSeconds?: number | null;
+  communityPublishedAt?: string | null;
+  communitySummary?: string | null;
+  communityTags?: string[];
+};
+
+export type ActivityPatch = {
+  title?: string;
+  timeLimitSeconds?: number | null;
+};
+
+export type CommunityPublishRequest = {
+  summary?: string;
+  tags?: string[];
+};
+
+export type CommunityPublishResponse = {
+  communityPublishedAt: string | null;
+};
+
+// ---------------------------------------------------------------------------
+// Community
+// ---------------------------------------------------------------------------
+
+export type CommunityActivity = {
+  id: string;
+  title: string;
+  communitySummary: string | null;
+  communityTags: string[];
+  communityPublishedAt: string | null;
+  createdAt: string;
+  problemCount: number;
+  author: { username: string; displayName: string };
+};
+
+export type CommunityActivityPage = {
+  activities: CommunityActivity[];
+  nextOffset: number | null;
+};
+
+// ---------------------------------------------------------------------------
+// Judge
+// ---------------------------------------------------------------------------
+
+export type TestCaseDetail = {
+  name: string;
+  passed: boolean;
+  input?: string;
+  expectedOutput?: string;
+  actualOutput?: string;
+  message?: string;
+};
+
+export type JudgeResult = {
+  success: boolean;
+  passedTests: string[];
+  failedTests: string[];
+  stdout: string;
+  stderr: string;
+  executionTimeMs?: number;
+  exitCode?: number;
+  timedOut?: boolean;
+  // Optional structured per-test details (best-effort; may be absent).
+  testCaseDetails?: TestCaseDetail[];
+};
+
+export type RunResult = {
+  stdout: string;
+  stderr: string;
+};
+
+export type RunRequest = {
+  files: Record<string, string>;
+  language: LanguageId;
+  mainClass?: string;
+  stdin?: string;
+};
+
+export type SubmitRequest = {
+  files: Record<string, string>;
+  testSuite: string;
+  language: LanguageId;
+  activityId?: string;
+  problemId?: string;
+};
+
+// ---------------------------------------------------------------------------
+// Auth and profile
+// ---------------------------------------------------------------------------
+
+export type AuthUser = {
+  id: number;
+  username: string;
+  email: string;
+  displayName: string;
+};
+
+export type AuthResponse = {
+  token: string;
+  user: AuthUser;
+};
+
+export type RegisterRequest = {
+  username: string;
+  email: string;
+  password: string;
+  displayName: string;
+};
+
+export type UserStats = {
+  totalSubmissions: number;
+  successfulSubmissions: number;
+  activitiesAttempted: number;
+  problemsAttempted: number;
+  avgExecutionTime: number;
+  successRate: number;
+};
+
+export type ProfileActivity = {
+  id: string;
+  title: string;
+  prompt: string;
+  problemCount: number;
+  createdAt: string;
+};
+
+export type ProfileSubmission = {
+  id: number;
+  activity_id: string;
+  problem_id: string;
+  success: boolean;
+  passed_tests: number;
+  total_tests: number;
+  submitted_at: string;
+};
+
+export type ProfileData = {
+  user: AuthUser & { createdAt: string };
+  stats: UserStats;
+  activities: ProfileActivity[];
+  recentSubmissions: ProfileSubmission[];
+};
+
+export type LlmProvider = "openai" | "anthropic" | "gemini";
+
+export type LlmSettings = {
+  configured: boolean;
+  provider: string | null;
+  updatedAt: string | null;
+};
+
+/** A saved, named spec the user can apply to a new session in one click. */
+export type SpecPreset = {
+  id: string;
+  name: string;
+  spec: ActivitySpecSnapshot;
+  createdAt: string;
+};
@@ -0,0 +1,39 @@
+// Small runtime guards for backend payloads. The backend contract evolves additively, so
+// parsers keep unknown fields out and coerce optional ones instead of rejecting the
+// whole response.
+
+export type UnknownRecord = Record<string, unknown>;
+
+export function asRecord(x: unknown): UnknownRecord | null {
+  return x && typeof x === "object" && !Array.isArray(x) ? (x as UnknownRecord) : null;
+}
+
+export function safeText(s: unknown): string {
+  return typeof s === "string" ? s : "";
+}
+
+export function optionalString(s: unknown): string | undefined {
+  return typeof s === "string" ? s : undefined;
+}
+
+export function nullableString(s: unknown): string | null {
+  return typeof s === "string" ? s : null;
+}
+
+export function optionalNumber(n: unknown): number | undefined {
+  return typeof n === "number" && Number.isFinite(n) ? n : undefined;
+}
+
+export function safeStringArray(x: unknown): string[] {
+  if (!Array.isArray(x)) return [];
+  return x.filter((v) => typeof v === "string" && v.trim()).map((v) => v.trim());
+}
+
+export function optionalStringArray(x: unknown): string[] | undefined {
+  return Array.isArray(x) ? x.filter((v): v is string => typeof v === "string") : undefined;
+}
+
+/** Accepts any JSON object (including `{}` from empty 204-style bodies). */
+export function parseAnyObject(data: unknown): UnknownRecord {
+  return asRecord(data) ?? {};
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import type { GenerationProgressEvent, GenerationProgressState } from "@/types/generationProgress";
+import { reduceGenerationProgress, replayGenerationProgress } from "./generationProgressReducer";
+import failedThenRetried from "./__fixtures__/generationProgress/failed-then-retried.json";
+import phase2bSuccess from "./__fixtures__/generationProgress/phase2b-success.json";
+import v1Legacy from "./__fixtures__/generationProgress/v1-legacy.json";
+
+const replay = (log: unknown) => replayGenerationProgress(log as GenerationProgressEvent[]);
+
+describe("replayGenerationProgress", () => {
+  it("folds a Phase 2B log into completed slots", () => {
+    expect(replay(phase2bSuccess)).toEqual<GenerationProgressState>({
+      totalSlots: 2,
+      run: 1,
+      error: null,
+      lastHeartbeatTs: "2025-01-05T10:00:30.000Z",
+      slots: [
+        {
+          stage: "done",
+          attempt: 1,
+          difficulty: "easy",
+          topic: "arrays",
+          language: "java",
+          stageDone: { llm: true, contract: true, docker: true },
+          lastFailure: null,
+        },
+        {
+          stage: "done",
+          attempt: 3,
+          difficulty: "medium",
+          topic: "hash maps",
+          language: "java",
+          stageDone: { llm: true, contract: true, docker: true },
+          lastFailure: null,
+        },
+      ],
+    });
+  });
+
+  it("folds a v1 log, using totalProblems for the slot count", () => {
+    expect(replay(v1Legacy)).toEqual<GenerationProgressState>({
+      totalSlots: 3,
+      run: 1,
+      error: null,
+      lastHeartbeatTs: null,
+      slots: [
+        {
+          stage: "done",
+          attempt: 1,
+          difficulty: "easy",
+          topic: null,
+          language: null,
+          stageDone: { llm: true, contract: true, docker: true },
+          lastFailure: null,
+        },
+        {
+          stage: "failed",
+          attempt: 2,
+          difficulty: "medium",
+          topic: null,
+          language: null,
+          stageDone: { llm: true, contract: true, docker: false },
+          lastFailure: { stage: "docker", message: "Docker validation failed." },
+        },
+        {
+          stage: "llm",
+          attempt: 1,
+          difficulty: "hard",
+          topic: null,
+          language: null,
+          stageDone: { llm: false, contract: false, docker: false },
+          lastFailure: null,
+        },
+      ],
+    });
+  });
+
+  it("resets a failed slot and clears the error when it is queued for retry", () => {
+    const events = failedThenRetried as GenerationProgressEvent[];
+    const failedAt = events.findIndex((ev) => ev.type === "generation_failed");
+
+    const failed = replayGenerationProgress(events.slice(0, failedAt + 1));
+    expect(failed?.error).toBe("Slot 2 failed after 3 attempts.");
+    expect(failed?.slots.map((s) => s.stage)).toEqual(["done", "failed"]);
+
+    expect(replay(failedThenRetried)).toEqual<GenerationProgressState>({
+      totalSlots: 2,
+      run: 1,
+      error: null,
+      lastHeartbeatTs: null,
+      slots: [
+        {
+          stage: "done",
+          attempt: 1,
+          difficulty: "easy",
+          topic: "strings",
+          language: "python",
+          stageDone: { llm: true, contract: true, docker: true },
+          lastFailure: null,
+        },
+        {
+          stage: "llm",
+          attempt: 1,
+          difficulty: "hard",
+          topic: "trees",
+          language: "python",
+          stageDone: { llm: false, contract: false, docker: false },
+          lastFailure: null,
+        },
+      ],
+    });
+  });
+});
+
+describe("reduceGenerationProgress", () => {
+  it("drops events before generation_started", () => {
+    expect(reduceGenerationProgress(null, { type: "slot_completed", slotIndex: 0 })).toBeNull();
+  });
+
+  it("ignores slot indices outside totalSlots", () => {
+    const started = reduceGenerationProgress(null, { type: "generation_started", totalSlots: 2 });
+    const next = reduceGenerationProgress(started, { type: "slot_completed", slotIndex: 1_000_000 });
+    expect(next?.slots).toHaveLength(2);
+    expect(next?.slots.every((s) => s.stage === "queued")).toBe(true);
+  });
+
+  it("does not mutate the previous state", () => {
+    const started = reduceGenerationProgress(null, { type: "generation_started", totalSlots: 1 });
+    const snapshot = structuredClone(started);
+    reduceGenerationProgress(started, { type: "slot_completed", slotIndex: 0 });
+    expect(started).toEqual(snapshot);
+  });
+});
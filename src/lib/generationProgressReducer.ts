@@ -0,0 +1,211 @@
+import type {
+  GenerationProgressEvent,
+  GenerationProgressState,
+  SlotProgress,
+} from "@/types/generationProgress";
+
+function emptySlot(): SlotProgress {
+  return {
+    stage: "queued",
+    attempt: 0,
+    difficulty: null,
+    topic: null,
+    language: null,
+    stageDone: { llm: false, contract: false, docker: false },
+    lastFailure: null,
+  };
+}
+
+function cloneState(prev: GenerationProgressState): GenerationProgressState {
+  return {
+    ...prev,
+    slots: prev.slots.map((p) => ({
+      ...p,
+      stageDone: { ...p.stageDone },
+      lastFailure: p.lastFailure ? { ...p.lastFailure } : null,
+    })),
+  };
+}
+
+function assertNever(ev: never): void {
+  // New backend event types are additive; ignore them at runtime.
+  void ev;
+}
+
+/**
+ * Applies one progress event to the previous state and returns a new state; `prev` is never
+ * mutated. Events before `generation_started` are dropped, and so are slot events whose index is
+ * outside `totalSlots`.
+ */
+export function reduceGenerationProgress(
+  prev: GenerationProgressState | null,
+  ev: GenerationProgressEvent,
+): GenerationProgressState | null {
+  if (ev.type === "generation_started") {
+    const total = Math.max(1, ev.totalSlots ?? ev.totalProblems ?? 1);
+    const slots = Array.from({ length: total }, emptySlot);
+    return { totalSlots: total, run: ev.run ?? 1, slots, error: null, lastHeartbeatTs: null };
+  }
+
+  if (!prev) return prev;
+
+  const next = cloneState(prev);
+
+  const getSlot = (slotIndex: number): SlotProgress | undefined => {
+    if (!Number.isInteger(slotIndex) || slotIndex < 0 || slotIndex >= next.totalSlots) return undefined;
+    return next.slots[slotIndex];
+  };
+
+  switch (ev.type) {
+    case "heartbeat": {
+      next.lastHeartbeatTs = ev.ts;
+      return next;
+    }
+
+    case "slot_started": {
+      const p = getSlot(ev.slotIndex);
+      if (p) {
+        p.difficulty = ev.difficulty;
+        p.topic = ev.topic;
+        p.language = ev.language;
+        if (p.stage === "queued") p.stage = "llm";
+      }
+      return next;
+    }
+
+    case "slot_retry_queued": {
+      const p = getSlot(ev.slotIndex);
+      if (p) {
+        next.slots[ev.slotIndex] = {
+          ...emptySlot(),
+          difficulty: p.difficulty,
+          topic: ev.topic ?? p.topic,
+          language: p.language,
+        };
+      }
+      if (!next.slots.some((s) => s.stage === "failed")) next.error = null;
+      return next;
+    }
+
+    case "slot_llm_attempt_started":
+    case "attempt_started": {
+      const p = getSlot(ev.type === "attempt_started" ? ev.index : ev.slotIndex);
+      if (p) {
+        p.stage = "llm";
+        p.attempt = ev.attempt;
+        p.stageDone = { llm: false, contract: false, docker: false };
+        p.lastFailure = null;
+      }
+      return next;
+    }
+
+    case "slot_contract_validated":
+    case "slot_docker_validation_started":
+    case "validation_started": {
+      const p = getSlot(ev.type === "validation_started" ? ev.index : ev.slotIndex);
+      if (p) {
+        p.stage = "docker";
+        p.attempt = ev.attempt;
+        p.stageDone.llm = true;
+        p.stageDone.contract = true;
+        p.lastFailure = null;
+      }
+      return next;
+    }
+
+    case "slot_contract_failed": {
+      const p = getSlot(ev.slotIndex);
+      if (p) {
+        p.stage = "contract";
+        p.attempt = ev.attempt;
+        p.lastFailure = { stage: "contract", message: ev.shortError };
+      }
+      return next;
+    }
+
+    case "slot_docker_validation_failed":
+    case "validation_failed": {
+      const p = getSlot(ev.type === "validation_failed" ? ev.index : ev.slotIndex);
+      if (p) {
+        p.stage = "docker";
+        p.attempt = ev.attempt;
+        p.lastFailure = {
+          stage: "docker",
+          message: ev.type === "validation_failed" ? "Docker validation failed." : ev.shortError,
+        };
+      }
+      return next;
+    }
+
+    case "slot_completed":
+    case "problem_validated": {
+      const p = getSlot(ev.type === "problem_validated" ? ev.index : ev.slotIndex);
+      if (p) {
+        p.stage = "done";
+        p.stageDone = { llm: true, contract: true, docker: true };
+        p.lastFailure = null;
+      }
+      return next;
+    }
+
+    case "problem_started": {
+      const p = getSlot(ev.index);
+      if (p) {
+        p.difficulty = ev.difficulty;
+        p.stage = "llm";
+        p.attempt = 0;
+        p.stageDone = { llm: false, contract: false, docker: false };
+        p.lastFailure = null;
+      }
+      return next;
+    }
+
+    case "attempt_failed": {
+      const p = getSlot(ev.index);
+      if (p) {
+        p.attempt = ev.attempt;
+        p.lastFailure =
+          ev.phase === "validate"
+            ? { stage: "docker", message: "Docker validation failed." }
+            : { stage: "contract", message: "Contract validation failed." };
+      }
+      return next;
+    }
+
+    case "problem_failed": {
+      const p = getSlot(ev.index);
+      if (p) p.stage = "failed";
+      return next;
+    }
+
+    case "generation_failed": {
+      next.error = ev.error || "Generation failed.";
+      if (typeof ev.slotIndex === "number") {
+        const p = getSlot(ev.slotIndex);
+        if (p && p.stage !== "done") p.stage = "failed";
+      } else {
+        for (const p of next.slots) {
+          if (p.stage !== "done") p.stage = "failed";
+        }
+      }
+      return next;
+    }
+
+    case "generation_completed":
+    case "generation_complete":
+      // Completion is handled by navigation; slot state stays as last reported.
+      return prev;
+
+    default:
+      assertNever(ev);
+      return prev;
+  }
+}
+
+/** Folds a recorded event log (e.g. a replayed SSE buffer) into the resulting state. */
+export function replayGenerationProgress(
+  events: readonly GenerationProgressEvent[],
+  initial: GenerationProgressState | null = null,
+): GenerationProgressState | null {
+  return events.reduce<GenerationProgressState | null>(reduceGenerationProgress, initial);
+}
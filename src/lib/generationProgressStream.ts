@@ -0,0 +1,152 @@
+import { generationStreamUrl } from "./api";
+import type { GenerationProgressEvent } from "@/types/generationProgress";
+
+export type ProgressStreamStatus = "connecting" | "open" | "reconnecting" | "closed";
+
+export type ProgressStreamHandlers = {
+  onEvent: (ev: GenerationProgressEvent) => void;
+  // The backend sends `{ event: "progress.ready" }` once the subscription is live.
+  onReady?: () => void;
+  onStatusChange?: (status: ProgressStreamStatus) => void;
+  // Called once when reconnect attempts are exhausted.
+  onGiveUp?: () => void;
+};
+
+export type ProgressStreamOptions = {
+  // Resume after this SSE event id instead of replaying the whole buffer.
+  lastEventId?: string | null;
+  maxReconnectAttempts?: number;
+};
+
+export type ProgressSubscription = {
+  close: () => void;
+  lastEventId: () => string | null;
+};
+
+const BASE_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 15000;
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 8;
+
+function isTerminalEvent(ev: GenerationProgressEvent): boolean {
+  return ev.type === "generation_completed" || ev.type === "generation_complete" || ev.type === "generation_failed";
+}
+
+/**
+ * Subscribes to `/sessions/:id/generate/stream` and keeps the subscription alive until a
+ * terminal event arrives or `close()` is called.
+ *
+ * The browser's own EventSource retry already sends `Last-Event-ID`. When the connection
+ * is closed for good (e.g. the backend restarted), we open a new EventSource ourselves and
+ * pass the last seen id as `?lastEventId=` since EventSource cannot set headers. Events
+ * with an already-seen id are dropped, so replays never apply twice. `MessageEvent.lastEventId`
+ * carries over to events sent without an `id:` line, so only a changed value counts as an id.
+ */
+export function subscribeToGenerationProgress(
+  sessionId: string,
+  handlers: ProgressStreamHandlers,
+  options: ProgressStreamOptions = {},
+): ProgressSubscription {
+  const maxAttempts = options.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+  const seenIds = new Set<string>();
+  let lastEventId: string | null = options.lastEventId ?? null;
+  let source: EventSource | null = null;
+  let reconnectTimer: number | null = null;
+  let attempts = 0;
+  let closed = false;
+
+  const setStatus = (status: ProgressStreamStatus) => handlers.onStatusChange?.(status);
+
+  const stop = () => {
+    closed = true;
+    if (reconnectTimer != null) window.clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    try {
+      source?.close();
+    } catch {
+      // ignore
+    }
+    source = null;
+    setStatus("closed");
+  };
+
+  const scheduleReconnect = () => {
+    if (closed) return;
+    if (attempts >= maxAttempts) {
+      stop();
+      handlers.onGiveUp?.();
+      return;
+    }
+    const delay = Math.min(MAX_RECONNECT_DELAY_MS, BASE_RECONNECT_DELAY_MS * 2 ** attempts);
+    attempts += 1;
+    setStatus("reconnecting");
+    reconnectTimer = window.setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (closed) return;
+    const base = generationStreamUrl(sessionId);
+    const url = lastEventId ? `${base}?lastEventId=${encodeURIComponent(lastEventId)}` : base;
+    const es = new EventSource(url);
+    source = es;
+    let connectionLastId = "";
+    setStatus(attempts === 0 ? "connecting" : "reconnecting");
+
+    es.onopen = () => {
+      setStatus("open");
+    };
+
+    es.onmessage = (msg) => {
+      const id = msg.lastEventId;
+      if (id && id !== connectionLastId) {
+        connectionLastId = id;
+        if (seenIds.has(id)) return;
+        seenIds.add(id);
+        lastEventId = id;
+      }
+      attempts = 0;
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(msg.data);
+      } catch {
+        return;
+      }
+      if (!payload || typeof payload !== "object") return;
+      if ((payload as { event?: unknown }).event === "progress.ready") {
+        handlers.onReady?.();
+        return;
+      }
+
+      const ev = payload as GenerationProgressEvent;
+      if (typeof ev.type !== "string") return;
+      handlers.onEvent(ev);
+      if (isTerminalEvent(ev)) stop();
+    };
+
+    es.onerror = () => {
+      if (closed) return;
+      // CONNECTING means the browser is already retrying with Last-Event-ID.
+      if (es.readyState === EventSource.CONNECTING) {
+        setStatus("reconnecting");
+        return;
+      }
+      try {
+        es.close();
+      } catch {
+        // ignore
+      }
+      if (source === es) source = null;
+      scheduleReconnect();
+    };
+  };
+
+  connect();
+
+  return {
+    close: stop,
+    lastEventId: () => lastEventId,
+  };
+}
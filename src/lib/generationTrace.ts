@@ -0,0 +1,188 @@
+import { generationTraceUrl } from "./api";
+
+export type TraceCategory = "llm" | "contract" | "docker" | "generation" | "other";
+
+export type TraceEntry = {
+  // Position in the stream; stable key for rendering.
+  seq: number;
+  type: string;
+  category: TraceCategory;
+  slotIndex: number | null;
+  attempt: number | null;
+  ts: string | null;
+  // Human-readable summary (error text, log excerpt, or the event type).
+  summary: string;
+  // Longer text worth a <pre> block, such as Docker stdout/stderr or a raw LLM output.
+  detail: string | null;
+  raw: Record<string, unknown>;
+};
+
+export type TraceSubscription = {
+  close: () => void;
+};
+
+const TRACE_FLAG_KEY = "codem-trace-viewer";
+
+/**
+ * The trace feed exposes LLM output and validation logs, so the panel is opt-in:
+ * `NEXT_PUBLIC_ENABLE_TRACE_VIEWER=1` at build time, or `localStorage["codem-trace-viewer"] = "1"`.
+ */
+export function isTraceViewerEnabled(): boolean {
+  if (process.env.NEXT_PUBLIC_ENABLE_TRACE_VIEWER === "1") return true;
+  if (typeof window === "undefined") return false;
+  try {
+    return localStorage.getItem(TRACE_FLAG_KEY) === "1";
+  } catch {
+    return false;
+  }
+}
+
+function categorize(type: string): TraceCategory {
+  if (type.includes("docker") || type.includes("validation")) return "docker";
+  if (type.includes("contract")) return "contract";
+  if (type.includes("llm") || type.includes("attempt") || type.includes("prompt")) return "llm";
+  if (type.startsWith("generation")) return "generation";
+  return "other";
+}
+
+function firstText(raw: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    const v = raw[key];
+    if (typeof v === "string" && v.trim()) return v;
+  }
+  return null;
+}
+
+function firstNumber(raw: Record<string, unknown>, keys: string[]): number | null {
+  for (const key of keys) {
+    const v = raw[key];
+    if (typeof v === "number" && Number.isFinite(v)) return v;
+  }
+  return null;
+}
+
+// Trace payloads are not part of the stable progress contract; read them defensively.
+export function parseTraceEvent(data: unknown, seq: number): TraceEntry | null {
+  if (!data || typeof data !== "object" || Array.isArray(data)) return null;
+  const raw = data as Record<string, unknown>;
+  const type = firstText(raw, ["type", "event", "kind"]);
+  if (!type || type === "progress.ready" || type === "trace.ready") return null;
+
+  const detailParts = [
+    firstText(raw, ["stdout"]),
+    firstText(raw, ["stderr"]),
+    firstText(raw, ["log", "logs", "output", "rawOutput"]),
+  ].filter((x): x is string => x != null);
+
+  return {
+    seq,
+    type,
+    category: categorize(type),
+    slotIndex: firstNumber(raw, ["slotIndex", "index"]),
+    attempt: firstNumber(raw, ["attempt"]),
+    ts: firstText(raw, ["ts", "timestamp", "at"]),
+    summary: firstText(raw, ["shortError", "error", "message", "summary"]) ?? type,
+    detail: detailParts.length > 0 ? detailParts.join("\n\n") : null,
+    raw,
+  };
+}
+
+export type TraceSlotGroup = {
+  // `null` collects session-level entries (generation started/completed, etc).
+  slotIndex: number | null;
+  entries: TraceEntry[];
+};
+
+export function groupTraceBySlot(entries: readonly TraceEntry[]): TraceSlotGroup[] {
+  const bySlot = new Map<number | null, TraceEntry[]>();
+  for (const e of entries) {
+    const list = bySlot.get(e.slotIndex);
+    if (list) list.push(e);
+    else bySlot.set(e.slotIndex, [e]);
+  }
+  return Array.from(bySlot.entries())
+    .map(([slotIndex, list]) => ({ slotIndex, entries: list }))
+    .sort((a, b) => {
+      if (a.slotIndex === b.slotIndex) return 0;
+      if (a.slotIndex == null) return -1;
+      if (b.slotIndex == null) return 1;
+      return a.slotIndex - b.slotIndex;
+    });
+}
+
+function isTerminalTraceType(type: string): boolean {
+  return type === "generation_completed" || type === "generation_complete";
+}
+
+/**
+ * Streams trace entries until generation completes or `close()` is called. The backend replays
+ * its buffer when the browser reconnects, so entries with an already-seen SSE id are dropped
+ * (as in `subscribeToGenerationProgress`, only a changed `lastEventId` counts as an id).
+ * `onError(willRetry)` reports interruptions: `true` while the browser is reconnecting,
+ * `false` once the stream is closed for good; `onOpen` fires on every (re)connect.
+ */
+export function subscribeToGenerationTrace(
+  sessionId: string,
+  handlers: { onEntry: (entry: TraceEntry) => void; onError?: (willRetry: boolean) => void; onOpen?: () => void },
+): TraceSubscription {
+  let seq = 0;
+  let lastId = "";
+  const seenIds = new Set<string>();
+  const es = new EventSource(generationTraceUrl(sessionId));
+
+  es.onopen = () => handlers.onOpen?.();
+
+  es.onmessage = (msg) => {
+    const id = msg.lastEventId;
+    if (id && id !== lastId) {
+      lastId = id;
+      if (seenIds.has(id)) return;
+      seenIds.add(id);
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(msg.data);
+    } catch {
+      return;
+    }
+    const entry = parseTraceEvent(payload, seq);
+    if (!entry) return;
+    seq += 1;
+    handlers.onEntry(entry);
+    // Closing here keeps the browser from reconnecting (and replaying) once the run is over.
+    if (isTerminalTraceType(entry.type)) es.close();
+  };
+
+  es.onerror = () => {
+    // CONNECTING: the browser retries on its own. CLOSED: e.g. the endpoint is disabled (404).
+    handlers.onError?.(es.readyState === EventSource.CONNECTING);
+  };
+
+  return {
+    close: () => {
+      try {
+        es.close();
+      } catch {
+        // ignore
+      }
+    },
+  };
+}
+
+export function downloadTraceJson(sessionId: string, entries: readonly TraceEntry[]) {
+  const body = JSON.stringify(
+    { sessionId, exportedAt: new Date().toISOString(), events: entries.map((e) => e.raw) },
+    null,
+    2,
+  );
+  const url = URL.createObjectURL(new Blob([body], { type: "application/json" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `codemm-trace-${sessionId}.json`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Revoking synchronously can cancel the download in some browsers.
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { readFixture } from "../__fixtures__";
+import { parseCppTestOutput } from "./cpp";
+
+describe("parseCppTestOutput", () => {
+  const out = parseCppTestOutput(readFixture("testOutput/cpp-harness.txt"));
+
+  it("reads one status line per test and skips the summary line", () => {
+    expect(out.passed).toEqual(["test_case_1", "test_case_5"]);
+    expect(out.failed).toEqual(["test_case_2", "test_case_3", "test_case_4"]);
+  });
+
+  it("splits `expected X, got Y` failure messages", () => {
+    expect(out.cases.test_case_2).toMatchObject({
+      status: "failed",
+      message: "expected 5, got 6",
+      expected: "5",
+      actual: "6",
+    });
+  });
+
+  it("keeps other failure messages as-is", () => {
+    expect(out.cases.test_case_4).toMatchObject({ message: "exception: empty input" });
+    expect(out.cases.test_case_4?.expected).toBeUndefined();
+  });
+
+  it("accepts the `test_case_N: PASSED` form", () => {
+    const suffixed = parseCppTestOutput("test_case_1: PASSED\ntest_case_2: FAILED - expected 3 but got 4\n");
+    expect(suffixed.passed).toEqual(["test_case_1"]);
+    expect(suffixed.cases.test_case_2).toMatchObject({ expected: "3", actual: "4" });
+  });
+});
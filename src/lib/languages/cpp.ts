@@ -1,3 +1,6 @@
+import { emptyTestOutput, recordTestOutcome, stripAnsi, type ParsedTestOutput } from "./testOutput";
+import type { LanguageAdapter } from "./types";
+
 export const CPP_FILENAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*\.(?:cpp|h|hpp)$/;
 
 export function hasCppMainMethod(source: string): boolean {
@@ -10,3 +13,97 @@ export function buildCppMainTemplate(): string {
   return `#include <bits/stdc++.h>\n\nint main() {\n    // Manual sandbox for debugging.\n    // Edit main.cpp to call solve(...) with your own test values.\n    std::cout << \"Main running. Edit main.cpp to debug your solution.\" << std::endl;\n    return 0;\n}\n`;
 }
 
+function parseCppExpectedActual(message: string): { expected: string; actual: string } | null {
+  const m =
+    message.match(/expected\s*[:=]?\s*(.+?)[,;]?\s+(?:but\s+)?(?:got|actual|was)\s*[:=]?\s*(.+)$/i) ??
+    message.match(/^(.+?)\s*!=\s*(.+)$/);
+  if (!m) return null;
+  return { expected: m[1]!.trim(), actual: m[2]!.trim() };
+}
+
+/**
+ * Parses the `RUN_TEST("test_case_N", ...)` harness output. The harness prints one status line
+ * per test; both `[PASS] test_case_1` / `[FAIL] test_case_2: message` and
+ * `test_case_1: PASSED` / `test_case_2: FAILED - message` forms are accepted (see
+ * docs/pipelines/grading.md for the harness contract).
+ */
+export function parseCppTestOutput(stdout: string): ParsedTestOutput {
+  const out = emptyTestOutput();
+  for (const line of stripAnsi(stdout).split(/\r?\n/)) {
+    const prefixed = line.match(/^\s*\[\s*(PASS|PASSED|OK|FAIL|FAILED)\s*\]\s*(test_case_\d+)\b\s*[:\-–]?\s*(.*)$/i);
+    const suffixed = line.match(/^\s*(test_case_\d+)\b\s*[:\-–]?\s*(PASS|PASSED|OK|FAIL|FAILED)\b\s*[:\-–]?\s*(.*)$/i);
+    const m = prefixed
+      ? { status: prefixed[1]!, name: prefixed[2]!, rest: prefixed[3] ?? "" }
+      : suffixed
+        ? { status: suffixed[2]!, name: suffixed[1]!, rest: suffixed[3] ?? "" }
+        : null;
+    if (!m) continue;
+
+    const failed = /^FAIL/i.test(m.status);
+    const message = m.rest.trim() || undefined;
+    const parsed = failed && message ? parseCppExpectedActual(message) : null;
+    recordTestOutcome(out, {
+      name: m.name,
+      status: failed ? "failed" : "passed",
+      message: failed ? message : undefined,
+      expected: parsed?.expected,
+      actual: parsed?.actual,
+    });
+  }
+  return out;
+}
+
+export function countCppTests(testSuite: string): number {
+  const re = /RUN_TEST\s*\(\s*"test_case_(\d+)"/g;
+  const seen = new Set<string>();
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(testSuite)) !== null) {
+    if (m[1]) seen.add(m[1]);
+  }
+  return seen.size;
+}
+
+export const cppAdapter: LanguageAdapter = {
+  id: "cpp",
+  label: "C++",
+  monacoLanguage: "cpp",
+  defaultStarterCode:
+    "#include <bits/stdc++.h>\n\n// Implement solve(...) below.\nauto solve(auto x) { (void)x; return 0; }\n",
+  buildStarterWorkspace: (starterCode) => ({
+    files: {
+      "solution.cpp": starterCode,
+      "main.cpp": buildCppMainTemplate(),
+    },
+    fileRoles: {
+      "solution.cpp": "support",
+      "main.cpp": "entry",
+    },
+    entrypoint: "main.cpp",
+    activeFilename: "solution.cpp",
+  }),
+  filenamePattern: CPP_FILENAME_PATTERN,
+  newFilePrompt: 'New file name (e.g., "helper.hpp" or "helper.cpp")',
+  invalidFilenameMessage:
+    'Invalid filename. Use something like "helper.hpp" or "helper.cpp" (letters/numbers/underscore, must end with .hpp/.h/.cpp).',
+  newFileSkeleton: (filename) => (filename.endsWith(".cpp") ? `#include <bits/stdc++.h>\n\n` : `#pragma once\n\n`),
+  runMode: "main",
+  runner: "backend",
+  defaultEntryFile: "main.cpp",
+  resolveEntryFile: () => "main.cpp",
+  hasMainEntrypoint: hasCppMainMethod,
+  mainSignature: "int main(...)",
+  runTitle: (entryFile) => `Runs ${entryFile}`,
+  runDescription: (entryFile) => `runs whatever you put in ${entryFile}.`,
+  runRequestOptions: () => ({}),
+  countTests: countCppTests,
+  parseTestOutput: parseCppTestOutput,
+  // The test harness provides its own main(); only solution.cpp and headers are compiled with it.
+  filesForSubmission: (files, fileRoles) =>
+    Object.fromEntries(
+      Object.entries(files).filter(([filename]) => {
+        if (fileRoles[filename] === "readonly") return false;
+        if (filename.endsWith(".cpp")) return filename === "solution.cpp";
+        return true;
+      }),
+    ),
+};
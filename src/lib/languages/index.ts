@@ -2,5 +2,10 @@ export * from "./types";
 export * from "./java";
 export * from "./python";
 export * from "./cpp";
+export * from "./sql";
+export * from "./javascript";
+export * from "./typescript";
+export * from "./registry";
 export * from "./testCounting";
-
+export * from "./testOutput";
+export * from "./testResults";
@@ -1,3 +1,6 @@
+import { emptyTestOutput, recordTestOutcome, stripAnsi, type ParsedTestOutput } from "./testOutput";
+import { editableFiles, type LanguageAdapter } from "./types";
+
 export const JAVA_FILENAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*\.java$/;
 
 export function hasJavaMainMethod(source: string): boolean {
@@ -16,3 +19,119 @@ export function buildMainJavaTemplate(primaryClassName: string): string {
   return `public class Main {\n    public static void main(String[] args) {\n        // Manual sandbox for debugging.\n        // Example (edit this):\n        // ${primaryClassName} obj = new ${primaryClassName}(/* TODO */);\n        // System.out.println(obj);\n        System.out.println(\"Main running. Edit Main.java to debug your solution.\");\n    }\n}\n`;
 }
 
+export function parseJUnitTree(stdout: string): { passed: string[]; failed: string[] } {
+  const clean = stripAnsi(stdout);
+  const passed: string[] = [];
+  const failed: string[] = [];
+  const seen = new Set<string>();
+
+  for (const line of clean.split(/\r?\n/)) {
+    // Example:
+    // |   +-- testFoo() [OK]
+    // |   +-- testBar() [X] expected: <...> but was: <...>
+    const m = line.match(/([A-Za-z_][A-Za-z0-9_]*)\(\)\s+\[(OK|X)\]/);
+    if (!m) continue;
+    const name = m[1]!;
+    const status = m[2]!;
+    const key = `${name}:${status}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (status === "OK") passed.push(name);
+    if (status === "X") failed.push(name);
+  }
+
+  return { passed, failed };
+}
+
+export function parseExpectedActual(message: string): { expected: string; actual: string } | null {
+  // Common JUnit assertion format for assertEquals:
+  // "expected: <0> but was: <-5>"
+  const m = message.match(/expected:\s*<([\s\S]*?)>\s*but\s+was:\s*<([\s\S]*?)>/i);
+  if (!m) return null;
+  return { expected: m[1] ?? "", actual: m[2] ?? "" };
+}
+
+export function parseJUnitFailures(stdout: string): Record<string, { message: string; location?: string }> {
+  const clean = stripAnsi(stdout);
+  const failures: Record<string, { message: string; location?: string }> = {};
+
+  // Looks for:
+  // JUnit Jupiter:PersonTest:testNegativeAgeSetsZero()
+  //   ...
+  //   => org.opentest4j.AssertionFailedError: expected: <0> but was: <-5>
+  //      ...
+  //      PersonTest.testNegativeAgeSetsZero(PersonTest.java:23)
+  const re =
+    /JUnit Jupiter:[^:\n]+:([A-Za-z_][A-Za-z0-9_]*)\(\)\s*\n[\s\S]*?=>\s*([^\n]+)(?:[\s\S]*?\(([A-Za-z0-9_]+\.java:\d+)\))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(clean)) !== null) {
+    const testName = match[1]!;
+    const message = match[2]!.trim();
+    const location = match[3]?.trim();
+    failures[testName] = { message, location };
+  }
+
+  return failures;
+}
+
+/** Combines the JUnit console tree and failure blocks into per-test outcomes. */
+export function parseJUnitOutput(stdout: string): ParsedTestOutput {
+  const out = emptyTestOutput();
+  const tree = parseJUnitTree(stdout);
+  for (const name of tree.passed) recordTestOutcome(out, { name, status: "passed" });
+  for (const name of tree.failed) recordTestOutcome(out, { name, status: "failed" });
+  for (const [name, info] of Object.entries(parseJUnitFailures(stdout))) {
+    const parsed = parseExpectedActual(info.message);
+    recordTestOutcome(out, {
+      name,
+      status: "failed",
+      message: info.message,
+      location: info.location,
+      expected: parsed?.expected,
+      actual: parsed?.actual,
+    });
+  }
+  return out;
+}
+
+export const javaAdapter: LanguageAdapter = {
+  id: "java",
+  label: "Java",
+  monacoLanguage: "java",
+  defaultStarterCode: "public class Solution {\n}\n",
+  buildStarterWorkspace: (starterCode) => {
+    const primaryClassName = inferJavaClassName(starterCode, "Solution");
+    const primaryFilename = `${primaryClassName}.java`;
+    return {
+      files: {
+        [primaryFilename]: starterCode,
+        "Main.java": buildMainJavaTemplate(primaryClassName),
+      },
+      fileRoles: {
+        [primaryFilename]: "support",
+        "Main.java": "entry",
+      },
+      entrypoint: "Main",
+      activeFilename: primaryFilename,
+    };
+  },
+  filenamePattern: JAVA_FILENAME_PATTERN,
+  newFilePrompt: 'New file name (e.g., "Helper.java")',
+  invalidFilenameMessage:
+    'Invalid filename. Use something like "Helper.java" (letters/numbers/underscore, must end with .java).',
+  newFileSkeleton: (filename) => `public class ${filename.replace(/\.[A-Za-z0-9_]+$/i, "")} {\n\n}\n`,
+  runMode: "main",
+  runner: "backend",
+  defaultEntryFile: "Main.java",
+  // Java workspaces may name their own entry class file.
+  resolveEntryFile: (fileRoles) =>
+    Object.entries(fileRoles).find(([, role]) => role === "entry")?.[0] ?? "Main.java",
+  hasMainEntrypoint: hasJavaMainMethod,
+  mainSignature: "public static void main(String[] args)",
+  runTitle: (entryFile) => `Runs ${entryFile}`,
+  runDescription: (entryFile) => `runs whatever you put in ${entryFile}.`,
+  runRequestOptions: (entrypoint) => ({ mainClass: entrypoint || "Main" }),
+  countTests: (testSuite) => (testSuite.match(/@Test\b/g) ?? []).length,
+  parseTestOutput: parseJUnitOutput,
+  filesForSubmission: editableFiles,
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { readFixture } from "../__fixtures__";
+import { parseJestOutput } from "./javascript";
+
+describe("parseJestOutput", () => {
+  describe("--verbose output", () => {
+    const out = parseJestOutput(readFixture("testOutput/jest-verbose.txt"));
+
+    it("reads the per-test status lines", () => {
+      expect(out.passed).toEqual(["test_case_1", "test_case_4"]);
+      expect(out.failed).toEqual(["test_case_2", "test_case_3"]);
+      expect(out.suiteError).toBeUndefined();
+    });
+
+    it("takes expected/received and the test file location from the failure block", () => {
+      expect(out.cases.test_case_2).toMatchObject({
+        status: "failed",
+        expected: "5",
+        actual: "6",
+        location: "solution.test.js:9",
+      });
+    });
+
+    it("keeps console output printed after the failures out of the last failure message", () => {
+      expect(out.cases.test_case_3?.message).toContain("empty input");
+      expect(out.cases.test_case_3?.message).not.toContain("debug [");
+    });
+  });
+
+  describe("several test files with the default reporter", () => {
+    const out = parseJestOutput(readFixture("testOutput/jest-multi-suite.txt"));
+
+    it("skips `● Console` blocks and reads failures from the `●` headers", () => {
+      expect(out.failed).toEqual(["test_case_2", "test_case_3"]);
+      expect(out.cases).not.toHaveProperty("Console");
+    });
+
+    it("reports `● Test suite failed to run` as a suite error, not a test case", () => {
+      expect(out.cases).not.toHaveProperty("Test suite failed to run");
+      expect(out.suiteError).toContain("Cannot find module './helpers' from 'other.test.js'");
+      expect(out.cases.test_case_3?.message).not.toContain("other.test.js");
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { emptyTestOutput, recordTestOutcome, stripAnsi, type ParsedTestOutput } from "./testOutput";
+import { editableFiles, type LanguageAdapter } from "./types";
+
+export const JAVASCRIPT_FILENAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*\.(?:js|mjs|cjs)$/;
+
+export function buildJavaScriptMainTemplate(): string {
+  return `const { solve } = require("./solution");\n\nfunction parseStdin(raw) {\n  const s = raw.trim();\n  if (s === "") return undefined;\n  try {\n    return JSON.parse(s);\n  } catch {\n    return raw;\n  }\n}\n\nconst data = parseStdin(require("fs").readFileSync(0, "utf8"));\nconst out = Array.isArray(data) ? solve(...data) : solve(data);\nif (out !== undefined) process.stdout.write(typeof out === "string" ? out : JSON.stringify(out));\n`;
+}
+
+// `test("...")`, `it("...")`, plus `.only`/`.skip`/`.each` variants; `describe` blocks are not tests.
+export function countJestTests(testSuite: string): number {
+  return (testSuite.match(/^\s*(?:test|it)(?:\.(?:only|skip|concurrent))?(?:\.each\s*(?:\([^)]*\)|`[^`]*`))?\s*\(/gm) ?? [])
+    .length;
+}
+
+function parseJestExpectedReceived(block: string[]): { expected: string; actual: string } | null {
+  let expected: string | null = null;
+  let actual: string | null = null;
+  for (const line of block) {
+    const e = line.match(/^\s*Expected(?:\s+value)?\s*:\s*(.*)$/);
+    if (e && expected == null) expected = e[1]!.trim();
+    const r = line.match(/^\s*Received(?:\s+value)?\s*:\s*(.*)$/);
+    if (r && actual == null) actual = r[1]!.trim();
+  }
+  return expected != null && actual != null ? { expected, actual } : null;
+}
+
+// "suite > nested > name" (Vitest) and "suite › name" (Jest) both end in the test's own title.
+function leafTestName(fullName: string): string {
+  const parts = fullName.split(/\s+[›>]\s+/);
+  return (parts[parts.length - 1] ?? fullName).trim();
+}
+
+function failureMessage(block: string[]): string {
+  return block
+    .map((l) => l.trim())
+    .filter((l) => l && !l.startsWith("at "))
+    .slice(0, 12)
+    .join("\n");
+}
+
+type FailureBlock = { kind: "test"; name: string } | { kind: "suite" } | { kind: "console" };
+
+/**
+ * Parses Jest `--verbose` and Vitest default reporter output: `✓ name (3 ms)` / `✕ name` /
+ * `× name` status lines, and `● suite › name` failure blocks with `Expected:` / `Received:`
+ * lines and `at Object.<anonymous> (file.test.js:12:5)` locations. `● Test suite failed to run`
+ * becomes `suiteError`; `● Console` and `console.log` blocks are skipped.
+ */
+export function parseJestOutput(stdout: string): ParsedTestOutput {
+  const out = emptyTestOutput();
+  const lines = stripAnsi(stdout).split(/\r?\n/);
+
+  for (const line of lines) {
+    const m = line.match(/^\s*(✓|√|✔|✕|×|✗)\s+(.+?)(?:\s+\(\d+(?:\.\d+)?\s*m?s\))?\s*$/);
+    if (!m) continue;
+    const name = leafTestName(m[2]!.replace(/^\S+\.(?:test|spec)\.[cm]?[jt]sx?\s+>\s+/, ""));
+    if (!name) continue;
+    recordTestOutcome(out, { name, status: /[✓√✔]/.test(m[1]!) ? "passed" : "failed" });
+  }
+
+  const suiteErrors: string[] = [];
+  let current: FailureBlock | null = null;
+  let block: string[] = [];
+  const flush = () => {
+    if (current?.kind === "suite") {
+      suiteErrors.push(failureMessage(block) || "Test suite failed to run");
+    } else if (current?.kind === "test") {
+      const message = failureMessage(block);
+      const parsed = parseJestExpectedReceived(block);
+      const loc = block
+        .map((l) => l.match(/\(([^()\s]+\.(?:test|spec)\.[cm]?[jt]sx?):(\d+):\d+\)/))
+        .find((x) => x != null);
+      recordTestOutcome(out, {
+        name: current.name,
+        status: "failed",
+        message: message || undefined,
+        location: loc ? `${loc[1]}:${loc[2]}` : undefined,
+        expected: parsed?.expected,
+        actual: parsed?.actual,
+      });
+    }
+    current = null;
+    block = [];
+  };
+
+  for (const line of lines) {
+    const header = line.match(/^\s*●\s+(.+?)\s*$/) ?? line.match(/^\s*FAIL\s+\S+\.(?:test|spec)\.[cm]?[jt]sx?\s+>\s+(.+?)\s*$/);
+    if (header) {
+      flush();
+      const title = header[1]!;
+      current =
+        title === "Console"
+          ? { kind: "console" }
+          : title === "Test suite failed to run"
+          ? { kind: "suite" }
+          : { kind: "test", name: leafTestName(title) };
+      continue;
+    }
+    // Jest prints captured console output after the failures when there is no `● Console` header.
+    if (/^ {0,2}console\.(?:log|info|warn|error|debug|trace)\s*$/.test(line)) {
+      flush();
+      current = { kind: "console" };
+      continue;
+    }
+    if (/^\s*(?:Test Suites|Tests|Test Files):/.test(line) || /^\s*(?:PASS|FAIL)\s+\S+\s*$/.test(line)) {
+      flush();
+      continue;
+    }
+    if (current) block.push(line);
+  }
+  flush();
+
+  if (suiteErrors.length > 0) out.suiteError = suiteErrors.join("\n\n");
+  return out;
+}
+
+export const javascriptAdapter: LanguageAdapter = {
+  id: "javascript",
+  label: "JavaScript",
+  monacoLanguage: "javascript",
+  defaultStarterCode:
+    "function solve(x) {\n  // TODO: implement\n  throw new Error(\"Not implemented\");\n}\n\nmodule.exports = { solve };\n",
+  buildStarterWorkspace: (starterCode) => ({
+    files: {
+      "solution.js": starterCode,
+      "main.js": buildJavaScriptMainTemplate(),
+    },
+    fileRoles: {
+      "solution.js": "support",
+      "main.js": "entry",
+    },
+    entrypoint: "main.js",
+    activeFilename: "solution.js",
+  }),
+  filenamePattern: JAVASCRIPT_FILENAME_PATTERN,
+  newFilePrompt: 'New file name (e.g., "utils.js")',
+  invalidFilenameMessage:
+    'Invalid filename. Use something like "utils.js" (letters/numbers/underscore, must end with .js/.mjs/.cjs).',
+  newFileSkeleton: (filename) => `// ${filename}\n\nmodule.exports = {};\n`,
+  runMode: "harness",
+  runner: "backend",
+  defaultEntryFile: "main.js",
+  resolveEntryFile: () => "main.js",
+  hasMainEntrypoint: () => true,
+  mainSignature: null,
+  runTitle: () => "Runs main.js (harness) and prints solve(...)",
+  runDescription: () => "runs a small harness that calls solve(...) from solution.js.",
+  runRequestOptions: () => ({}),
+  countTests: countJestTests,
+  parseTestOutput: parseJestOutput,
+  filesForSubmission: editableFiles,
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { readFixture } from "../__fixtures__";
+import { parsePytestOutput } from "./python";
+
+describe("parsePytestOutput", () => {
+  const out = parsePytestOutput(readFixture("testOutput/pytest-verbose.txt"));
+
+  it("reads the per-test status lines", () => {
+    expect(out.passed).toEqual(["test_case_1", "test_case_5"]);
+    expect(out.failed).toEqual(["test_case_2", "test_case_3", "test_case_4"]);
+  });
+
+  it("takes expected/actual from the assertion in the failure section", () => {
+    expect(out.cases.test_case_2).toMatchObject({
+      status: "failed",
+      expected: "5",
+      actual: "6",
+      location: "test_solution.py:10",
+    });
+    expect(out.cases.test_case_2?.message).toContain("assert 6 == 5");
+  });
+
+  it("keeps the exception message for tests that raise", () => {
+    expect(out.cases.test_case_4?.message).toBe("ValueError: empty input");
+    expect(out.cases.test_case_4?.expected).toBeUndefined();
+  });
+
+  it("falls back to the short summary when there is no failure section", () => {
+    const summaryOnly = parsePytestOutput("FAILED test_solution.py::test_case_7 - assert 1 == 2\n");
+    expect(summaryOnly.failed).toEqual(["test_case_7"]);
+    expect(summaryOnly.cases.test_case_7?.message).toBe("assert 1 == 2");
+  });
+});
@@ -1,6 +1,116 @@
+import { emptyTestOutput, recordTestOutcome, stripAnsi, type ParsedTestOutput } from "./testOutput";
+import { editableFiles, type LanguageAdapter } from "./types";
+
 export const PYTHON_FILENAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*\.py$/;
 
 export function buildPythonMainTemplate(): string {
   return `import json\nimport sys\nimport traceback\n\nfrom solution import solve\n\n\ndef _parse_stdin() -> object:\n    raw = sys.stdin.read()\n    s = raw.strip()\n    if s == \"\":\n        return None\n    try:\n        return json.loads(s)\n    except Exception:\n        return raw\n\n\ndef main() -> None:\n    data = _parse_stdin()\n    try:\n        if isinstance(data, dict):\n            try:\n                out = solve(**data)\n            except TypeError:\n                out = solve(data)\n        elif isinstance(data, (list, tuple)):\n            try:\n                out = solve(*data)\n            except TypeError:\n                out = solve(data)\n        else:\n            out = solve(data)\n\n        if out is not None:\n            sys.stdout.write(str(out))\n    except Exception:\n        traceback.print_exc(file=sys.stderr)\n        raise\n\n\nif __name__ == \"__main__\":\n    main()\n`;
 }
 
+// `assert solve(3) == 6` / `assert 5 == 6`: pytest shows the evaluated actual value on the left.
+function parsePytestAssertion(line: string): { expected: string; actual: string } | null {
+  const m = line.match(/^assert\s+(.+?)\s+==\s+(.+)$/);
+  if (!m) return null;
+  return { actual: m[1]!.trim(), expected: m[2]!.trim() };
+}
+
+/**
+ * Parses `pytest -v` output: per-test `path::test_name PASSED|FAILED` lines, the
+ * `____ test_name ____` failure sections (`E ...` lines and `file.py:12: Error` locations) and
+ * the `short test summary info` lines (`FAILED path::test_name - message`).
+ */
+export function parsePytestOutput(stdout: string): ParsedTestOutput {
+  const out = emptyTestOutput();
+  const lines = stripAnsi(stdout).split(/\r?\n/);
+
+  for (const line of lines) {
+    const m = line.match(/(?:^|\s)(?:[^\s:]+::)*(test_[A-Za-z0-9_]+)(?:\[[^\]]*\])?\s+(PASSED|FAILED|ERROR)\b/);
+    if (m) recordTestOutcome(out, { name: m[1]!, status: m[2] === "PASSED" ? "passed" : "failed" });
+  }
+
+  let current: string | null = null;
+  let errorLines: string[] = [];
+  const flushSection = () => {
+    if (!current) return;
+    const message = errorLines.join("\n").trim();
+    const assertion = errorLines.map((l) => parsePytestAssertion(l.trim())).find((x) => x != null);
+    recordTestOutcome(out, {
+      name: current,
+      status: "failed",
+      message: message || undefined,
+      expected: assertion?.expected,
+      actual: assertion?.actual,
+    });
+    current = null;
+    errorLines = [];
+  };
+
+  for (const line of lines) {
+    const header = line.match(/^_{3,}\s+(?:[A-Za-z0-9_]+\.)?(test_[A-Za-z0-9_]+)(?:\[[^\]]*\])?\s+_{3,}$/);
+    if (header) {
+      flushSection();
+      current = header[1]!;
+      continue;
+    }
+    if (/^(?:={3,}|_{3,})/.test(line)) {
+      flushSection();
+      continue;
+    }
+    if (!current) continue;
+    const e = line.match(/^E\s{1,}(.*)$/);
+    if (e) {
+      errorLines.push(e[1]!);
+      continue;
+    }
+    const loc = line.match(/^([^\s:]+\.py):(\d+):\s/);
+    if (loc) recordTestOutcome(out, { name: current, status: "failed", location: `${loc[1]}:${loc[2]}` });
+  }
+  flushSection();
+
+  for (const line of lines) {
+    const m = line.match(/^(FAILED|ERROR)\s+(?:[^\s:]+::)*(test_[A-Za-z0-9_]+)(?:\[[^\]]*\])?(?:\s+-\s+(.*))?$/);
+    if (!m) continue;
+    const name = m[2]!;
+    // Keep the fuller `E` block message when the failure section already provided one.
+    const message = out.cases[name]?.message ? undefined : m[3]?.trim();
+    recordTestOutcome(out, { name, status: "failed", message });
+  }
+
+  return out;
+}
+
+export const pythonAdapter: LanguageAdapter = {
+  id: "python",
+  label: "Python",
+  monacoLanguage: "python",
+  defaultStarterCode: "def solve(x):\n    # TODO: implement\n    raise NotImplementedError\n",
+  buildStarterWorkspace: (starterCode) => ({
+    files: {
+      "solution.py": starterCode,
+      "main.py": buildPythonMainTemplate(),
+    },
+    fileRoles: {
+      "solution.py": "support",
+      "main.py": "entry",
+    },
+    entrypoint: "main.py",
+    activeFilename: "solution.py",
+  }),
+  filenamePattern: PYTHON_FILENAME_PATTERN,
+  newFilePrompt: 'New file name (e.g., "utils.py")',
+  invalidFilenameMessage:
+    'Invalid filename. Use something like "utils.py" (letters/numbers/underscore, must end with .py).',
+  newFileSkeleton: (filename) => `# ${filename.replace(/\.[A-Za-z0-9_]+$/i, "")}.py\n\n`,
+  runMode: "harness",
+  runner: "pyodide",
+  defaultEntryFile: "main.py",
+  resolveEntryFile: () => "main.py",
+  hasMainEntrypoint: () => true,
+  mainSignature: null,
+  runTitle: () => "Runs main.py (harness) and prints solve(...)",
+  runDescription: () => "runs a small harness that calls solve(...) from solution.py.",
+  runRequestOptions: () => ({}),
+  countTests: (testSuite) => (testSuite.match(/^\s*def\s+test_[A-Za-z0-9_]+\s*\(/gm) ?? []).length,
+  parseTestOutput: parsePytestOutput,
+  filesForSubmission: editableFiles,
+};
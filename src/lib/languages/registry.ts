@@ -0,0 +1,31 @@
+import { cppAdapter } from "./cpp";
+import { javaAdapter } from "./java";
+import { javascriptAdapter } from "./javascript";
+import { pythonAdapter } from "./python";
+import { sqlAdapter } from "./sql";
+import { typescriptAdapter } from "./typescript";
+import type { LanguageAdapter, LanguageId } from "./types";
+
+const LANGUAGE_ADAPTERS: Record<LanguageId, LanguageAdapter> = {
+  java: javaAdapter,
+  python: pythonAdapter,
+  cpp: cppAdapter,
+  sql: sqlAdapter,
+  javascript: javascriptAdapter,
+  typescript: typescriptAdapter,
+};
+
+export const LANGUAGE_IDS = Object.keys(LANGUAGE_ADAPTERS) as LanguageId[];
+
+export function isLanguageId(x: unknown): x is LanguageId {
+  return typeof x === "string" && Object.prototype.hasOwnProperty.call(LANGUAGE_ADAPTERS, x);
+}
+
+/** Unknown or missing languages fall back to Java, the original (pre-multi-language) default. */
+export function resolveLanguageId(x: unknown): LanguageId {
+  return isLanguageId(x) ? x : "java";
+}
+
+export function getLanguageAdapter(language: LanguageId): LanguageAdapter {
+  return LANGUAGE_ADAPTERS[language];
+}
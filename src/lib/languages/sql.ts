@@ -0,0 +1,39 @@
+import { emptyTestOutput } from "./testOutput";
+import { editableFiles, type LanguageAdapter } from "./types";
+
+export const sqlAdapter: LanguageAdapter = {
+  id: "sql",
+  label: "SQL",
+  monacoLanguage: "sql",
+  defaultStarterCode: "-- Write a single SELECT query.\nSELECT 1;\n",
+  buildStarterWorkspace: (starterCode) => ({
+    files: { "solution.sql": starterCode },
+    fileRoles: { "solution.sql": "support" },
+    entrypoint: "solution.sql",
+    activeFilename: "solution.sql",
+  }),
+  filenamePattern: null,
+  newFilePrompt: "",
+  invalidFilenameMessage: "SQL activities use a single solution.sql file.",
+  newFileSkeleton: () => "",
+  runMode: "none",
+  runner: "sqljs",
+  defaultEntryFile: "solution.sql",
+  resolveEntryFile: () => "solution.sql",
+  hasMainEntrypoint: () => false,
+  mainSignature: null,
+  runTitle: () => "SQL uses Run tests (or the SQL sandbox for a quick local check)",
+  runDescription: () => "is not available; use the SQL sandbox to try your query locally.",
+  runRequestOptions: () => ({}),
+  countTests: (testSuite) => {
+    try {
+      const parsed = JSON.parse(testSuite) as { cases?: unknown };
+      return Array.isArray(parsed.cases) ? parsed.cases.length : 0;
+    } catch {
+      return 0;
+    }
+  },
+  // SQL mismatches come back in stderr; the activity page parses those blocks directly.
+  parseTestOutput: () => emptyTestOutput(),
+  filesForSubmission: editableFiles,
+};
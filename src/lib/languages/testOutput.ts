@@ -0,0 +1,40 @@
+export type TestCaseOutcome = {
+  name: string;
+  status: "passed" | "failed";
+  message?: string;
+  // e.g. "PersonTest.java:23" or "test_solution.py:12"
+  location?: string;
+  expected?: string;
+  actual?: string;
+};
+
+export type ParsedTestOutput = {
+  passed: string[];
+  failed: string[];
+  cases: Record<string, TestCaseOutcome>;
+  // Set when the runner could not run a test file at all (e.g. Jest's "Test suite failed to run").
+  suiteError?: string;
+};
+
+export function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, "");
+}
+
+export function emptyTestOutput(): ParsedTestOutput {
+  return { passed: [], failed: [], cases: {} };
+}
+
+/** Records a test outcome; later details for the same test are merged in, a failure wins over a pass. */
+export function recordTestOutcome(out: ParsedTestOutput, outcome: TestCaseOutcome) {
+  const prev = out.cases[outcome.name];
+  const status = prev?.status === "failed" ? "failed" : outcome.status;
+  out.cases[outcome.name] = {
+    ...prev,
+    ...Object.fromEntries(Object.entries(outcome).filter(([, v]) => v !== undefined)),
+    name: outcome.name,
+    status,
+  };
+  out.passed = out.passed.filter((n) => n !== outcome.name);
+  out.failed = out.failed.filter((n) => n !== outcome.name);
+  (status === "passed" ? out.passed : out.failed).push(outcome.name);
+}
@@ -0,0 +1,8 @@
+import { getLanguageAdapter } from "./registry";
+import type { ParsedTestOutput } from "./testOutput";
+import type { LanguageId } from "./types";
+
+/** Parses the judge's test runner stdout for `language` into per-test outcomes. */
+export function parseTestOutput(language: LanguageId, stdout: string): ParsedTestOutput {
+  return getLanguageAdapter(language).parseTestOutput(stdout);
+}
@@ -1,3 +1,62 @@
-export type LanguageId = "java" | "python" | "cpp" | "sql";
+import type { ParsedTestOutput } from "./testOutput";
+
+export type LanguageId = "java" | "python" | "cpp" | "sql" | "javascript" | "typescript";
 
 export type FileRole = "entry" | "support" | "readonly";
+
+/** Files shown in the solver editor plus the run entrypoint. */
+export type LanguageWorkspace = {
+  files: Record<string, string>;
+  fileRoles: Record<string, FileRole>;
+  // Java: main class name; other languages: the entry filename.
+  entrypoint: string;
+  activeFilename: string;
+};
+
+/**
+ * Everything the solver UI needs to know about a language. One adapter per `LanguageId` is
+ * registered in `./registry`; pages should go through the adapter instead of branching on ids.
+ */
+export type LanguageAdapter = {
+  id: LanguageId;
+  label: string;
+  monacoLanguage: string;
+  defaultStarterCode: string;
+  // Workspace used when the backend problem has no explicit `workspace.files`.
+  buildStarterWorkspace: (starterCode: string) => LanguageWorkspace;
+
+  // `null` disables adding files (single-file languages).
+  filenamePattern: RegExp | null;
+  newFilePrompt: string;
+  invalidFilenameMessage: string;
+  newFileSkeleton: (filename: string) => string;
+
+  // "main": runs the entry file if it has a main entrypoint; "harness": always runnable;
+  // "none": only tests can be run.
+  runMode: "main" | "harness" | "none";
+  // Where code runs besides the backend judge: "pyodide" can run (and step-trace) the entry file
+  // in the browser, falling back to `/run`; "sqljs" checks queries against the suite in the SQL
+  // sandbox; "backend" has no in-browser runner.
+  runner: "backend" | "pyodide" | "sqljs";
+  defaultEntryFile: string;
+  // The file Run executes; workspaces whose language lets them pick it mark it with role "entry".
+  resolveEntryFile: (fileRoles: Record<string, FileRole>) => string;
+  hasMainEntrypoint: (source: string) => boolean;
+  // Human-readable main signature for "no entrypoint" hints.
+  mainSignature: string | null;
+  runTitle: (entryFile: string) => string;
+  // Sentence shown before the first run, e.g. "runs whatever you put in Main.java."
+  runDescription: (entryFile: string) => string;
+  runRequestOptions: (entrypoint: string) => { mainClass?: string };
+
+  countTests: (testSuite: string) => number;
+  parseTestOutput: (stdout: string) => ParsedTestOutput;
+  filesForSubmission: (files: Record<string, string>, fileRoles: Record<string, FileRole>) => Record<string, string>;
+};
+
+export function editableFiles(
+  files: Record<string, string>,
+  fileRoles: Record<string, FileRole>,
+): Record<string, string> {
+  return Object.fromEntries(Object.entries(files).filter(([filename]) => fileRoles[filename] !== "readonly"));
+}
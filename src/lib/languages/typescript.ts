@@ -0,0 +1,46 @@
+import { countJestTests, parseJestOutput } from "./javascript";
+import { editableFiles, type LanguageAdapter } from "./types";
+
+export const TYPESCRIPT_FILENAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*\.(?:ts|mts|cts)$/;
+
+export function buildTypeScriptMainTemplate(): string {
+  return `import { readFileSync } from "fs";\nimport { solve } from "./solution";\n\nfunction parseStdin(raw: string): unknown {\n  const s = raw.trim();\n  if (s === "") return undefined;\n  try {\n    return JSON.parse(s);\n  } catch {\n    return raw;\n  }\n}\n\nconst data = parseStdin(readFileSync(0, "utf8"));\nconst call = solve as (...args: unknown[]) => unknown;\nconst out = Array.isArray(data) ? call(...data) : call(data);\nif (out !== undefined) process.stdout.write(typeof out === "string" ? out : JSON.stringify(out));\n`;
+}
+
+export const typescriptAdapter: LanguageAdapter = {
+  id: "typescript",
+  label: "TypeScript",
+  monacoLanguage: "typescript",
+  defaultStarterCode:
+    "export function solve(x: unknown): unknown {\n  // TODO: implement\n  throw new Error(\"Not implemented\");\n}\n",
+  buildStarterWorkspace: (starterCode) => ({
+    files: {
+      "solution.ts": starterCode,
+      "main.ts": buildTypeScriptMainTemplate(),
+    },
+    fileRoles: {
+      "solution.ts": "support",
+      "main.ts": "entry",
+    },
+    entrypoint: "main.ts",
+    activeFilename: "solution.ts",
+  }),
+  filenamePattern: TYPESCRIPT_FILENAME_PATTERN,
+  newFilePrompt: 'New file name (e.g., "utils.ts")',
+  invalidFilenameMessage:
+    'Invalid filename. Use something like "utils.ts" (letters/numbers/underscore, must end with .ts/.mts/.cts).',
+  newFileSkeleton: (filename) => `// ${filename}\n\nexport {};\n`,
+  runMode: "harness",
+  runner: "backend",
+  defaultEntryFile: "main.ts",
+  resolveEntryFile: () => "main.ts",
+  hasMainEntrypoint: () => true,
+  mainSignature: null,
+  runTitle: () => "Runs main.ts (harness) and prints solve(...)",
+  runDescription: () => "runs a small harness that calls solve(...) from solution.ts.",
+  runRequestOptions: () => ({}),
+  // Same Jest/Vitest runners as JavaScript, via ts-jest or Vitest's native TS support.
+  countTests: countJestTests,
+  parseTestOutput: parseJestOutput,
+  filesForSubmission: editableFiles,
+};
@@ -0,0 +1,115 @@
+const STRING_ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  "0": "\0",
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+};
+
+/**
+ * Parses the `repr()` of simple Python values as printed by the judge's harnesses: lists,
+ * tuples, strings, numbers, `None`, `True`/`False`, plus `Decimal('…')` from sqlite3/db adapters.
+ * Returns `undefined` for anything else rather than guessing.
+ */
+export function parsePythonLiteral(text: string): unknown {
+  let pos = 0;
+
+  const fail = (): never => {
+    throw new Error(`Unexpected input at ${pos}`);
+  };
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos]!)) pos++;
+  };
+
+  const parseSequence = (close: "]" | ")"): unknown[] => {
+    pos++;
+    const items: unknown[] = [];
+    for (;;) {
+      skipWhitespace();
+      if (text[pos] === close) {
+        pos++;
+        return items;
+      }
+      items.push(parseValue());
+      skipWhitespace();
+      const sep = text[pos];
+      if (sep === ",") pos++;
+      else if (sep !== close) fail();
+    }
+  };
+
+  const parseString = (): string => {
+    const quote = text[pos]!;
+    pos++;
+    let out = "";
+    while (pos < text.length) {
+      const ch = text[pos]!;
+      if (ch === quote) {
+        pos++;
+        return out;
+      }
+      if (ch === "\\") {
+        const next = text[pos + 1] ?? "";
+        if (next === "x" || next === "u") {
+          const len = next === "x" ? 2 : 4;
+          const hex = text.slice(pos + 2, pos + 2 + len);
+          if (hex.length !== len || !/^[0-9a-fA-F]+$/.test(hex)) fail();
+          out += String.fromCharCode(parseInt(hex, 16));
+          pos += 2 + len;
+          continue;
+        }
+        out += STRING_ESCAPES[next] ?? `\\${next}`;
+        pos += 2;
+        continue;
+      }
+      out += ch;
+      pos++;
+    }
+    return fail();
+  };
+
+  const parseNumber = (): number => {
+    const m = /^[-+]?(?:inf|\d+\.?\d*(?:[eE][-+]?\d+)?|\.\d+(?:[eE][-+]?\d+)?)/.exec(text.slice(pos));
+    if (!m) return fail();
+    pos += m[0].length;
+    if (m[0].endsWith("inf")) return m[0].startsWith("-") ? -Infinity : Infinity;
+    return Number(m[0]);
+  };
+
+  function parseValue(): unknown {
+    skipWhitespace();
+    const ch = text[pos];
+    if (ch === "[") return parseSequence("]");
+    if (ch === "(") return parseSequence(")");
+    if (ch === "'" || ch === '"') return parseString();
+    if (ch != null && /[-+\d.]/.test(ch)) return parseNumber();
+
+    const word = /^[A-Za-z_]\w*/.exec(text.slice(pos))?.[0];
+    if (!word) return fail();
+    pos += word.length;
+    if (word === "None") return null;
+    if (word === "True") return true;
+    if (word === "False") return false;
+    if (word === "Decimal" && text[pos] === "(") {
+      pos++;
+      const inner = parseValue();
+      skipWhitespace();
+      if (text[pos] !== ")") fail();
+      pos++;
+      const n = Number(inner);
+      return Number.isFinite(n) ? n : inner;
+    }
+    return fail();
+  }
+
+  try {
+    const value = parseValue();
+    skipWhitespace();
+    return pos === text.length ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,235 @@
+import { parsePythonTrace, PYTHON_TRACE_MAX_STEPS, type PythonTrace } from "./pythonTrace";
+import { buildPythonWorkerSource } from "./pythonWorkerSource";
+
+export type LocalPythonFailure = "load" | "unsupported" | "timeout" | "runtime";
+
+export class LocalPythonError extends Error {
+  reason: LocalPythonFailure;
+  modules: string[];
+
+  constructor(reason: LocalPythonFailure, message: string, modules: string[] = []) {
+    super(message);
+    this.name = "LocalPythonError";
+    this.reason = reason;
+    this.modules = modules;
+  }
+}
+
+export type LocalPythonRunResult = {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  durationMs: number;
+};
+
+// The runtime is copied from the `pyodide` package into public/pyodide/ before dev/build
+// (scripts/copy-runtime-assets.mjs). NEXT_PUBLIC_PYODIDE_INDEX_URL can point at another copy.
+// Only the core runtime and stdlib are bundled, so imports of other packages go to the backend.
+const PYODIDE_INDEX_URL = (process.env.NEXT_PUBLIC_PYODIDE_INDEX_URL || "/pyodide/").replace(/\/?$/, "/");
+
+export const LOCAL_PYTHON_TIMEOUT_MS = 10_000;
+// Budget for downloading Pyodide and any imported packages before the run starts.
+const LOAD_TIMEOUT_MS = 60_000;
+
+// Modules the browser runtime cannot provide meaningfully; runs importing them go to the backend.
+const BLOCKED_MODULES = ["subprocess", "multiprocessing", "socket", "threading", "tkinter", "curses"];
+
+const PREFERENCE_KEY = "codem-python-runtime";
+
+export function isLocalPythonPreferred(): boolean {
+  if (typeof window === "undefined") return false;
+  try {
+    return localStorage.getItem(PREFERENCE_KEY) === "local";
+  } catch {
+    return false;
+  }
+}
+
+export function setLocalPythonPreferred(enabled: boolean) {
+  try {
+    if (enabled) localStorage.setItem(PREFERENCE_KEY, "local");
+    else localStorage.removeItem(PREFERENCE_KEY);
+  } catch {
+    // ignore
+  }
+}
+
+type WorkerMessage =
+  | { type: "started"; id: number }
+  | { type: "stdout" | "stderr"; id: number; text: string }
+  | { type: "done"; id: number; exitCode: number; trace?: string }
+  | { type: "unsupported"; id: number; modules: string[] }
+  | { type: "load_error" | "error"; id: number; message: string };
+
+let worker: Worker | null = null;
+let nextRunId = 1;
+
+function getWorker(): Worker {
+  if (!worker) {
+    // Resolved here: relative URLs do not resolve inside a worker started from a Blob URL.
+    const indexUrl = new URL(PYODIDE_INDEX_URL, window.location.href).href;
+    const url = URL.createObjectURL(new Blob([buildPythonWorkerSource(indexUrl)], { type: "text/javascript" }));
+    worker = new Worker(url);
+    URL.revokeObjectURL(url);
+  }
+  return worker;
+}
+
+function discardWorker() {
+  worker?.terminate();
+  worker = null;
+}
+
+/** Starts downloading Pyodide in the background so the first local run is not slowed down. */
+export function warmUpLocalPython() {
+  if (typeof window === "undefined" || typeof Worker === "undefined") return;
+  getWorker();
+}
+
+type WorkerRunInput = {
+  files: Record<string, string>;
+  entry: string;
+  stdin: string;
+  timeoutMs?: number;
+  onStdout?: (text: string) => void;
+  onStderr?: (text: string) => void;
+  trace?: { files: string[]; maxSteps: number };
+};
+
+function runInWorker(input: WorkerRunInput): Promise<LocalPythonRunResult & { trace?: string }> {
+  if (typeof Worker === "undefined") {
+    return Promise.reject(new LocalPythonError("load", "Web Workers are not available in this browser."));
+  }
+  const w = getWorker();
+  const id = nextRunId++;
+  let startedAt = performance.now();
+  const timeoutMs = input.timeoutMs ?? LOCAL_PYTHON_TIMEOUT_MS;
+  let stdout = "";
+  let stderr = "";
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      window.clearTimeout(timer);
+      w.removeEventListener("message", onMessage);
+      w.removeEventListener("error", onError);
+    };
+
+    const fail = (err: LocalPythonError) => {
+      cleanup();
+      discardWorker();
+      reject(err);
+    };
+
+    // Until user code starts, only the (slow, first-time) runtime download is being waited on.
+    let timer = window.setTimeout(
+      () => fail(new LocalPythonError("load", "Loading the Python runtime took too long.")),
+      LOAD_TIMEOUT_MS,
+    );
+
+    const onError = (e: ErrorEvent) => fail(new LocalPythonError("load", e.message || "The Python worker crashed."));
+
+    const onMessage = (event: MessageEvent<WorkerMessage>) => {
+      const msg = event.data;
+      if (!msg || msg.id !== id) return;
+      switch (msg.type) {
+        case "started":
+          startedAt = performance.now();
+          window.clearTimeout(timer);
+          timer = window.setTimeout(
+            () =>
+              fail(
+                new LocalPythonError(
+                  "timeout",
+                  `Timed out after ${Math.round(timeoutMs / 1000)}s. Check for an infinite loop or a missing input.`,
+                ),
+              ),
+            timeoutMs,
+          );
+          return;
+        case "stdout":
+          stdout += msg.text;
+          input.onStdout?.(msg.text);
+          return;
+        case "stderr":
+          stderr += msg.text;
+          input.onStderr?.(msg.text);
+          return;
+        case "done":
+          cleanup();
+          resolve({
+            stdout,
+            stderr,
+            exitCode: msg.exitCode,
+            durationMs: Math.round(performance.now() - startedAt),
+            trace: msg.trace,
+          });
+          return;
+        case "unsupported":
+          cleanup();
+          reject(
+            new LocalPythonError(
+              "unsupported",
+              `Not available in the browser runtime: ${msg.modules.join(", ")}.`,
+              msg.modules,
+            ),
+          );
+          return;
+        case "load_error":
+          cleanup();
+          reject(new LocalPythonError("load", `Could not load the Python runtime: ${msg.message}`));
+          return;
+        case "error":
+          cleanup();
+          reject(new LocalPythonError("runtime", msg.message));
+          return;
+      }
+    };
+
+    w.addEventListener("message", onMessage);
+    w.addEventListener("error", onError);
+    w.postMessage({
+      type: "run",
+      id,
+      files: input.files,
+      entry: input.entry,
+      stdin: input.stdin,
+      blockedModules: BLOCKED_MODULES,
+      trace: input.trace,
+    });
+  });
+}
+
+/**
+ * Runs `entry` from `files` in Pyodide inside a Web Worker, with `stdin` as sys.stdin.
+ *
+ * Output is streamed through `onStdout`/`onStderr` as it is printed. Rejects with
+ * `LocalPythonError`: `unsupported` (an import the browser runtime cannot satisfy) and `load`
+ * mean the caller should fall back to the backend; on `timeout` (measured from when user code
+ * starts) the worker is terminated and a fresh one is started on the next run.
+ */
+export async function runPythonLocally(input: Omit<WorkerRunInput, "trace">): Promise<LocalPythonRunResult> {
+  const { stdout, stderr, exitCode, durationMs } = await runInWorker(input);
+  return { stdout, stderr, exitCode, durationMs };
+}
+
+/**
+ * Runs `entry` under the step tracer, recording snapshots only for `tracedFiles` (e.g. the
+ * learner's `solution.py`, not the harness). Fails like `runPythonLocally`; there is no backend
+ * fallback for tracing.
+ */
+export async function tracePythonLocally(input: {
+  files: Record<string, string>;
+  entry: string;
+  stdin: string;
+  tracedFiles: string[];
+}): Promise<PythonTrace> {
+  const result = await runInWorker({
+    files: input.files,
+    entry: input.entry,
+    stdin: input.stdin,
+    trace: { files: input.tracedFiles, maxSteps: PYTHON_TRACE_MAX_STEPS },
+  });
+  const trace = result.trace ? parsePythonTrace(result.trace) : null;
+  if (!trace) throw new LocalPythonError("runtime", "The visualizer returned an unreadable trace.");
+  return trace;
+}
@@ -0,0 +1,185 @@
+// Values are either shown inline (numbers, strings, None, ...) or point into the step's heap,
+// so aliasing (two names for one list) stays visible.
+export type PythonTraceValue = { kind: "prim"; repr: string } | { kind: "ref"; ref: string };
+
+export type PythonHeapObject = {
+  type: string;
+  // Sequences and sets.
+  items?: PythonTraceValue[];
+  // Dicts and plain objects (`vars(obj)`).
+  entries?: Array<[PythonTraceValue, PythonTraceValue]>;
+  // Anything else, or objects nested too deep to expand.
+  repr?: string;
+  truncated?: boolean;
+};
+
+export type PythonTraceFrame = {
+  name: string;
+  file: string;
+  line: number;
+  locals: Array<[string, PythonTraceValue]>;
+};
+
+export type PythonTraceStep = {
+  event: "line" | "return" | "exception";
+  file: string;
+  line: number;
+  // Outermost first; the last frame is the one executing.
+  frames: PythonTraceFrame[];
+  heap: Record<string, PythonHeapObject>;
+  stdout: string;
+  returnValue?: PythonTraceValue;
+  exception?: string;
+};
+
+export type PythonTrace = {
+  steps: PythonTraceStep[];
+  stdout: string;
+  error: string | null;
+  // True when the run was cut off at the step limit.
+  truncated: boolean;
+};
+
+export const PYTHON_TRACE_MAX_STEPS = 500;
+
+/**
+ * Python side of the visualizer: runs the entry file under `sys.settrace`, recording a snapshot
+ * for each line/return/exception event in the learner's files (the harness itself is not
+ * traced). Returns the trace as a JSON string.
+ */
+export const PYTHON_TRACER = String.raw`
+import io as _io
+import json as _json
+import os as _os
+import runpy as _runpy
+import sys as _sys
+import traceback as _traceback
+import types as _types
+
+class _CodemStepLimit(BaseException):
+    pass
+
+def _codem_short_repr(value, limit=120):
+    try:
+        text = repr(value)
+    except Exception:
+        text = "<" + type(value).__name__ + ">"
+    return text if len(text) <= limit else text[: limit - 1] + "…"
+
+def _codem_encode(value, heap, depth=0):
+    if value is None or isinstance(value, (bool, int, float, complex)):
+        return {"kind": "prim", "repr": repr(value)}
+    if isinstance(value, str):
+        return {"kind": "prim", "repr": _codem_short_repr(value, 200)}
+    if isinstance(value, (_types.FunctionType, _types.BuiltinFunctionType, _types.MethodType, type, _types.ModuleType)):
+        return {"kind": "prim", "repr": "<" + type(value).__name__ + " " + getattr(value, "__name__", "?") + ">"}
+    ref = str(id(value))
+    if ref in heap:
+        return {"kind": "ref", "ref": ref}
+    heap[ref] = {"type": type(value).__name__}
+    obj = heap[ref]
+    if depth >= 4:
+        obj["repr"] = _codem_short_repr(value)
+    elif isinstance(value, (list, tuple, set, frozenset)):
+        items = list(value)
+        obj["items"] = [_codem_encode(v, heap, depth + 1) for v in items[:50]]
+        obj["truncated"] = len(items) > 50
+    elif isinstance(value, dict):
+        pairs = list(value.items())
+        obj["entries"] = [[_codem_encode(k, heap, depth + 1), _codem_encode(v, heap, depth + 1)] for k, v in pairs[:50]]
+        obj["truncated"] = len(pairs) > 50
+    elif hasattr(value, "__dict__"):
+        obj["entries"] = [[{"kind": "prim", "repr": k}, _codem_encode(v, heap, depth + 1)] for k, v in list(vars(value).items())[:50]]
+    else:
+        obj["repr"] = _codem_short_repr(value)
+    return {"kind": "ref", "ref": ref}
+
+def __codem_trace(entry, stdin_text, local_modules, traced_files, max_steps):
+    for name in local_modules:
+        _sys.modules.pop(name, None)
+    _os.chdir(RUN_DIR)
+    if RUN_DIR not in _sys.path:
+        _sys.path.insert(0, RUN_DIR)
+    traced = {_os.path.join(RUN_DIR, f): f for f in traced_files}
+    steps = []
+    out = _io.StringIO()
+
+    def snapshot(frame, event, arg):
+        heap = {}
+        chain = []
+        f = frame
+        while f is not None:
+            if f.f_code.co_filename in traced:
+                chain.append(f)
+            f = f.f_back
+        frames = []
+        for f in reversed(chain):
+            local_vars = [
+                [k, _codem_encode(v, heap)]
+                for k, v in f.f_locals.items()
+                if not (k.startswith("__") and k.endswith("__"))
+            ]
+            frames.append({
+                "name": f.f_code.co_name,
+                "file": traced[f.f_code.co_filename],
+                "line": f.f_lineno,
+                "locals": local_vars,
+            })
+        step = {
+            "event": event,
+            "file": traced[frame.f_code.co_filename],
+            "line": frame.f_lineno,
+            "frames": frames,
+            "heap": heap,
+            "stdout": out.getvalue(),
+        }
+        if event == "return":
+            step["returnValue"] = _codem_encode(arg, heap)
+        elif event == "exception":
+            step["exception"] = _codem_short_repr(arg[1], 300)
+        steps.append(step)
+
+    def tracer(frame, event, arg):
+        if frame.f_code.co_filename not in traced:
+            return None
+        if event in ("line", "return", "exception"):
+            if len(steps) >= max_steps:
+                raise _CodemStepLimit()
+            snapshot(frame, event, arg)
+        return tracer
+
+    error = None
+    truncated = False
+    saved_stdout = _sys.stdout
+    _sys.stdin = _io.StringIO(stdin_text)
+    _sys.stdout = out
+    _sys.settrace(tracer)
+    try:
+        _runpy.run_path(_os.path.join(RUN_DIR, entry), run_name="__main__")
+    except _CodemStepLimit:
+        truncated = True
+    except SystemExit:
+        pass
+    except BaseException:
+        error = _traceback.format_exc()
+    finally:
+        _sys.settrace(None)
+        _sys.stdout = saved_stdout
+    return _json.dumps({"steps": steps, "stdout": out.getvalue(), "error": error, "truncated": truncated})
+`;
+
+/** The worker returns the tracer's JSON untouched; shape-check it before the UI reads it. */
+export function parsePythonTrace(json: string): PythonTrace | null {
+  try {
+    const raw = JSON.parse(json) as Partial<PythonTrace> | null;
+    if (!raw || !Array.isArray(raw.steps)) return null;
+    return {
+      steps: raw.steps,
+      stdout: typeof raw.stdout === "string" ? raw.stdout : "",
+      error: typeof raw.error === "string" ? raw.error : null,
+      truncated: raw.truncated === true,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,175 @@
+import { PYTHON_TRACER } from "./pythonTrace";
+
+// Python side of a local run. `files` are written to RUN_DIR before this is called; the
+// learner's modules are evicted from sys.modules so an edited solution.py is re-imported.
+const PYTHON_DRIVER = String.raw`
+import io
+import os
+import runpy
+import sys
+import traceback
+
+RUN_DIR = "/home/pyodide/codem"
+
+def __codem_run(entry, stdin_text, local_modules):
+    for name in local_modules:
+        sys.modules.pop(name, None)
+    os.chdir(RUN_DIR)
+    if RUN_DIR not in sys.path:
+        sys.path.insert(0, RUN_DIR)
+    sys.stdin = io.StringIO(stdin_text)
+    code = 0
+    try:
+        runpy.run_path(os.path.join(RUN_DIR, entry), run_name="__main__")
+    except SystemExit as e:
+        if e.code is None:
+            code = 0
+        elif isinstance(e.code, int):
+            code = e.code
+        else:
+            print(e.code, file=sys.stderr)
+            code = 1
+    except BaseException:
+        traceback.print_exc()
+        code = 1
+    finally:
+        sys.stdout.flush()
+        sys.stderr.flush()
+    return code
+`;
+
+/**
+ * Source of the classic Web Worker that hosts Pyodide. It is built from a string (and started
+ * from a Blob URL) so it needs no bundler worker support and can `importScripts` the runtime.
+ *
+ * Protocol — in: `{ type: "run", id, files, entry, stdin, blockedModules, trace? }` where
+ * `trace` is `{ files, maxSteps }` to record a step trace of those files instead of streaming output;
+ * out: `{ type: "started", id }` (user code begins), `{ type: "stdout" | "stderr", id, text }`,
+ * `{ type: "done", id, exitCode, trace? }` (trace is the tracer's JSON string),
+ * `{ type: "unsupported", id, modules }`, `{ type: "load_error" | "error", id, message }`.
+ */
+export function buildPythonWorkerSource(indexUrl: string): string {
+  return `
+const INDEX_URL = ${JSON.stringify(indexUrl)};
+const RUN_DIR = "/home/pyodide/codem";
+const DRIVER = ${JSON.stringify(PYTHON_DRIVER)};
+const TRACER = ${JSON.stringify(PYTHON_TRACER)};
+
+let pyodidePromise = null;
+let currentId = null;
+
+function post(msg) {
+  self.postMessage(msg);
+}
+
+function streamWriter(type) {
+  const decoder = new TextDecoder();
+  return {
+    write(buffer) {
+      const text = decoder.decode(buffer, { stream: true });
+      if (text && currentId != null) post({ type, id: currentId, text });
+      return buffer.length;
+    },
+  };
+}
+
+function loadRuntime() {
+  if (!pyodidePromise) {
+    pyodidePromise = (async () => {
+      importScripts(INDEX_URL + "pyodide.js");
+      const pyodide = await loadPyodide({ indexURL: INDEX_URL });
+      pyodide.setStdout(streamWriter("stdout"));
+      pyodide.setStderr(streamWriter("stderr"));
+      pyodide.runPython(DRIVER);
+      pyodide.runPython(TRACER);
+      pyodide.FS.mkdirTree(RUN_DIR);
+      return pyodide;
+    })();
+  }
+  return pyodidePromise;
+}
+
+function writeFiles(pyodide, files) {
+  for (const name of pyodide.FS.readdir(RUN_DIR)) {
+    if (name.endsWith(".py")) pyodide.FS.unlink(RUN_DIR + "/" + name);
+  }
+  for (const [name, content] of Object.entries(files)) {
+    pyodide.FS.writeFile(RUN_DIR + "/" + name, content);
+  }
+}
+
+// Imports that are neither the learner's own modules nor importable here (after trying to
+// fetch them as Pyodide packages) mean the run should go to the backend instead.
+async function findUnsupportedImports(pyodide, files, blockedModules) {
+  const local = new Set(Object.keys(files).map((f) => f.replace(/\\.py$/, "")));
+  const imports = new Set();
+  for (const content of Object.values(files)) {
+    const found = pyodide.pyodide_py.code.find_imports(content).toJs();
+    for (const name of found) imports.add(String(name).split(".")[0]);
+  }
+  const external = [...imports].filter((m) => !local.has(m));
+  const blocked = external.filter((m) => blockedModules.includes(m));
+  if (blocked.length > 0) return blocked;
+  try {
+    await pyodide.loadPackagesFromImports(Object.values(files).join("\\n"));
+  } catch {
+    // Missing packages are reported below.
+  }
+  const findSpec = pyodide.runPython("import importlib.util\\nimportlib.util.find_spec");
+  try {
+    return external.filter((m) => {
+      const spec = findSpec(m);
+      if (spec == null) return true;
+      if (spec.destroy) spec.destroy();
+      return false;
+    });
+  } finally {
+    findSpec.destroy();
+  }
+}
+
+self.onmessage = async (event) => {
+  const msg = event.data;
+  if (!msg || msg.type !== "run") return;
+  const { id, files, entry, stdin, blockedModules, trace } = msg;
+  let pyodide;
+  try {
+    pyodide = await loadRuntime();
+  } catch (e) {
+    pyodidePromise = null;
+    post({ type: "load_error", id, message: e && e.message ? e.message : String(e) });
+    return;
+  }
+  try {
+    const unsupported = await findUnsupportedImports(pyodide, files, blockedModules || []);
+    if (unsupported.length > 0) {
+      post({ type: "unsupported", id, modules: unsupported });
+      return;
+    }
+    writeFiles(pyodide, files);
+    currentId = id;
+    post({ type: "started", id });
+    const run = pyodide.globals.get(trace ? "__codem_trace" : "__codem_run");
+    const localModules = pyodide.toPy(Object.keys(files).map((f) => f.replace(/\\.py$/, "")));
+    const tracedFiles = trace ? pyodide.toPy(trace.files) : null;
+    let result;
+    try {
+      result = trace ? run(entry, stdin, localModules, tracedFiles, trace.maxSteps) : run(entry, stdin, localModules);
+    } finally {
+      localModules.destroy();
+      if (tracedFiles) tracedFiles.destroy();
+      run.destroy();
+      currentId = null;
+    }
+    post(trace ? { type: "done", id, exitCode: 0, trace: result } : { type: "done", id, exitCode: result });
+  } catch (e) {
+    post({ type: "error", id, message: e && e.message ? e.message : String(e) });
+  }
+};
+
+// Start downloading the runtime as soon as the worker exists.
+loadRuntime().catch(() => {
+  pyodidePromise = null;
+});
+`;
+}
@@ -0,0 +1,47 @@
+export type SampleCase = {
+  index: number;
+  input: string;
+  // `null` when the problem has fewer outputs than inputs.
+  expectedOutput: string | null;
+};
+
+export type RunStdinSelection = { kind: "sample"; index: number } | { kind: "custom" };
+
+export type RunOutputStatus = "match" | "mismatch" | "no_expected" | "error";
+
+export type SampleRunOutcome = {
+  label: string;
+  stdin: string;
+  expectedOutput: string | null;
+  stdout: string;
+  stderr: string;
+  status: RunOutputStatus;
+};
+
+export function getSampleCases(inputs: readonly string[], outputs: readonly string[]): SampleCase[] {
+  return inputs.map((input, index) => ({
+    index,
+    input: String(input),
+    expectedOutput: typeof outputs[index] === "string" ? outputs[index]! : null,
+  }));
+}
+
+// Same leniency as a typical judge: CRLF, trailing spaces and trailing blank lines are ignored.
+export function normalizeProgramOutput(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+$/, ""))
+    .join("\n")
+    .replace(/\n+$/, "");
+}
+
+export function compareRunOutput(
+  result: { stdout: string; stderr: string },
+  expectedOutput: string | null,
+  failed = false,
+): RunOutputStatus {
+  if (failed) return "error";
+  if (expectedOutput == null) return "no_expected";
+  return normalizeProgramOutput(result.stdout) === normalizeProgramOutput(expectedOutput) ? "match" : "mismatch";
+}
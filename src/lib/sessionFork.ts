@@ -0,0 +1,20 @@
+import type { SessionForkSource } from "./api";
+
+// The home page starts a forked session when opened with this parameter (see `activityVariantHref`).
+const VARIANT_PARAM = "variant_of";
+
+/** Link to the home page that starts a new spec session seeded from `activityId`. */
+export function activityVariantHref(activityId: string): string {
+  return `/?${VARIANT_PARAM}=${encodeURIComponent(activityId)}`;
+}
+
+/** Reads and removes the variant request so a reload does not fork a second time. */
+export function takeForkRequestFromUrl(): SessionForkSource | null {
+  const params = new URLSearchParams(window.location.search);
+  const activityId = params.get(VARIANT_PARAM)?.trim();
+  if (!activityId) return null;
+  params.delete(VARIANT_PARAM);
+  const query = params.toString();
+  window.history.replaceState(window.history.state, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+  return { activityId };
+}
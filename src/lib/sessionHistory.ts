@@ -0,0 +1,85 @@
+import type { LearningMode, SessionSummary } from "./api";
+
+export const SESSION_STATES = ["DRAFT", "CLARIFYING", "READY", "GENERATING", "SAVED", "FAILED"] as const;
+
+export const SESSION_HISTORY_PAGE_SIZE = 30;
+
+export type SessionHistoryFilters = {
+  q: string;
+  state: string | null;
+  mode: LearningMode | null;
+  archived: boolean;
+};
+
+export const DEFAULT_SESSION_HISTORY_FILTERS: SessionHistoryFilters = {
+  q: "",
+  state: null,
+  mode: null,
+  archived: false,
+};
+
+// Query parameter names on the home page URL; prefixed so they cannot clash with other state.
+const PARAM = { q: "history_q", state: "history_state", mode: "history_mode", archived: "history_archived" } as const;
+
+export function readSessionHistoryFilters(params: URLSearchParams): SessionHistoryFilters {
+  const state = params.get(PARAM.state);
+  const mode = params.get(PARAM.mode);
+  return {
+    q: params.get(PARAM.q) ?? "",
+    state: state && (SESSION_STATES as readonly string[]).includes(state) ? state : null,
+    mode: mode === "practice" || mode === "guided" ? mode : null,
+    archived: params.get(PARAM.archived) === "1",
+  };
+}
+
+/** Returns a copy of `params` with the filters set; defaults are removed to keep URLs short. */
+export function writeSessionHistoryFilters(params: URLSearchParams, filters: SessionHistoryFilters): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string | null) => (value ? next.set(key, value) : next.delete(key));
+  set(PARAM.q, filters.q.trim() || null);
+  set(PARAM.state, filters.state);
+  set(PARAM.mode, filters.mode);
+  set(PARAM.archived, filters.archived ? "1" : null);
+  return next;
+}
+
+export function sessionDisplayTitle(s: SessionSummary): string {
+  if (s.title?.trim()) return s.title.trim();
+  if (s.last_message?.trim()) return s.last_message.trim();
+  return `Session ${s.id.slice(0, 8)}…`;
+}
+
+function startOfDay(d: Date): number {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+}
+
+/**
+ * Groups sessions (already sorted newest first) under "Today", "Yesterday", "Previous 7 days",
+ * "Previous 30 days", then one heading per month.
+ */
+export function groupSessionsByDate(
+  sessions: SessionSummary[],
+  now: Date = new Date(),
+): Array<{ label: string; sessions: SessionSummary[] }> {
+  const today = startOfDay(now);
+  const day = 24 * 60 * 60 * 1000;
+  const groups: Array<{ label: string; sessions: SessionSummary[] }> = [];
+
+  for (const s of sessions) {
+    const when = new Date(s.last_message_at || s.updated_at || s.created_at);
+    let label: string;
+    if (Number.isNaN(when.getTime())) label = "Older";
+    else {
+      const age = today - startOfDay(when);
+      if (age <= 0) label = "Today";
+      else if (age <= day) label = "Yesterday";
+      else if (age <= 7 * day) label = "Previous 7 days";
+      else if (age <= 30 * day) label = "Previous 30 days";
+      else label = when.toLocaleDateString(undefined, { month: "long", year: "numeric" });
+    }
+    const last = groups[groups.length - 1];
+    if (last?.label === label) last.sessions.push(s);
+    else groups.push({ label, sessions: [s] });
+  }
+  return groups;
+}
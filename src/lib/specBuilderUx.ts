@@ -1,7 +1,11 @@
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
+import { useCallback, useMemo, useRef, useState } from "react";
+import { LANGUAGE_IDS } from "./languages";
 import { normalizeUserInput } from "./specNormalization";
+import type { SpecSlot } from "./specSlot";
+
+export type { SpecSlot } from "./specSlot";
 
 export type BackendSpecResponse = {
   accepted: boolean;
@@ -12,14 +16,8 @@ export type BackendSpecResponse = {
   state?: string;
 };
 
-export type SpecSlot = {
-  key: "language" | "problem_count" | "difficulty_plan" | "topic_tags" | "problem_style" | "constraints";
-  intent: string;
-  examples?: string[];
-};
-
 export type NormalizedInputResult =
-  | { ok: true; value: string; slot: SpecSlot }
+  | { ok: true; value: string; slot: SpecSlot; notes: string[] }
   | { ok: false; slot: SpecSlot; friendly: string; hintLines: string[] };
 
 export type SpecInteractionResult =
@@ -113,7 +111,7 @@ function humanizeSpecError(err: string, slot?: SpecSlot | null): { friendly: str
   if (slot?.key === "language") {
     return {
       friendly: "Pick a supported language.",
-      hints: ["Reply with 'java', 'python', 'cpp', or 'sql'."],
+      hints: [`Reply with ${LANGUAGE_IDS.map((id) => `'${id}'`).join(", ")}.`],
     };
   }
 
@@ -147,7 +145,7 @@ const SPEC_SLOTS: SpecSlot[] = [
   {
     key: "language",
     intent: "Which language should we use?",
-    examples: ["java", "python", "cpp", "sql"],
+    examples: [...LANGUAGE_IDS],
   },
   {
     key: "constraints",
@@ -157,7 +155,14 @@ const SPEC_SLOTS: SpecSlot[] = [
 ];
 
 export function useSpecBuilderUX() {
-  const [activeSlotKey, setActiveSlotKey] = useState<SpecSlot["key"] | null>("topic_tags");
+  const [activeSlotKey, setActiveSlotKeyState] = useState<SpecSlot["key"] | null>("topic_tags");
+  // Mirrors `activeSlotKey` so `interpretResponse` stays correct when called from an async loop
+  // that started in an earlier render (e.g. the form answering several slots in a row).
+  const activeSlotKeyRef = useRef(activeSlotKey);
+  const setActiveSlotKey = useCallback((key: SpecSlot["key"] | null) => {
+    activeSlotKeyRef.current = key;
+    setActiveSlotKeyState(key);
+  }, []);
 
   const activeSlot = useMemo(
     () => SPEC_SLOTS.find((s) => s.key === activeSlotKey) ?? SPEC_SLOTS[0],
@@ -173,7 +178,7 @@ export function useSpecBuilderUX() {
   const normalizeInput = useCallback(
     (input: string): NormalizedInputResult => {
       const slot = activeSlot;
-      const { normalized } = normalizeUserInput(input);
+      const { normalized, notes } = normalizeUserInput(input, slot.key);
       if (!normalized.trim()) {
         return {
           ok: false,
@@ -182,20 +187,21 @@ export function useSpecBuilderUX() {
           hintLines: [],
         };
       }
-      return { ok: true, value: normalized, slot };
+      return { ok: true, value: normalized, slot, notes };
     },
     [activeSlot]
   );
 
   const interpretResponse = useCallback(
     (payload: BackendSpecResponse): SpecInteractionResult => {
+      const currentSlot = SPEC_SLOTS.find((s) => s.key === activeSlotKeyRef.current) ?? SPEC_SLOTS[0];
       const derivedKey =
         deriveSlotKeyFromQuestionKey(payload.questionKey) ??
         deriveSlotKeyFromQuestion(payload.nextQuestion) ??
-        activeSlotKey;
+        activeSlotKeyRef.current;
       const derivedSlot = derivedKey
-        ? SPEC_SLOTS.find((s) => s.key === derivedKey) ?? activeSlot
-        : activeSlot;
+        ? SPEC_SLOTS.find((s) => s.key === derivedKey) ?? currentSlot
+        : currentSlot;
 
       if (payload.accepted) {
         const nextSlot = payload.done ? null : derivedSlot;
@@ -216,13 +222,18 @@ export function useSpecBuilderUX() {
         hintLines: hints,
       };
     },
-    [activeSlot, activeSlotKey]
+    [setActiveSlotKey]
   );
 
+  // Points the UI back at an earlier slot when the user edits or undoes its answer; the next
+  // `interpretResponse` moves it forward again from whatever the backend asks.
+  const rewindToSlot = useCallback((key: SpecSlot["key"]) => setActiveSlotKey(key), [setActiveSlotKey]);
+
   return {
     activeSlot,
     formatSlotPrompt,
     normalizeInput,
     interpretResponse,
+    rewindToSlot,
   };
 }
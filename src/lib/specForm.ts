@@ -0,0 +1,131 @@
+import type { LanguageId } from "./languages";
+import type { SpecSlot } from "./specSlot";
+
+export type Difficulty = "easy" | "medium" | "hard";
+export type DifficultyPlan = Record<Difficulty, number>;
+export type ProblemStyle = "return" | "stdout" | "mixed";
+
+export const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard"];
+export const PROBLEM_STYLES: ProblemStyle[] = ["return", "stdout", "mixed"];
+export const MIN_PROBLEM_COUNT = 1;
+export const MAX_PROBLEM_COUNT = 7;
+
+export type SpecFormValues = {
+  language: LanguageId;
+  problem_count: number;
+  difficulty_plan: DifficultyPlan;
+  topic_tags: string[];
+  problem_style: ProblemStyle;
+  constraints: string;
+};
+
+export type SpecFormErrors = Partial<Record<SpecSlot["key"], string>>;
+
+export const DEFAULT_SPEC_FORM_VALUES: SpecFormValues = {
+  language: "java",
+  problem_count: 3,
+  difficulty_plan: { easy: 1, medium: 1, hard: 1 },
+  topic_tags: [],
+  problem_style: "return",
+  constraints: "",
+};
+
+// SQL problems are always checked on their printed result (see humanizeSpecError).
+export function allowedProblemStyles(language: LanguageId): ProblemStyle[] {
+  return language === "sql" ? ["stdout"] : PROBLEM_STYLES;
+}
+
+export function sumDifficultyPlan(plan: DifficultyPlan): number {
+  return plan.easy + plan.medium + plan.hard;
+}
+
+/** An even split of `total`, with any remainder going to medium first, then easy. */
+export function defaultDifficultyPlan(total: number): DifficultyPlan {
+  const base = Math.floor(total / 3);
+  const remainder = total - base * 3;
+  return { easy: base + (remainder >= 2 ? 1 : 0), medium: base + (remainder >= 1 ? 1 : 0), hard: base };
+}
+
+/** `easy:2, medium:1` (zero counts omitted), the format the difficulty slot parses. */
+export function formatDifficultyPlan(plan: DifficultyPlan): string {
+  return DIFFICULTIES.filter((d) => plan[d] > 0)
+    .map((d) => `${d}:${plan[d]}`)
+    .join(", ");
+}
+
+/**
+ * Sets one difficulty and takes/gives the difference from the others (hardest first when
+ * taking, medium first when giving) so the plan always sums to `total`.
+ */
+export function rebalanceDifficultyPlan(
+  plan: DifficultyPlan,
+  total: number,
+  changed?: { key: Difficulty; value: number },
+): DifficultyPlan {
+  const next = { ...plan };
+  if (changed) next[changed.key] = Math.max(0, Math.min(total, Math.round(changed.value)));
+  const adjustable = DIFFICULTIES.filter((d) => d !== changed?.key);
+
+  let diff = sumDifficultyPlan(next) - total;
+  for (const d of [...adjustable].reverse()) {
+    if (diff <= 0) break;
+    const take = Math.min(next[d], diff);
+    next[d] -= take;
+    diff -= take;
+  }
+  if (diff < 0) {
+    const giveTo = adjustable.includes("medium") ? "medium" : adjustable[0]!;
+    next[giveTo] -= diff;
+  }
+  return next;
+}
+
+export function validateSpecForm(values: SpecFormValues): SpecFormErrors {
+  const errors: SpecFormErrors = {};
+  if (values.problem_count < MIN_PROBLEM_COUNT || values.problem_count > MAX_PROBLEM_COUNT) {
+    errors.problem_count = `Pick between ${MIN_PROBLEM_COUNT} and ${MAX_PROBLEM_COUNT} problems.`;
+  }
+  if (sumDifficultyPlan(values.difficulty_plan) !== values.problem_count) {
+    errors.difficulty_plan = `The difficulty counts must add up to ${values.problem_count}.`;
+  }
+  if (values.topic_tags.length === 0) {
+    errors.topic_tags = "Add at least one topic.";
+  }
+  if (!allowedProblemStyles(values.language).includes(values.problem_style)) {
+    errors.problem_style = "SQL problems are checked on console output (stdout).";
+  }
+  return errors;
+}
+
+/** Appends the comma-separated tags in `raw`, skipping blanks and case-insensitive duplicates. */
+export function mergeTopicTags(tags: string[], raw: string): string[] {
+  const seen = new Set(tags.map((t) => t.toLowerCase()));
+  const merged = [...tags];
+  for (const tag of raw.split(",").map((t) => t.trim())) {
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    merged.push(tag);
+  }
+  return merged;
+}
+
+// Sent for an empty constraints field, so the answer says "no constraints" explicitly.
+export const NO_CONSTRAINTS_ANSWER = "none";
+
+/** The chat message that answers `slot` from the form, in the format the chat hints suggest. */
+export function formatSpecFormAnswer(slot: SpecSlot["key"], values: SpecFormValues): string {
+  switch (slot) {
+    case "language":
+      return values.language;
+    case "problem_count":
+      return String(values.problem_count);
+    case "difficulty_plan":
+      return formatDifficultyPlan(values.difficulty_plan);
+    case "topic_tags":
+      return values.topic_tags.join(", ");
+    case "problem_style":
+      return values.problem_style;
+    case "constraints":
+      return values.constraints.trim() || NO_CONSTRAINTS_ANSWER;
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { normalizeUserInput } from "./specNormalization";
+
+describe("normalizeUserInput", () => {
+  it("reads number words in a problem count answer", () => {
+    expect(normalizeUserInput("three problems", "problem_count")).toMatchObject({
+      normalized: "3",
+      didChange: true,
+    });
+    expect(normalizeUserInput("just a couple", "problem_count").normalized).toBe("2");
+    expect(normalizeUserInput("4", "problem_count")).toMatchObject({ normalized: "4", didChange: false, notes: [] });
+  });
+
+  it("maps language aliases to language ids", () => {
+    expect(normalizeUserInput("c++", "language")).toMatchObject({ normalized: "cpp", notes: ['Read "c++" as cpp'] });
+    expect(normalizeUserInput("I'd like node.js please", "language").normalized).toBe("javascript");
+    // Two languages named: leave the answer for the backend to question.
+    expect(normalizeUserInput("java or python", "language").normalized).toBe("java or python");
+  });
+
+  it("turns difficulty phrases into key:value pairs", () => {
+    expect(normalizeUserInput("two easy and a hard one", "difficulty_plan").normalized).toBe("easy:2, hard:1");
+    expect(normalizeUserInput("hard 1, easy 2", "difficulty_plan").normalized).toBe("easy:2, hard:1");
+    // Outside the difficulty question a single pair is not enough.
+    expect(normalizeUserInput("one easy one").normalized).toBe("one easy one");
+  });
+
+  it("joins a bullet list of topics and drops repeats", () => {
+    const result = normalizeUserInput("- arrays\n- Hash maps\n- two pointers\n- hash maps", "topic_tags");
+    expect(result.normalized).toBe("arrays, Hash maps, two pointers");
+    expect(result.notes).toEqual([
+      "Joined 4 lines into one comma-separated list",
+      "Dropped repeated topic: hash maps",
+    ]);
+  });
+});
@@ -1,3 +1,6 @@
+import { isLanguageId, type LanguageId } from "./languages";
+import type { SpecSlot } from "./specSlot";
+
 export type NormalizationResult = {
   normalized: string;
   didChange: boolean;
@@ -6,32 +9,133 @@ export type NormalizationResult = {
 
 const DIFFICULTY_LABELS = ["easy", "medium", "hard"];
 
-function normalizeDifficultyCounts(
-  input: string
-): { normalized: string; note: string } | null {
-  const pairMap = new Map<string, string>();
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  single: 1,
+  couple: 2,
+  pair: 2,
+};
 
-  const labelFirst = /\b(easy|medium|hard)\b\s*[:\-]?\s*(\d+)\b/gi;
-  let match: RegExpExecArray | null;
-  while ((match = labelFirst.exec(input))) {
-    pairMap.set(match[1].toLowerCase(), match[2]);
+const LANGUAGE_ALIASES: Record<string, LanguageId> = {
+  "c++": "cpp",
+  cplusplus: "cpp",
+  "c plus plus": "cpp",
+  py: "python",
+  python3: "python",
+  postgres: "sql",
+  postgresql: "sql",
+  mysql: "sql",
+  sqlite: "sql",
+  tsql: "sql",
+  js: "javascript",
+  node: "javascript",
+  nodejs: "javascript",
+  "node.js": "javascript",
+  ecmascript: "javascript",
+  ts: "typescript",
+};
+
+// Words that can surround a bare answer without changing it ("I'd like python please").
+const FILLER = /\b(i'?d|i|would|like|want|to|use|let'?s|go|with|in|please|problems?|questions?|exercises?|maybe|just|the|of|them)\b/g;
+
+function resolveLanguage(token: string): LanguageId | null {
+  const t = token.toLowerCase();
+  if (isLanguageId(t)) return t;
+  return LANGUAGE_ALIASES[t] ?? null;
+}
+
+// Maps a number word (or "a"/"an" when `allowArticle`) to its value; digits pass through.
+function wordToNumber(word: string, allowArticle: boolean): number | null {
+  const w = word.toLowerCase();
+  if (/^\d+$/.test(w)) return Number(w);
+  if (allowArticle && (w === "a" || w === "an")) return 1;
+  return NUMBER_WORDS[w] ?? null;
+}
+
+function normalizeLanguage(input: string): { normalized: string; note: string } | null {
+  const lower = input.toLowerCase().replace(/[.!?]+$/, "").trim();
+  if (isLanguageId(lower)) return null;
+
+  const whole = resolveLanguage(lower);
+  if (whole) return { normalized: whole, note: `Read "${input}" as ${whole}` };
+
+  // Otherwise accept a sentence that names exactly one language.
+  const found = new Set<LanguageId>();
+  for (const alias of [...Object.keys(LANGUAGE_ALIASES), "java", "python", "cpp", "sql", "javascript", "typescript"]) {
+    const escaped = alias.replace(/[.+]/g, "\\$&");
+    if (new RegExp(`(^|[^a-z0-9+.])${escaped}(?![a-z0-9+])`, "i").test(lower)) {
+      found.add(resolveLanguage(alias)!);
+    }
   }
+  if (found.size !== 1) return null;
+  const [language] = found;
+  return { normalized: language!, note: `Picked ${language} from "${input}"` };
+}
 
-  const valueFirst = /\b(\d+)\s*(easy|medium|hard)\b/gi;
-  while ((match = valueFirst.exec(input))) {
-    pairMap.set(match[2].toLowerCase(), match[1]);
+function normalizeProblemCount(input: string): { normalized: string; note: string } | null {
+  const trimmed = input.trim();
+  if (/^\d+$/.test(trimmed)) return null;
+  const lower = trimmed.toLowerCase().replace(/[.!?]+$/, "");
+  const rest = lower.replace(FILLER, " ").replace(/\b(a|an)\b/g, " ").trim();
+  const tokens = rest.split(/\s+/).filter(Boolean);
+  if (tokens.length !== 1) return null;
+  const count = wordToNumber(tokens[0]!, false);
+  if (count == null) return null;
+  return { normalized: String(count), note: `Read "${trimmed}" as ${count}` };
+}
+
+function collectDifficultyPairs(input: string, pattern: RegExp, countGroup: number, labelGroup: number) {
+  const counts = new Map<string, number>();
+  let first = Infinity;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(input))) {
+    const n = wordToNumber(match[countGroup], true);
+    if (n == null) continue;
+    const label = match[labelGroup].toLowerCase();
+    counts.set(label, (counts.get(label) ?? 0) + n);
+    first = Math.min(first, match.index);
   }
+  return { counts, first };
+}
 
-  // Only normalize when the intent is clear (multiple explicit pairs).
-  if (pairMap.size < 2) {
+function normalizeDifficultyCounts(
+  input: string,
+  minPairs: number,
+): { normalized: string; note: string } | null {
+  // "easy:2, medium 1" vs "2 easy and a hard one". "1 easy 2 medium" fits both readings, so
+  // take the one with more pairs, then the one that starts earlier in the sentence.
+  const labelFirst = collectDifficultyPairs(input, /\b(easy|medium|hard)\b\s*[:\-=]?\s*(\d+)\b/gi, 2, 1);
+  const valueFirst = collectDifficultyPairs(
+    input,
+    /\b(\d+|[a-z]+)\s+(?:(?:more|other|extra)\s+)?(easy|medium|hard)\b/gi,
+    1,
+    2,
+  );
+  const counts =
+    labelFirst.counts.size > valueFirst.counts.size ||
+    (labelFirst.counts.size === valueFirst.counts.size && labelFirst.first < valueFirst.first)
+      ? labelFirst.counts
+      : valueFirst.counts;
+
+  // Only normalize when the intent is clear (enough explicit pairs).
+  if (counts.size < minPairs) {
     return null;
   }
 
-  const normalized = DIFFICULTY_LABELS.filter((label) => pairMap.has(label))
-    .map((label) => `${label}:${pairMap.get(label)}`)
+  const normalized = DIFFICULTY_LABELS.filter((label) => counts.has(label))
+    .map((label) => `${label}:${counts.get(label)}`)
     .join(", ");
 
-  if (!normalized) {
+  if (!normalized || normalized === input.trim()) {
     return null;
   }
 
@@ -41,15 +145,71 @@ function normalizeDifficultyCounts(
   };
 }
 
-export function normalizeUserInput(rawInput: string): NormalizationResult {
+function normalizeTopicList(input: string): { normalized: string; notes: string[] } | null {
+  const lines = input.split(/\r?\n/).map((l) => l.trim()).filter(Boolean);
+  const items = lines
+    .flatMap((line) => line.split(/[,;]/))
+    .map((item) => item.replace(/^(?:[-*•]|\d+[.)])\s*/, "").trim())
+    .filter(Boolean);
+
+  const seen = new Set<string>();
+  const topics: string[] = [];
+  const dropped: string[] = [];
+  for (const item of items) {
+    const key = item.toLowerCase();
+    if (seen.has(key)) {
+      dropped.push(item);
+      continue;
+    }
+    seen.add(key);
+    topics.push(item);
+  }
+
+  const notes: string[] = [];
+  if (lines.length > 1) notes.push(`Joined ${lines.length} lines into one comma-separated list`);
+  else if (/^(?:[-*•]|\d+[.)])\s/.test(lines[0] ?? "")) notes.push("Removed list bullets");
+  if (dropped.length > 0) notes.push(`Dropped repeated ${dropped.length === 1 ? "topic" : "topics"}: ${dropped.join(", ")}`);
+  if (notes.length === 0) return null;
+  return { normalized: topics.join(", "), notes };
+}
+
+/**
+ * Rewrites an answer into the shape the backend parses best. With the slot being answered it
+ * also reads number words, language aliases and topic lists; `notes` say what was changed so
+ * the UI can show it and let the user send their own wording instead.
+ */
+export function normalizeUserInput(rawInput: string, slot?: SpecSlot["key"] | null): NormalizationResult {
   const trimmed = rawInput.trim();
   let normalized = trimmed;
   const notes: string[] = [];
 
-  const difficultyNormalized = normalizeDifficultyCounts(normalized);
-  if (difficultyNormalized) {
-    normalized = difficultyNormalized.normalized;
-    notes.push(difficultyNormalized.note);
+  if (slot === "language") {
+    const language = normalizeLanguage(normalized);
+    if (language) {
+      normalized = language.normalized;
+      notes.push(language.note);
+    }
+  } else if (slot === "problem_count") {
+    const count = normalizeProblemCount(normalized);
+    if (count) {
+      normalized = count.normalized;
+      notes.push(count.note);
+    }
+  } else if (slot === "topic_tags") {
+    const topics = normalizeTopicList(normalized);
+    if (topics) {
+      normalized = topics.normalized;
+      notes.push(...topics.notes);
+    }
+  }
+
+  if (slot !== "topic_tags" && slot !== "constraints") {
+    // A single pair is enough when the difficulty question is the one being answered.
+    const difficultyNormalized = normalizeDifficultyCounts(normalized, slot === "difficulty_plan" ? 1 : 2);
+    if (difficultyNormalized) {
+      normalized = difficultyNormalized.normalized;
+      notes.push(difficultyNormalized.note);
+    }
   }
 
   const spacingFixed = normalized
@@ -0,0 +1,116 @@
+import type { ActivitySpecSnapshot } from "./api";
+import { isLanguageId } from "./languages";
+import { DIFFICULTIES, PROBLEM_STYLES, type Difficulty, type ProblemStyle, type SpecFormValues } from "./specForm";
+
+export type QuickStartPreset = {
+  id: string;
+  name: string;
+  description: string;
+  values: SpecFormValues;
+};
+
+export const QUICK_START_PRESETS: QuickStartPreset[] = [
+  {
+    id: "java-oop",
+    name: "Java OOP",
+    description: "Classes, inheritance and polymorphism",
+    values: {
+      language: "java",
+      problem_count: 5,
+      difficulty_plan: { easy: 2, medium: 2, hard: 1 },
+      topic_tags: ["classes", "encapsulation", "inheritance", "polymorphism"],
+      problem_style: "return",
+      constraints: "",
+    },
+  },
+  {
+    id: "python-collections",
+    name: "Python warm-up",
+    description: "Lists, dictionaries and loops",
+    values: {
+      language: "python",
+      problem_count: 3,
+      difficulty_plan: { easy: 2, medium: 1, hard: 0 },
+      topic_tags: ["lists", "dictionaries", "loops"],
+      problem_style: "return",
+      constraints: "",
+    },
+  },
+  {
+    id: "sql-joins",
+    name: "SQL joins",
+    description: "Joins, grouping and aggregates",
+    values: {
+      language: "sql",
+      problem_count: 4,
+      difficulty_plan: { easy: 1, medium: 2, hard: 1 },
+      topic_tags: ["joins", "group by", "aggregation"],
+      problem_style: "stdout",
+      constraints: "",
+    },
+  },
+  {
+    id: "cpp-stl",
+    name: "C++ STL",
+    description: "Vectors, maps and sorting",
+    values: {
+      language: "cpp",
+      problem_count: 4,
+      difficulty_plan: { easy: 1, medium: 2, hard: 1 },
+      topic_tags: ["vectors", "maps", "sorting"],
+      problem_style: "return",
+      constraints: "",
+    },
+  },
+  {
+    id: "javascript-strings",
+    name: "JavaScript strings",
+    description: "String manipulation and arrays",
+    values: {
+      language: "javascript",
+      problem_count: 3,
+      difficulty_plan: { easy: 1, medium: 2, hard: 0 },
+      topic_tags: ["strings", "arrays"],
+      problem_style: "return",
+      constraints: "",
+    },
+  },
+];
+
+/** The preset as it is stored on the backend (same shape as a session's `spec`). */
+export function formValuesToSpec(values: SpecFormValues): ActivitySpecSnapshot {
+  return {
+    language: values.language,
+    problem_count: values.problem_count,
+    difficulty_plan: DIFFICULTIES.filter((d) => values.difficulty_plan[d] > 0).map((d) => ({
+      difficulty: d,
+      count: values.difficulty_plan[d],
+    })),
+    topic_tags: values.topic_tags,
+    problem_style: values.problem_style,
+    ...(values.constraints.trim() ? { constraints: values.constraints.trim() } : {}),
+  };
+}
+
+/** Null when the spec is missing a required field or uses a value the form cannot express. */
+export function specToFormValues(spec: ActivitySpecSnapshot): SpecFormValues | null {
+  const { language, problem_count, difficulty_plan, topic_tags, problem_style } = spec;
+  if (!language || !isLanguageId(language)) return null;
+  if (problem_count == null || !difficulty_plan?.length || !topic_tags?.length) return null;
+  if (!problem_style || !(PROBLEM_STYLES as string[]).includes(problem_style)) return null;
+
+  const plan: Record<Difficulty, number> = { easy: 0, medium: 0, hard: 0 };
+  for (const entry of difficulty_plan) {
+    const d = entry.difficulty.toLowerCase();
+    if (!(DIFFICULTIES as string[]).includes(d)) return null;
+    plan[d as Difficulty] += entry.count;
+  }
+  return {
+    language,
+    problem_count,
+    difficulty_plan: plan,
+    topic_tags,
+    problem_style: problem_style as ProblemStyle,
+    constraints: spec.constraints ?? "",
+  };
+}
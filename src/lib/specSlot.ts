@@ -0,0 +1,6 @@
+// Shared by the spec builder hook and the modules it uses (normalization, form, snapshot).
+export type SpecSlot = {
+  key: "language" | "problem_count" | "difficulty_plan" | "topic_tags" | "problem_style" | "constraints";
+  intent: string;
+  examples?: string[];
+};
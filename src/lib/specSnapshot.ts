@@ -0,0 +1,79 @@
+import type { ActivitySpecSnapshot } from "./api";
+import type { SpecSlot } from "./specSlot";
+
+export type SpecFieldKey = SpecSlot["key"];
+
+export type SpecFieldStatus = "confirmed" | "needs_confirmation" | "invalid" | "pending";
+
+export const SPEC_FIELDS: Array<{ key: SpecFieldKey; label: string }> = [
+  { key: "language", label: "Language" },
+  { key: "problem_count", label: "Problem count" },
+  { key: "difficulty_plan", label: "Difficulty" },
+  { key: "topic_tags", label: "Topics" },
+  { key: "problem_style", label: "Checking style" },
+  { key: "constraints", label: "Constraints" },
+];
+
+export type QuestionKeySignal =
+  | { kind: "confirm"; fields: string[] }
+  | { kind: "invalid"; field: string }
+  | { kind: "goal"; goal: string }
+  | { kind: "ready" };
+
+/** `questionKey` values: `confirm:a,b`, `invalid:field`, `goal:name`, `ready`, or a plain slot key. */
+export function parseQuestionKey(key: string | null | undefined): QuestionKeySignal | null {
+  const k = (key ?? "").trim().toLowerCase();
+  if (!k) return null;
+  if (k === "ready") return { kind: "ready" };
+  if (k.startsWith("confirm:")) {
+    const fields = k
+      .slice("confirm:".length)
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean);
+    return { kind: "confirm", fields };
+  }
+  if (k.startsWith("invalid:")) return { kind: "invalid", field: k.slice("invalid:".length).trim() };
+  if (k.startsWith("goal:")) return { kind: "goal", goal: k.slice("goal:".length).trim() };
+  return null;
+}
+
+export function formatSpecFieldValue(key: SpecFieldKey, spec: ActivitySpecSnapshot): string | null {
+  switch (key) {
+    case "language":
+      return spec.language ?? null;
+    case "problem_count":
+      return spec.problem_count != null ? String(spec.problem_count) : null;
+    case "difficulty_plan":
+      return spec.difficulty_plan?.map((e) => `${e.difficulty}:${e.count}`).join(", ") || null;
+    case "topic_tags":
+      return spec.topic_tags?.join(", ") || null;
+    case "problem_style":
+      return spec.problem_style ?? null;
+    case "constraints":
+      return spec.constraints ?? null;
+  }
+}
+
+/**
+ * Status of each field for display. The backend decides what is confirmed; this only reads
+ * the snapshot (is the field filled?) and the latest `questionKey` (is it being questioned?).
+ */
+export function specFieldStatus(
+  key: SpecFieldKey,
+  spec: ActivitySpecSnapshot,
+  questionKey: string | null | undefined,
+): SpecFieldStatus {
+  const signal = parseQuestionKey(questionKey);
+  if (signal?.kind === "invalid" && signal.field === key) return "invalid";
+  if (signal?.kind === "confirm" && signal.fields.includes(key)) return "needs_confirmation";
+  return formatSpecFieldValue(key, spec) != null ? "confirmed" : "pending";
+}
+
+/** The chat message sent when the user edits a field from the sidebar. */
+export function buildSpecRevisionMessage(key: SpecFieldKey, value: string, askedNow: boolean): string {
+  // Answering the question being asked needs no preamble; anything else is phrased as a change.
+  if (askedNow) return value;
+  const label = SPEC_FIELDS.find((f) => f.key === key)?.label.toLowerCase() ?? key;
+  return `Please change the ${label} to: ${value}`;
+}
@@ -0,0 +1,62 @@
+import type { Database, SqlJsStatic } from "sql.js";
+import { toSqlValue, type SqlResultSet } from "./sqlSuite";
+
+export type SqlSandboxPhase = "load" | "schema" | "seed" | "query";
+
+export class SqlSandboxError extends Error {
+  phase: SqlSandboxPhase;
+
+  constructor(phase: SqlSandboxPhase, message: string) {
+    super(message);
+    this.name = "SqlSandboxError";
+    this.phase = phase;
+  }
+}
+
+// The wasm binary is copied from the installed `sql.js` package into public/sqljs/ before
+// dev/build (scripts/copy-runtime-assets.mjs), so it always matches the bundled JS glue.
+// NEXT_PUBLIC_SQLJS_WASM_URL can point at another copy of the same version.
+const WASM_BASE_URL = (process.env.NEXT_PUBLIC_SQLJS_WASM_URL || "/sqljs/").replace(/\/?$/, "/");
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJsPromise) {
+    sqlJsPromise = import("sql.js")
+      .then((mod) => mod.default({ locateFile: (file: string) => `${WASM_BASE_URL}${file}` }))
+      .catch((e) => {
+        // Allow a retry after a transient network failure.
+        sqlJsPromise = null;
+        throw new SqlSandboxError("load", `Could not load the SQL sandbox: ${e instanceof Error ? e.message : String(e)}`);
+      });
+  }
+  return sqlJsPromise;
+}
+
+function exec(db: Database, sql: string, phase: SqlSandboxPhase) {
+  try {
+    return db.exec(sql);
+  } catch (e) {
+    throw new SqlSandboxError(phase, e instanceof Error ? e.message : String(e));
+  }
+}
+
+/**
+ * Runs `query` against a fresh in-memory SQLite database built from `schemaSql` + `seedSql`.
+ * Returns the result of the last statement that produced rows (like the judge, which expects
+ * a single SELECT).
+ */
+export async function runSqlInSandbox(input: { schemaSql: string; seedSql: string; query: string }): Promise<SqlResultSet> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  try {
+    exec(db, input.schemaSql, "schema");
+    exec(db, input.seedSql, "seed");
+    const results = exec(db, input.query, "query");
+    const last = results[results.length - 1];
+    if (!last) return { columns: [], rows: [] };
+    return { columns: last.columns, rows: last.values.map((r) => r.map(toSqlValue)) };
+  } finally {
+    db.close();
+  }
+}
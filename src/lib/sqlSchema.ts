@@ -0,0 +1,208 @@
+export type SqlForeignKey = {
+  columns: string[];
+  refTable: string;
+  refColumns: string[];
+};
+
+export type SqlColumn = {
+  name: string;
+  type: string;
+  notNull: boolean;
+  primaryKey: boolean;
+  // Set when the column itself is (part of) a foreign key.
+  references: { table: string; column: string | null } | null;
+};
+
+export type SqlTable = {
+  name: string;
+  columns: SqlColumn[];
+  primaryKey: string[];
+  foreignKeys: SqlForeignKey[];
+};
+
+export type SqlSchema = {
+  tables: SqlTable[];
+};
+
+const CONSTRAINT_KEYWORDS = new Set([
+  "CONSTRAINT",
+  "PRIMARY",
+  "NOT",
+  "NULL",
+  "UNIQUE",
+  "CHECK",
+  "DEFAULT",
+  "COLLATE",
+  "REFERENCES",
+  "GENERATED",
+  "AS",
+]);
+
+function stripComments(sql: string): string {
+  let out = "";
+  let i = 0;
+  while (i < sql.length) {
+    const ch = sql[i]!;
+    if (ch === "'" || ch === '"' || ch === "`" || ch === "[") {
+      const close = ch === "[" ? "]" : ch;
+      let j = i + 1;
+      while (j < sql.length && sql[j] !== close) j++;
+      out += sql.slice(i, j + 1);
+      i = j + 1;
+    } else if (ch === "-" && sql[i + 1] === "-") {
+      while (i < sql.length && sql[i] !== "\n") i++;
+    } else if (ch === "/" && sql[i + 1] === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      i = end < 0 ? sql.length : end + 2;
+      out += " ";
+    } else {
+      out += ch;
+      i++;
+    }
+  }
+  return out;
+}
+
+/** Splits on `sep` outside quotes and parentheses. */
+function splitTopLevel(text: string, sep: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (quote) {
+      if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === "'" || ch === '"' || ch === "`") quote = ch;
+    else if (ch === "[") quote = "]";
+    else if (ch === "(") depth++;
+    else if (ch === ")") depth = Math.max(0, depth - 1);
+    else if (ch === sep && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts.map((p) => p.trim()).filter(Boolean);
+}
+
+function unquoteIdentifier(raw: string): string {
+  const s = raw.trim();
+  if (s.length >= 2) {
+    const first = s[0];
+    const last = s[s.length - 1];
+    if ((first === '"' && last === '"') || (first === "`" && last === "`") || (first === "[" && last === "]")) {
+      return s.slice(1, -1);
+    }
+  }
+  return s;
+}
+
+function identifierList(raw: string): string[] {
+  return splitTopLevel(raw, ",").map((c) => unquoteIdentifier(c.split(/\s+/)[0] ?? c));
+}
+
+// Matches a leading identifier: quoted, bracketed or bare.
+const IDENT = String.raw`(?:"[^"]+"|\x60[^\x60]+\x60|\[[^\]]+\]|[A-Za-z_][\w$]*)`;
+const QUALIFIED_IDENT = String.raw`(?:${IDENT}\s*\.\s*)?(${IDENT})`;
+
+const CREATE_TABLE_RE = new RegExp(
+  String.raw`^CREATE\s+(?:TEMP(?:ORARY)?\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?${QUALIFIED_IDENT}\s*\(([\s\S]*)\)[^)]*$`,
+  "i",
+);
+const REFERENCES_RE = new RegExp(String.raw`\bREFERENCES\s+${QUALIFIED_IDENT}\s*(?:\(([^)]*)\))?`, "i");
+const LEADING_IDENT_RE = new RegExp(String.raw`^(${IDENT})\s*([\s\S]*)$`);
+
+function parseColumn(def: string): { column: SqlColumn; foreignKey: SqlForeignKey | null } | null {
+  const m = LEADING_IDENT_RE.exec(def);
+  if (!m) return null;
+  const name = unquoteIdentifier(m[1]!);
+  const rest = m[2] ?? "";
+
+  // The declared type is everything up to the first constraint keyword (e.g. `VARCHAR(20)`).
+  const typeWords: string[] = [];
+  for (const word of rest.match(/[^\s(]+(?:\([^)]*\))?|\([^)]*\)/g) ?? []) {
+    if (CONSTRAINT_KEYWORDS.has(word.toUpperCase().replace(/\(.*$/, ""))) break;
+    typeWords.push(word);
+  }
+
+  const upper = rest.toUpperCase();
+  const ref = REFERENCES_RE.exec(rest);
+  const refTable = ref ? unquoteIdentifier(ref[1]!) : null;
+  const refColumns = ref?.[2] ? identifierList(ref[2]) : [];
+
+  return {
+    column: {
+      name,
+      type: typeWords.join(" ").toUpperCase(),
+      notNull: /\bNOT\s+NULL\b/.test(upper),
+      primaryKey: /\bPRIMARY\s+KEY\b/.test(upper),
+      references: refTable ? { table: refTable, column: refColumns[0] ?? null } : null,
+    },
+    foreignKey: refTable ? { columns: [name], refTable, refColumns } : null,
+  };
+}
+
+function parseCreateTable(statement: string): SqlTable | null {
+  const m = CREATE_TABLE_RE.exec(statement.trim());
+  if (!m) return null;
+  const table: SqlTable = { name: unquoteIdentifier(m[1]!), columns: [], primaryKey: [], foreignKeys: [] };
+
+  for (const item of splitTopLevel(m[2] ?? "", ",")) {
+    const body = item.replace(/^CONSTRAINT\s+\S+\s+/i, "");
+    const pk = /^PRIMARY\s+KEY\s*\(([^)]*)\)/i.exec(body);
+    if (pk) {
+      table.primaryKey = identifierList(pk[1]!);
+      continue;
+    }
+    const fk = /^FOREIGN\s+KEY\s*\(([^)]*)\)/i.exec(body);
+    if (fk) {
+      const ref = REFERENCES_RE.exec(body);
+      if (ref) {
+        table.foreignKeys.push({
+          columns: identifierList(fk[1]!),
+          refTable: unquoteIdentifier(ref[1]!),
+          refColumns: ref[2] ? identifierList(ref[2]) : [],
+        });
+      }
+      continue;
+    }
+    if (/^(UNIQUE|CHECK)\b/i.test(body)) continue;
+
+    const parsed = parseColumn(item);
+    if (!parsed) continue;
+    table.columns.push(parsed.column);
+    if (parsed.foreignKey) table.foreignKeys.push(parsed.foreignKey);
+  }
+
+  if (table.primaryKey.length === 0) {
+    table.primaryKey = table.columns.filter((c) => c.primaryKey).map((c) => c.name);
+  }
+  const pkSet = new Set(table.primaryKey.map((c) => c.toLowerCase()));
+  for (const col of table.columns) {
+    if (pkSet.has(col.name.toLowerCase())) col.primaryKey = true;
+    if (col.references) continue;
+    const fk = table.foreignKeys.find((f) => f.columns.some((c) => c.toLowerCase() === col.name.toLowerCase()));
+    if (fk) {
+      const idx = fk.columns.findIndex((c) => c.toLowerCase() === col.name.toLowerCase());
+      col.references = { table: fk.refTable, column: fk.refColumns[idx] ?? null };
+    }
+  }
+  return table;
+}
+
+/**
+ * Extracts tables from the `CREATE TABLE` statements in a suite's `schema_sql` (SQLite
+ * dialect). Other statements (indexes, views, inserts) are ignored; this is only meant for
+ * display, so anything it cannot understand is skipped rather than reported.
+ */
+export function parseSqlSchema(schemaSql: string): SqlSchema {
+  const tables: SqlTable[] = [];
+  for (const statement of splitTopLevel(stripComments(schemaSql), ";")) {
+    const table = parseCreateTable(statement);
+    if (table) tables.push(table);
+  }
+  return { tables };
+}
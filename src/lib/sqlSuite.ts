@@ -0,0 +1,216 @@
+import { parsePythonLiteral } from "./pythonLiteral";
+
+export type SqlValue = string | number | null;
+
+export type SqlResultSet = {
+  columns: string[];
+  rows: SqlValue[][];
+};
+
+export type SqlSuiteCase = {
+  name: string;
+  seed_sql: string;
+  expected: SqlResultSet;
+  order_matters?: boolean;
+};
+
+export type SqlSuite = {
+  schema_sql: string;
+  cases: SqlSuiteCase[];
+};
+
+function record(x: unknown): Record<string, unknown> | null {
+  return x && typeof x === "object" && !Array.isArray(x) ? (x as Record<string, unknown>) : null;
+}
+
+/** SQL problems store their test suite as JSON: `{ schema_sql, cases: [{ name, seed_sql, expected, order_matters? }] }`. */
+export function tryParseSqlSuite(testSuite: string): SqlSuite | null {
+  if (!testSuite.trim()) return null;
+  try {
+    const parsed = record(JSON.parse(testSuite));
+    if (!parsed) return null;
+    const schema_sql = typeof parsed.schema_sql === "string" ? parsed.schema_sql : "";
+    const cases = Array.isArray(parsed.cases) ? parsed.cases : null;
+    if (!schema_sql || !cases) return null;
+    const normalized: SqlSuiteCase[] = [];
+    for (const raw of cases) {
+      const c = record(raw);
+      if (!c) continue;
+      const name = typeof c.name === "string" ? c.name : "";
+      const seed_sql = typeof c.seed_sql === "string" ? c.seed_sql : "";
+      const expected = record(c.expected);
+      if (!name || !seed_sql || !expected) continue;
+      const columns = Array.isArray(expected.columns) ? expected.columns.map(String) : [];
+      const rows = Array.isArray(expected.rows)
+        ? expected.rows.filter(Array.isArray).map((r: unknown[]) => r.map(toSqlValue))
+        : [];
+      if (columns.length === 0) continue;
+      normalized.push({
+        name,
+        seed_sql,
+        expected: { columns, rows },
+        ...(typeof c.order_matters === "boolean" ? { order_matters: c.order_matters } : {}),
+      });
+    }
+    return { schema_sql, cases: normalized };
+  } catch {
+    return null;
+  }
+}
+
+export function toSqlValue(x: unknown): SqlValue {
+  if (x == null) return null;
+  if (typeof x === "number" || typeof x === "string") return x;
+  if (typeof x === "bigint") return Number(x);
+  if (typeof x === "boolean") return x ? 1 : 0;
+  return String(x);
+}
+
+/**
+ * The SQL harness reports a failing case as `Actual columns: [...]` / `Actual rows: [(...), ...]`
+ * using Python reprs. Returns null when either line is missing or not a plain literal.
+ */
+export function parseSqlActualResult(message: string): SqlResultSet | null {
+  const columnsRaw = message.match(/Actual columns:\s*([^\n]+)/)?.[1];
+  const rowsRaw = message.match(/Actual rows:\s*([^\n]+)/)?.[1];
+  if (!columnsRaw || !rowsRaw) return null;
+  const columns = parsePythonLiteral(columnsRaw.trim());
+  const rows = parsePythonLiteral(rowsRaw.trim());
+  if (!Array.isArray(columns) || !Array.isArray(rows) || !rows.every(Array.isArray)) return null;
+  return {
+    columns: columns.map(String),
+    rows: rows.map((r: unknown[]) => r.map(toSqlValue)),
+  };
+}
+
+export type SqlComparison =
+  | { match: true }
+  | { match: false; reason: "columns" | "row_count" | "rows" | "order"; message: string };
+
+// SQLite returns integers for whole-number REALs in some paths and strings for numerics in others.
+function valueKey(v: SqlValue): string {
+  if (v == null) return "\u0000NULL";
+  if (typeof v === "number") return String(Number.isInteger(v) ? v : Number(v.toFixed(9)));
+  const n = Number(v);
+  if (v.trim() !== "" && Number.isFinite(n)) return String(Number.isInteger(n) ? n : Number(n.toFixed(9)));
+  return v;
+}
+
+function rowKey(row: SqlValue[]): string {
+  return JSON.stringify(row.map(valueKey));
+}
+
+export type SqlRowMark = "match" | "mismatch" | "missing" | "extra";
+
+export type SqlGridMarks = {
+  columns: boolean[];
+  rows: SqlRowMark[];
+  cells: boolean[][];
+};
+
+/** Per-row/per-cell highlighting for rendering expected and actual result sets side by side. */
+export type SqlResultDiff = {
+  expected: SqlGridMarks;
+  actual: SqlGridMarks;
+};
+
+function cellMismatches(a: SqlValue[] | undefined, b: SqlValue[] | undefined, width: number): boolean[] {
+  return Array.from({ length: width }, (_, i) => {
+    const x = a?.[i];
+    const y = b?.[i];
+    if (x === undefined || y === undefined) return true;
+    return valueKey(x) !== valueKey(y);
+  });
+}
+
+/**
+ * Pairs up expected and actual rows: by position when `orderMatters`, otherwise by content
+ * first (so a correct row in a different position stays unhighlighted), then by position among
+ * the leftovers. Unpaired rows are `missing` (expected side) or `extra` (actual side).
+ */
+export function diffSqlResults(expected: SqlResultSet, actual: SqlResultSet, orderMatters: boolean): SqlResultDiff {
+  const expectedCols = expected.columns.map((c) => c.toLowerCase());
+  const actualCols = actual.columns.map((c) => c.toLowerCase());
+  const out: SqlResultDiff = {
+    expected: {
+      columns: expectedCols.map((c, i) => c !== actualCols[i]),
+      rows: expected.rows.map(() => "missing"),
+      cells: expected.rows.map((r) => r.map(() => false)),
+    },
+    actual: {
+      columns: actualCols.map((c, i) => c !== expectedCols[i]),
+      rows: actual.rows.map(() => "extra"),
+      cells: actual.rows.map((r) => r.map(() => false)),
+    },
+  };
+
+  const pair = (ei: number, ai: number) => {
+    const e = expected.rows[ei]!;
+    const a = actual.rows[ai]!;
+    out.expected.cells[ei] = cellMismatches(e, a, e.length);
+    out.actual.cells[ai] = cellMismatches(a, e, a.length);
+    const same = out.expected.cells[ei]!.every((m) => !m) && out.actual.cells[ai]!.every((m) => !m);
+    out.expected.rows[ei] = same ? "match" : "mismatch";
+    out.actual.rows[ai] = same ? "match" : "mismatch";
+  };
+
+  if (orderMatters) {
+    for (let i = 0; i < Math.min(expected.rows.length, actual.rows.length); i++) pair(i, i);
+    return out;
+  }
+
+  const unmatchedExpected = new Map<string, number[]>();
+  expected.rows.forEach((r, i) => {
+    const k = rowKey(r);
+    unmatchedExpected.set(k, [...(unmatchedExpected.get(k) ?? []), i]);
+  });
+  const leftoverActual: number[] = [];
+  actual.rows.forEach((r, ai) => {
+    const ei = unmatchedExpected.get(rowKey(r))?.shift();
+    if (ei == null) leftoverActual.push(ai);
+    else pair(ei, ai);
+  });
+  const leftoverExpected = expected.rows.map((_, i) => i).filter((i) => out.expected.rows[i] === "missing");
+  for (let i = 0; i < Math.min(leftoverExpected.length, leftoverActual.length); i++) {
+    pair(leftoverExpected[i]!, leftoverActual[i]!);
+  }
+  return out;
+}
+
+/**
+ * Compares a query result with a case's expected result set the way the judge does: column
+ * names must match (case-insensitive), and rows are compared as a multiset unless
+ * `orderMatters` is set.
+ */
+export function compareSqlResults(expected: SqlResultSet, actual: SqlResultSet, orderMatters: boolean): SqlComparison {
+  const expectedCols = expected.columns.map((c) => c.toLowerCase());
+  const actualCols = actual.columns.map((c) => c.toLowerCase());
+  if (expectedCols.length !== actualCols.length || expectedCols.some((c, i) => c !== actualCols[i])) {
+    return {
+      match: false,
+      reason: "columns",
+      message: `Expected columns (${expected.columns.join(", ")}) but got (${actual.columns.join(", ")}).`,
+    };
+  }
+  if (expected.rows.length !== actual.rows.length) {
+    return {
+      match: false,
+      reason: "row_count",
+      message: `Expected ${expected.rows.length} row${expected.rows.length === 1 ? "" : "s"} but got ${actual.rows.length}.`,
+    };
+  }
+
+  const e = expected.rows.map(rowKey);
+  const a = actual.rows.map(rowKey);
+  if (e.every((k, i) => k === a[i])) return { match: true };
+
+  const sortedE = [...e].sort();
+  const sortedA = [...a].sort();
+  const sameMultiset = sortedE.every((k, i) => k === sortedA[i]);
+  if (sameMultiset) {
+    return orderMatters
+      ? { match: false, reason: "order", message: "Rows are correct but in the wrong order (check ORDER BY)." }
+      : { match: true };
+  }
+  return { match: false, reason: "rows", message: "Some rows differ from the expected result." };
+}
@@ -0,0 +1,162 @@
+export type DiffSegment = { text: string; changed: boolean };
+
+export type DiffRow =
+  | { kind: "equal"; left: string; right: string }
+  // A changed line pair; either side may be missing when one output has extra lines.
+  | { kind: "changed"; left: DiffSegment[] | null; right: DiffSegment[] | null };
+
+export type TextDiff = {
+  rows: DiffRow[];
+  identical: boolean;
+  // True when the outputs only differ by a trailing newline at the end.
+  onlyTrailingNewlineDiffers: boolean;
+  expectedEndsWithNewline: boolean;
+  actualEndsWithNewline: boolean;
+};
+
+type Op = { kind: "equal" | "removed" | "added"; a?: string; b?: string };
+
+// Past this many cells the LCS table gets too large for a render path; fall back to pairing lines.
+const MAX_LCS_CELLS = 250_000;
+
+function lcsOps<T>(a: readonly T[], b: readonly T[], eq: (x: T, y: T) => boolean): Array<{ kind: Op["kind"]; i: number; j: number }> {
+  const n = a.length;
+  const m = b.length;
+  const out: Array<{ kind: Op["kind"]; i: number; j: number }> = [];
+  if (n * m > MAX_LCS_CELLS) {
+    for (let k = 0; k < Math.max(n, m); k++) {
+      if (k < n && k < m && eq(a[k]!, b[k]!)) out.push({ kind: "equal", i: k, j: k });
+      else {
+        if (k < n) out.push({ kind: "removed", i: k, j: -1 });
+        if (k < m) out.push({ kind: "added", i: -1, j: k });
+      }
+    }
+    return out;
+  }
+
+  // dp[i][j] = LCS length of a[i..] and b[j..], stored row-major.
+  const w = m + 1;
+  const dp = new Uint32Array((n + 1) * w);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      dp[i * w + j] = eq(a[i]!, b[j]!) ? dp[(i + 1) * w + j + 1]! + 1 : Math.max(dp[(i + 1) * w + j]!, dp[i * w + j + 1]!);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (eq(a[i]!, b[j]!)) {
+      out.push({ kind: "equal", i, j });
+      i++;
+      j++;
+    } else if (dp[(i + 1) * w + j]! >= dp[i * w + j + 1]!) {
+      out.push({ kind: "removed", i, j: -1 });
+      i++;
+    } else {
+      out.push({ kind: "added", i: -1, j });
+      j++;
+    }
+  }
+  for (; i < n; i++) out.push({ kind: "removed", i, j: -1 });
+  for (; j < m; j++) out.push({ kind: "added", i: -1, j });
+  return out;
+}
+
+function mergeSegments(segments: DiffSegment[]): DiffSegment[] {
+  const out: DiffSegment[] = [];
+  for (const s of segments) {
+    const last = out[out.length - 1];
+    if (last && last.changed === s.changed) last.text += s.text;
+    else if (s.text) out.push({ ...s });
+  }
+  return out;
+}
+
+/** Character-level diff of one line pair. */
+export function diffChars(left: string, right: string): { left: DiffSegment[]; right: DiffSegment[] } {
+  const a = Array.from(left);
+  const b = Array.from(right);
+  const ops = lcsOps(a, b, (x, y) => x === y);
+  const l: DiffSegment[] = [];
+  const r: DiffSegment[] = [];
+  for (const op of ops) {
+    if (op.kind === "equal") {
+      l.push({ text: a[op.i]!, changed: false });
+      r.push({ text: b[op.j]!, changed: false });
+    } else if (op.kind === "removed") {
+      l.push({ text: a[op.i]!, changed: true });
+    } else {
+      r.push({ text: b[op.j]!, changed: true });
+    }
+  }
+  return { left: mergeSegments(l), right: mergeSegments(r) };
+}
+
+// Carriage returns stay in the line so whitespace-visible mode can show them.
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  return (text.endsWith("\n") ? text.slice(0, -1) : text).split("\n");
+}
+
+/**
+ * Line diff of expected vs actual output, with character-level segments for changed line pairs.
+ * A single trailing newline is not part of the line list; it is reported separately so the UI
+ * can call it out instead of showing an empty changed row.
+ */
+export function diffText(expected: string, actual: string): TextDiff {
+  const expectedEndsWithNewline = expected.endsWith("\n");
+  const actualEndsWithNewline = actual.endsWith("\n");
+  const a = splitLines(expected);
+  const b = splitLines(actual);
+  const ops = lcsOps(a, b, (x, y) => x === y);
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    const pairs = Math.max(removed.length, added.length);
+    for (let k = 0; k < pairs; k++) {
+      const l = removed[k];
+      const r = added[k];
+      if (l != null && r != null) {
+        const d = diffChars(l, r);
+        rows.push({ kind: "changed", left: d.left, right: d.right });
+      } else {
+        rows.push({
+          kind: "changed",
+          left: l != null ? [{ text: l, changed: true }] : null,
+          right: r != null ? [{ text: r, changed: true }] : null,
+        });
+      }
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const op of ops) {
+    if (op.kind === "equal") {
+      flush();
+      rows.push({ kind: "equal", left: a[op.i]!, right: b[op.j]! });
+    } else if (op.kind === "removed") {
+      removed.push(a[op.i]!);
+    } else {
+      added.push(b[op.j]!);
+    }
+  }
+  flush();
+
+  const linesEqual = rows.every((r) => r.kind === "equal");
+  return {
+    rows,
+    identical: linesEqual && expectedEndsWithNewline === actualEndsWithNewline,
+    onlyTrailingNewlineDiffers: linesEqual && expectedEndsWithNewline !== actualEndsWithNewline,
+    expectedEndsWithNewline,
+    actualEndsWithNewline,
+  };
+}
+
+/** Makes spaces, tabs and carriage returns visible for whitespace-sensitive comparisons. */
+export function visualizeWhitespace(text: string): string {
+  return text.replace(/ /g, "·").replace(/\t/g, "→").replace(/\r/g, "␍");
+}
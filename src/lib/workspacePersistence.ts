@@ -0,0 +1,102 @@
+import type { FileRole, LanguageWorkspace } from "./languages";
+
+export type WorkspaceSnapshot = LanguageWorkspace;
+
+export type PersistedWorkspaceV1 = WorkspaceSnapshot & {
+  v: 1;
+  // Hash of the starter workspace the edits were based on; detects regenerated/edited problems.
+  starterHash: string;
+  savedAtMs: number;
+};
+
+const FILE_ROLES: readonly FileRole[] = ["entry", "support", "readonly"];
+
+export function workspaceStorageKey(activityId: string, problemId: string): string {
+  return `codem-workspace:v1:${activityId}:${problemId}`;
+}
+
+// FNV-1a over the sorted file list; only needs to detect changes, not resist collisions.
+export function hashStarterWorkspace(snapshot: Pick<WorkspaceSnapshot, "files" | "fileRoles">): string {
+  let h = 0x811c9dc5;
+  const feed = (s: string) => {
+    for (let i = 0; i < s.length; i++) {
+      h ^= s.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+  };
+  for (const name of Object.keys(snapshot.files).sort()) {
+    feed(name);
+    feed("\u0000");
+    feed(snapshot.fileRoles[name] ?? "");
+    feed("\u0000");
+    feed(snapshot.files[name] ?? "");
+    feed("\u0001");
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+function isStringRecord(x: unknown): x is Record<string, string> {
+  return (
+    !!x &&
+    typeof x === "object" &&
+    !Array.isArray(x) &&
+    Object.values(x as Record<string, unknown>).every((v) => typeof v === "string")
+  );
+}
+
+function parsePersistedWorkspace(raw: unknown): PersistedWorkspaceV1 | null {
+  if (!raw || typeof raw !== "object") return null;
+  const s = raw as Record<string, unknown>;
+  if (s.v !== 1) return null;
+  if (!isStringRecord(s.files) || Object.keys(s.files).length === 0) return null;
+  if (!isStringRecord(s.fileRoles)) return null;
+  const files = s.files;
+  const fileRoles: Record<string, FileRole> = {};
+  for (const name of Object.keys(files)) {
+    const role = s.fileRoles[name];
+    fileRoles[name] = FILE_ROLES.includes(role as FileRole) ? (role as FileRole) : "support";
+  }
+  if (typeof s.starterHash !== "string" || typeof s.entrypoint !== "string") return null;
+  const activeFilename =
+    typeof s.activeFilename === "string" && s.activeFilename in files ? s.activeFilename : Object.keys(files)[0]!;
+  return {
+    v: 1,
+    files,
+    fileRoles,
+    entrypoint: s.entrypoint,
+    activeFilename,
+    starterHash: s.starterHash,
+    savedAtMs: typeof s.savedAtMs === "number" && Number.isFinite(s.savedAtMs) ? s.savedAtMs : 0,
+  };
+}
+
+export function loadPersistedWorkspace(activityId: string, problemId: string): PersistedWorkspaceV1 | null {
+  try {
+    const raw = localStorage.getItem(workspaceStorageKey(activityId, problemId));
+    return raw ? parsePersistedWorkspace(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function savePersistedWorkspace(
+  activityId: string,
+  problemId: string,
+  snapshot: WorkspaceSnapshot,
+  starterHash: string,
+) {
+  const next: PersistedWorkspaceV1 = { v: 1, ...snapshot, starterHash, savedAtMs: Date.now() };
+  try {
+    localStorage.setItem(workspaceStorageKey(activityId, problemId), JSON.stringify(next));
+  } catch {
+    // Quota exceeded or storage disabled; edits stay in memory.
+  }
+}
+
+export function clearPersistedWorkspace(activityId: string, problemId: string) {
+  try {
+    localStorage.removeItem(workspaceStorageKey(activityId, problemId));
+  } catch {
+    // ignore
+  }
+}
@@ -1,5 +1,5 @@
 export type Difficulty = "easy" | "medium" | "hard";
-export type GenerationLanguage = "java" | "python" | "cpp" | "sql";
+export type GenerationLanguage = "java" | "python" | "cpp" | "sql" | "javascript" | "typescript";
 
 export type GenerationProgressEvent =
   // Phase 2B: richer structured events for per-slot progress UI.
@@ -14,6 +14,8 @@ export type GenerationProgressEvent =
   | { type: "generation_completed"; activityId: string }
   | { type: "generation_failed"; error: string; slotIndex?: number }
   | { type: "heartbeat"; ts: string }
+  // A failed slot was sent back through the pipeline (optionally with a new topic).
+  | { type: "slot_retry_queued"; slotIndex: number; topic?: string }
   // Backwards-compatible v1 events.
   | { type: "problem_started"; index: number; difficulty: Difficulty }
   | { type: "attempt_started"; index: number; attempt: number }
@@ -23,3 +25,23 @@ export type GenerationProgressEvent =
   | { type: "problem_validated"; index: number }
   | { type: "problem_failed"; index: number }
   | { type: "generation_complete"; activityId: string };
+
+export type SlotStage = "queued" | "llm" | "contract" | "docker" | "done" | "failed";
+
+export type SlotProgress = {
+  stage: SlotStage;
+  attempt: number;
+  difficulty: Difficulty | null;
+  topic: string | null;
+  language: GenerationLanguage | null;
+  stageDone: { llm: boolean; contract: boolean; docker: boolean };
+  lastFailure: { stage: "contract" | "docker"; message: string } | null;
+};
+
+export type GenerationProgressState = {
+  totalSlots: number;
+  run: number;
+  slots: SlotProgress[];
+  error: string | null;
+  lastHeartbeatTs: string | null;
+};